@@ -1,9 +1,12 @@
 import { useState, useEffect } from 'react'
 import { useRuntimeKV } from '@/hooks/useRuntimeKV'
-import { KnowledgeBase, Document, Query, SourceType, AzureSearchSettings } from '@/lib/types'
+import { useDocumentStore } from '@/hooks/useDocumentStore'
+import { KnowledgeBase, Document, Query, SourceType, AzureSearchSettings, ChunkingOptions, DocumentChunk, EmbeddingSettings, FusionOptions } from '@/lib/types'
 import { generateId, simulateDocumentExtraction } from '@/lib/helpers'
 import { AzureSearchService } from '@/lib/azure-search'
 import { ChunkManager } from '@/lib/chunk-manager'
+import { kbStorage } from '@/lib/kb-storage'
+import { countFallbackEmbeddings, defaultChunkStrategy } from '@/lib/chunking'
 import { scrapeWebContent, convertToDocument as convertWebToDocument } from '@/lib/web-scraper'
 import { fetchRepoContent, convertRepoToDocuments } from '@/lib/github-service'
 import { simulateOneDriveFetch } from '@/lib/onedrive-service'
@@ -22,19 +25,28 @@ import { AgenticQueryInterface } from '@/components/AgenticQueryInterface'
 import { QueryHistory } from '@/components/QueryHistory'
 import { AzureSettingsDialog } from '@/components/AzureSettingsDialog'
 import { CloudStorageSettingsDialog, CloudStorageSettings } from '@/components/CloudStorageSettingsDialog'
+import { ApiKeySettingsDialog } from '@/components/ApiKeySettingsDialog'
 import { ChunkVisualizerDialog } from '@/components/ChunkVisualizerDialog'
+import { KnowledgeBaseSettingsDialog } from '@/components/KnowledgeBaseSettingsDialog'
 import { StrategyPerformanceDashboard } from '@/components/StrategyPerformanceDashboard'
 import { UnifiedAnalyticsDashboard } from '@/components/UnifiedAnalyticsDashboard'
 import { UnifiedQueryTracker, UnifiedQueryRecord, UnifiedQueryMethod } from '@/lib/unified-query-model'
-import { Database, Plus, ArrowLeft, ChartBar, MagnifyingGlass, FileText, Gear, Lightning, Brain } from '@phosphor-icons/react'
+import { Database, Plus, ArrowLeft, ChartBar, MagnifyingGlass, FileText, Gear, Lightning, Brain, Key } from '@phosphor-icons/react'
 import { toast, Toaster } from 'sonner'
 import { motion } from 'framer-motion'
 
 type View = 'dashboard' | 'details' | 'analytics' | 'performance'
 
+function warnOnEmbeddingFallback(chunks: DocumentChunk[]) {
+  const fallback = countFallbackEmbeddings(chunks)
+  if (fallback > 0) {
+    toast.warning(`The embedding provider failed for ${fallback} chunk(s). They are left out of semantic search until you re-embed the knowledge base from its settings.`)
+  }
+}
+
 function App() {
-  const [knowledgeBases, setKnowledgeBases] = useRuntimeKV<KnowledgeBase[]>('knowledge-bases', [])
-  const [documents, setDocuments] = useRuntimeKV<Document[]>('documents', [])
+  const [knowledgeBases, setKnowledgeBases, syncKnowledgeBases] = useRuntimeKV<KnowledgeBase[]>('knowledge-bases', [])
+  const [documents, setDocuments] = useDocumentStore()
   const [queries, setQueries] = useRuntimeKV<Query[]>('queries', [])
   const [azureSettings, setAzureSettings] = useRuntimeKV<AzureSearchSettings>('azure-settings', {
     endpoint: '',
@@ -55,6 +67,8 @@ function App() {
   const [showDocumentViewer, setShowDocumentViewer] = useState(false)
   const [showAzureSettings, setShowAzureSettings] = useState(false)
   const [showCloudStorageSettings, setShowCloudStorageSettings] = useState(false)
+  const [showApiKeySettings, setShowApiKeySettings] = useState(false)
+  const [showKBSettings, setShowKBSettings] = useState(false)
   const [syncingToAzure, setSyncingToAzure] = useState(false)
   const [showChunkVisualizer, setShowChunkVisualizer] = useState(false)
   const [visualizerDocument, setVisualizerDocument] = useState<Document | null>(null)
@@ -204,7 +218,7 @@ function App() {
         id: generateId(),
         addedAt: Date.now(),
         knowledgeBaseId: selectedKB.id,
-        chunkStrategy: 'semantic' as const
+        chunkStrategy: doc.chunkStrategy || defaultChunkStrategy(doc.sourceType)
       }))
 
       setDocuments((current) => [...(current || []), ...newDocs])
@@ -222,7 +236,8 @@ function App() {
           doc.content,
           doc.sourceType,
           doc.sourceUrl,
-          doc.chunkStrategy || 'semantic'
+          doc.chunkStrategy || 'semantic',
+          selectedKB.chunking
         )
 
         totalChunks += chunks.length
@@ -235,6 +250,7 @@ function App() {
           )
         )
       }
+      warnOnEmbeddingFallback(allChunks)
 
       if (selectedKB.azureSearchEnabled && selectedKB.azureIndexName && azureSettings?.enabled) {
         try {
@@ -287,23 +303,29 @@ function App() {
     }
   }
   
-  const handleFileUpload = async (files: Array<{ title: string; content: string; metadata: any; fileName: string }>) => {
+  const handleFileUpload = async (
+    files: Array<{ title: string; content: string; metadata: any; fileName: string }>,
+    onProgress?: (fraction: number, message: string) => void
+  ) => {
     if (!selectedKB) return
     
     toast.info(`Processing ${files.length} file(s)...`)
     
     try {
-      const newDocs: Document[] = files.map(file => ({
-        id: generateId(),
-        title: file.title,
-        content: file.content,
-        sourceType: (file.metadata.fileType === 'pdf' ? 'pdf' : file.metadata.fileType === 'markdown' ? 'markdown' : 'docx') as SourceType,
-        sourceUrl: file.fileName,
-        addedAt: Date.now(),
-        knowledgeBaseId: selectedKB.id,
-        metadata: file.metadata,
-        chunkStrategy: 'semantic' as const
-      }))
+      const newDocs: Document[] = files.map(file => {
+        const sourceType: SourceType = file.metadata.fileType === 'pdf' ? 'pdf' : file.metadata.fileType === 'markdown' ? 'markdown' : 'docx'
+        return {
+          id: generateId(),
+          title: file.title,
+          content: file.content,
+          sourceType,
+          sourceUrl: file.fileName,
+          addedAt: Date.now(),
+          knowledgeBaseId: selectedKB.id,
+          metadata: file.metadata,
+          chunkStrategy: defaultChunkStrategy(sourceType)
+        }
+      })
 
       setDocuments((current) => [...(current || []), ...newDocs])
 
@@ -312,7 +334,7 @@ function App() {
       let totalChunks = 0
       const allChunks = []
 
-      for (const doc of newDocs) {
+      for (const [index, doc] of newDocs.entries()) {
         const chunks = await chunkManager.chunkDocument(
           doc.id,
           doc.knowledgeBaseId,
@@ -320,7 +342,12 @@ function App() {
           doc.content,
           doc.sourceType,
           doc.sourceUrl,
-          doc.chunkStrategy || 'semantic'
+          doc.chunkStrategy || 'semantic',
+          selectedKB.chunking,
+          ({ completed, total }) => onProgress?.(
+            (index + (total > 0 ? completed / total : 1)) / newDocs.length,
+            `Embedding ${doc.title} (${completed}/${total} chunks)...`
+          )
         )
 
         totalChunks += chunks.length
@@ -333,6 +360,7 @@ function App() {
           )
         )
       }
+      warnOnEmbeddingFallback(allChunks)
 
       if (selectedKB.azureSearchEnabled && selectedKB.azureIndexName && azureSettings?.enabled) {
         try {
@@ -469,23 +497,37 @@ function App() {
       current && current.id === id ? updatedDoc : current
     )
 
+    // Re-chunk; only chunks whose text changed are re-embedded
+    let newChunks: DocumentChunk[]
+    try {
+      newChunks = await chunkManager.chunkDocument(
+        updatedDoc.id,
+        updatedDoc.knowledgeBaseId,
+        updatedDoc.title,
+        updatedDoc.content,
+        updatedDoc.sourceType,
+        updatedDoc.sourceUrl,
+        updatedDoc.chunkStrategy || 'semantic',
+        selectedKB?.chunking
+      )
+
+      setDocuments((current) =>
+        (current || []).map(d =>
+          d.id === id ? { ...d, chunkCount: newChunks.length } : d
+        )
+      )
+    } catch (error) {
+      console.error('Failed to re-chunk updated document', error)
+      toast.error('Document updated, but its chunks could not be refreshed')
+      return
+    }
+    warnOnEmbeddingFallback(newChunks)
+
     // Sync to Azure if enabled
     if (selectedKB?.azureSearchEnabled && selectedKB.azureIndexName && azureSettings?.enabled) {
       try {
         toast.info('Syncing changes to Azure...')
 
-        // Regenerate chunks for updated document
-        const newChunks = await chunkManager.chunkDocument(
-          updatedDoc.id,
-          updatedDoc.knowledgeBaseId,
-          updatedDoc.title,
-          updatedDoc.content,
-          updatedDoc.sourceType,
-          updatedDoc.sourceUrl,
-          updatedDoc.chunkStrategy || 'semantic'
-        )
-
-        // Update in Azure
         const service = new AzureSearchService({
           endpoint: azureSettings.endpoint,
           apiKey: azureSettings.apiKey,
@@ -494,13 +536,6 @@ function App() {
 
         await service.updateDocument(updatedDoc, newChunks)
 
-        // Update local chunk count
-        setDocuments((current) =>
-          (current || []).map(d =>
-            d.id === id ? { ...d, chunkCount: newChunks.length } : d
-          )
-        )
-
         toast.success('Document updated and synced to Azure')
       } catch (error) {
         console.error('Failed to sync document update to Azure', error)
@@ -555,6 +590,32 @@ function App() {
     setAzureSettings(settings)
   }
 
+  const handleSaveChunking = (chunking: ChunkingOptions) => {
+    if (!selectedKB) return
+
+    setKnowledgeBases((current) =>
+      (current || []).map(kb => kb.id === selectedKB.id ? { ...kb, chunking, updatedAt: Date.now() } : kb)
+    )
+    setSelectedKB((current) => current ? { ...current, chunking, updatedAt: Date.now() } : current)
+  }
+
+  const handleSaveEmbedding = async (embedding: EmbeddingSettings) => {
+    if (!selectedKB) return
+
+    const stored = await kbStorage.saveEmbeddingSettings(selectedKB.id, embedding)
+    syncKnowledgeBases(stored)
+    setSelectedKB((current) => stored.find(kb => kb.id === current?.id) ?? current)
+  }
+
+  const handleSaveFusion = (fusion: FusionOptions) => {
+    if (!selectedKB) return
+
+    setKnowledgeBases((current) =>
+      (current || []).map(kb => kb.id === selectedKB.id ? { ...kb, fusion, updatedAt: Date.now() } : kb)
+    )
+    setSelectedKB((current) => current ? { ...current, fusion, updatedAt: Date.now() } : current)
+  }
+
   const generateSampleQueries = async (kb: KnowledgeBase) => {
     const now = Date.now()
     const samples: Array<{
@@ -759,6 +820,15 @@ function App() {
                   {syncingToAzure ? 'Syncing...' : 'Sync to Azure'}
                 </Button>
               )}
+              <Button 
+                variant="outline" 
+                onClick={() => setShowKBSettings(true)} 
+                className="gap-2 w-full sm:w-auto"
+                size="default"
+              >
+                <Gear size={16} />
+                Settings
+              </Button>
               <Button 
                 onClick={() => setShowAddContentDialog(true)} 
                 className="gap-2 w-full sm:w-auto"
@@ -1037,6 +1107,15 @@ function App() {
                 )}
                 <span className="hidden lg:inline">Azure Search</span>
               </Button>
+              <Button
+                variant="ghost"
+                onClick={() => setShowApiKeySettings(true)}
+                className="gap-1 sm:gap-2 h-8 sm:h-10 px-2 sm:px-4"
+                size="sm"
+              >
+                <Key size={16} className="sm:w-4 sm:h-4" />
+                <span className="hidden lg:inline">API Key</span>
+              </Button>
             </div>
           </div>
         </div>
@@ -1089,11 +1168,28 @@ function App() {
         onSave={handleSaveCloudStorageSettings}
       />
       
+      <ApiKeySettingsDialog
+        open={showApiKeySettings}
+        onOpenChange={setShowApiKeySettings}
+      />
+      
       <ChunkVisualizerDialog
         document={visualizerDocument}
         open={showChunkVisualizer}
         onOpenChange={setShowChunkVisualizer}
+        chunking={selectedKB?.chunking}
       />
+      
+      {selectedKB && (
+        <KnowledgeBaseSettingsDialog
+          knowledgeBase={selectedKB}
+          open={showKBSettings}
+          onOpenChange={setShowKBSettings}
+          onSaveChunking={handleSaveChunking}
+          onSaveEmbedding={handleSaveEmbedding}
+          onSaveFusion={handleSaveFusion}
+        />
+      )}
     </div>
   )
 }
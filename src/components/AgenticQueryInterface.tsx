@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Card } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
@@ -22,11 +22,14 @@ import {
   Circle,
   CircleNotch,
   Check,
-  ChatsCircle
+  ChatsCircle,
+  ArrowsDownUp,
+  Funnel,
+  X
 } from '@phosphor-icons/react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Document, AzureSearchSettings } from '@/lib/types'
-import { AgenticRAGOrchestrator, AgenticRAGResponse, ProgressStep } from '@/lib/agentic-rag-orchestrator'
+import { AgenticRAGOrchestrator, AgenticRAGResponse, AnswerCitation, ProgressStep } from '@/lib/agentic-rag-orchestrator'
 import { StrategyPerformanceTracker } from '@/lib/strategy-performance-tracker'
 import { ConversationManager, Conversation } from '@/lib/conversation-manager'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
@@ -39,6 +42,11 @@ import { toast } from 'sonner'
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
 import { UnifiedQueryRecord } from '@/lib/unified-query-model'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { streamAgenticQuery } from '@/lib/rag-api-client'
+import { runtime } from '@/lib/runtime/manager'
+import { OpenAICompatibleLLMProvider } from '@/lib/runtime/openai-adapter'
+import { RerankMode } from '@/lib/reranker'
+import { MetadataFilter, describeMetadataFilter, hasMetadataFilter, removeMetadataFilterChip } from '@/lib/metadata-filters'
 
 interface AgenticQueryInterfaceProps {
   knowledgeBaseId: string
@@ -82,6 +90,20 @@ export function AgenticQueryInterface({
   const [enableSemanticCache, setEnableSemanticCache] = useState(true)
   const [cacheTtlMinutes, setCacheTtlMinutes] = useState(60)
   const [cacheConfidence, setCacheConfidence] = useState(0.55)
+  const [enableServerStreaming, setEnableServerStreaming] = useState(false)
+  const [enableReranking, setEnableReranking] = useState(false)
+  const [rerankMode, setRerankMode] = useState<RerankMode>('llm_listwise')
+  const [enableDiversity, setEnableDiversity] = useState(false)
+  const [mmrLambda, setMmrLambda] = useState(0.7)
+  const [filters, setFilters] = useState<MetadataFilter>({})
+  const [pathPrefixDraft, setPathPrefixDraft] = useState('')
+  const [streamingAnswer, setStreamingAnswer] = useState('')
+  const [streamingCitations, setStreamingCitations] = useState<AnswerCitation[]>([])
+  const streamedAnswerRef = useRef<string | null>(null)
+
+  // The streaming endpoint is served by the Worker, so it is only reachable with the Cloudflare runtime,
+  // and it generates with Workers AI, so it is skipped when an OpenAI-compatible LLM is configured
+  const serverStreamingAvailable = runtime.getRuntime().name === 'cloudflare' && !(runtime.llm instanceof OpenAICompatibleLLMProvider)
 
   const initializeConversation = async () => {
     setIsLoadingConversations(true)
@@ -141,8 +163,15 @@ export function AgenticQueryInterface({
       return
     }
 
-    let index = 0
     const text = response.answer
+
+    // Answers that were already typed out live from the stream are shown as-is
+    if (streamedAnswerRef.current === text) {
+      setDisplayedText(text)
+      return
+    }
+
+    let index = 0
     const interval = setInterval(() => {
       if (index < text.length) {
         setDisplayedText(text.slice(0, index + 1))
@@ -161,36 +190,115 @@ export function AgenticQueryInterface({
     setIsLoading(true)
     setResponse(null)
     setDisplayedText('')
+    setStreamingAnswer('')
+    setStreamingCitations([])
+    streamedAnswerRef.current = null
     setUserFeedback(null)
     setProgressSteps([])
     setCurrentProgress(0)
 
     const currentQuery = query
+    const useServerStreaming = enableServerStreaming && serverStreamingAvailable
+
+    const queryConfig = {
+      maxIterations: 3,
+      confidenceThreshold: 0.6,
+      enableCriticism: true,
+      enableAutoRetry: true,
+      topK: 5,
+      enableSemanticCache,
+      cacheTtlMs: cacheTtlMinutes * 60 * 1000,
+      cacheConfidenceThreshold: cacheConfidence,
+      streamGeneration: true,
+      enableReranking,
+      rerankMode,
+      mmrLambda: enableDiversity ? mmrLambda : undefined,
+      filters: hasMetadataFilter(filters) ? filters : undefined
+    }
 
-    try {
-      // Add user message to conversation
-      await conversationManager.addMessage(
-        currentConversation.id,
-        'user',
-        currentQuery
-      )
+    const handleProgress = (step: ProgressStep) => {
+      setProgressSteps(prev => [...prev, step])
+      if (step.progress !== undefined) {
+        setCurrentProgress(step.progress)
+      }
+    }
 
-      const result = await orchestrator.query(currentQuery, {
-        maxIterations: 3,
-        confidenceThreshold: 0.6,
-        enableCriticism: true,
-        enableAutoRetry: true,
-        topK: 5,
-        enableSemanticCache,
-        cacheTtlMs: cacheTtlMinutes * 60 * 1000,
-        cacheConfidenceThreshold: cacheConfidence,
-        onProgress: (step: ProgressStep) => {
-          setProgressSteps(prev => [...prev, step])
-          if (step.progress !== undefined) {
-            setCurrentProgress(step.progress)
+    try {
+      let result: AgenticRAGResponse
+      let updatedConversation: Conversation | null
+
+      if (useServerStreaming) {
+        // The Worker records both messages in the conversation itself
+        let streamIteration = 0
+        let streamedText = ''
+
+        const streamed = await streamAgenticQuery(
+          {
+            knowledgeBaseId,
+            query: currentQuery,
+            conversationId: currentConversation.id,
+            config: queryConfig
+          },
+          {
+            onProgress: handleProgress,
+            onToken: (delta, iteration, citations) => {
+              // A retry starts a fresh answer
+              streamedText = iteration === streamIteration ? streamedText + delta : delta
+              streamIteration = iteration
+              setStreamingAnswer(streamedText)
+              setStreamingCitations(citations)
+            }
           }
+        )
+
+        result = streamed
+        streamedAnswerRef.current = streamedText.trim() === streamed.answer ? streamed.answer : null
+        updatedConversation = await conversationManager.getConversation(streamed.conversationId)
+
+        if (updatedConversation) {
+          setOrchestrator(new AgenticRAGOrchestrator(
+            documents,
+            knowledgeBaseName,
+            azureSettings,
+            indexName,
+            conversationManager.getConversationHistory(updatedConversation)
+          ))
+          setConversationRefreshKey((key) => key + 1)
         }
-      })
+      } else {
+        // Add user message to conversation
+        await conversationManager.addMessage(
+          currentConversation.id,
+          'user',
+          currentQuery
+        )
+
+        let streamedText = ''
+
+        result = await orchestrator.query(currentQuery, {
+          ...queryConfig,
+          onProgress: handleProgress,
+          onPartialAnswer: (partial) => {
+            streamedText = partial.text
+            setStreamingAnswer(partial.text)
+            setStreamingCitations(partial.citations)
+          }
+        })
+        streamedAnswerRef.current = streamedText.trim() === result.answer ? result.answer : null
+
+        // Add assistant response to conversation
+        updatedConversation = await conversationManager.addMessage(
+          currentConversation.id,
+          'assistant',
+          result.answer,
+          {
+            intent: result.routing.intent,
+            confidence: result.evaluation.confidence,
+            sources: result.sources,
+            iterations: result.iterations
+          }
+        )
+      }
 
       // Mark all steps complete and add a terminal step
       setProgressSteps(prev => {
@@ -206,22 +314,10 @@ export function AgenticQueryInterface({
       })
       setCurrentProgress(100)
 
-      // Add assistant response to conversation
-      const updatedConversation = await conversationManager.addMessage(
-        currentConversation.id,
-        'assistant',
-        result.answer,
-        {
-          intent: result.routing.intent,
-          confidence: result.evaluation.confidence,
-          sources: result.sources,
-          iterations: result.iterations
-        }
-      )
-
-      setCurrentConversation(updatedConversation)
+      if (updatedConversation) {
+        setCurrentConversation(updatedConversation)
+      }
       setResponse(result)
-
       const history = await tracker.getQueryHistory()
       const latestQuery = history[history.length - 1]
       if (latestQuery) {
@@ -383,6 +479,8 @@ export function AgenticQueryInterface({
         return <TreeStructure {...iconProps} weight="duotone" className="text-muted-foreground flex-shrink-0" />
       case 'retrieval':
         return <MagnifyingGlass {...iconProps} weight="duotone" className="text-muted-foreground flex-shrink-0" />
+      case 'reranking':
+        return <ArrowsDownUp {...iconProps} weight="duotone" className="text-muted-foreground flex-shrink-0" />
       case 'generation':
         return <Cloud {...iconProps} weight="duotone" className="text-muted-foreground flex-shrink-0" />
       case 'evaluation':
@@ -405,6 +503,24 @@ export function AgenticQueryInterface({
     }
   }
 
+  const addFilterValue = (field: 'sourceTypes' | 'authors' | 'documentIds' | 'tags', value: string) => {
+    if (!value) return
+    setFilters(prev => {
+      const current = (prev[field] || []) as string[]
+      return current.includes(value) ? prev : { ...prev, [field]: [...current, value] }
+    })
+  }
+
+  // Filter values offered are the ones present in this knowledge base
+  const filterChips = describeMetadataFilter(filters, documents)
+  const sourceTypeOptions = [...new Set(documents.map(doc => doc.sourceType))]
+    .filter(type => !filters.sourceTypes?.includes(type))
+  const authorOptions = [...new Set(documents.map(doc => doc.metadata.author).filter((author): author is string => Boolean(author)))]
+    .filter(author => !filters.authors?.includes(author))
+  const tagOptions = [...new Set(documents.flatMap(doc => doc.metadata.tags || []))]
+    .filter(tag => !filters.tags?.includes(tag))
+  const documentOptions = documents.filter(doc => !filters.documentIds?.includes(doc.id))
+
   const safeProgressSteps = Array.isArray(progressSteps) ? progressSteps : []
   const safeDocuments = (response?.retrieval?.documents && Array.isArray(response.retrieval.documents))
     ? response.retrieval.documents
@@ -420,6 +536,10 @@ export function AgenticQueryInterface({
   const safeFusionVariants = (response?.retrieval?.metadata?.ragFusionVariations && Array.isArray(response.retrieval.metadata.ragFusionVariations))
     ? response.retrieval.metadata.ragFusionVariations
     : []
+  const safeRerankRanks = (response?.retrieval?.metadata?.reranking?.ranks && Array.isArray(response.retrieval.metadata.reranking.ranks))
+    ? response.retrieval.metadata.reranking.ranks
+    : []
+  const rerankMoves = new Map(safeRerankRanks.filter(rank => rank.before !== rank.after).map(rank => [rank.documentId, rank]))
   const safeImprovements = (response?.metadata?.improvementSuggestions && Array.isArray(response.metadata.improvementSuggestions))
     ? response.metadata.improvementSuggestions
     : []
@@ -520,7 +640,7 @@ export function AgenticQueryInterface({
           <span className="sm:hidden">Intelligent multi-strategy AI agent</span>
         </div>
 
-        <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs">
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-4 gap-2 text-xs">
           <label className="flex items-center gap-2 p-2 rounded border bg-muted/50">
             <input
               type="checkbox"
@@ -553,6 +673,166 @@ export function AgenticQueryInterface({
             />
             <span>conf</span>
           </label>
+          <label
+            className="flex items-center gap-2 p-2 rounded border bg-muted/50"
+            title={serverStreamingAvailable ? 'Run the query on the Worker and stream progress live' : 'Requires the Cloudflare runtime'}
+          >
+            <input
+              type="checkbox"
+              checked={enableServerStreaming && serverStreamingAvailable}
+              disabled={!serverStreamingAvailable || isLoading}
+              onChange={(e) => setEnableServerStreaming(e.target.checked)}
+            />
+            <span className="font-medium">Server streaming</span>
+          </label>
+          <label
+            className="flex items-center gap-2 p-2 rounded border bg-muted/50"
+            title="Reorder the top candidates with a reranker before the answer is generated"
+          >
+            <input
+              type="checkbox"
+              checked={enableReranking}
+              disabled={isLoading}
+              onChange={(e) => setEnableReranking(e.target.checked)}
+            />
+            <span className="font-medium">Rerank</span>
+            <select
+              value={rerankMode}
+              disabled={!enableReranking || isLoading}
+              onChange={(e) => setRerankMode(e.target.value as RerankMode)}
+              className="h-8 text-xs border rounded px-1 bg-background"
+            >
+              <option value="llm_listwise">LLM listwise</option>
+              <option value="llm_pointwise">LLM pointwise</option>
+              <option value="model">Rerank model</option>
+            </select>
+          </label>
+          <label
+            className="flex items-center gap-2 p-2 rounded border bg-muted/50"
+            title="Pick passages with maximal marginal relevance, at most 2 per document; lower λ favours more varied sources"
+          >
+            <input
+              type="checkbox"
+              checked={enableDiversity}
+              disabled={isLoading}
+              onChange={(e) => setEnableDiversity(e.target.checked)}
+            />
+            <span className="font-medium">Diversify</span>
+            <span className="text-muted-foreground">λ</span>
+            <input
+              type="number"
+              step={0.1}
+              min={0}
+              max={1}
+              value={mmrLambda}
+              disabled={!enableDiversity || isLoading}
+              onChange={(e) => setMmrLambda(Math.min(Math.max(Number(e.target.value), 0), 1))}
+              className="w-16 h-8 text-xs border rounded px-2"
+            />
+          </label>
+        </div>
+
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Funnel size={12} weight="duotone" />
+            Filters
+          </span>
+          {filterChips.map(chip => (
+            <Badge key={`${chip.field}:${chip.value ?? ''}`} variant="secondary" className="gap-1 text-xs">
+              {chip.label}
+              <button
+                type="button"
+                aria-label={`Remove filter ${chip.label}`}
+                disabled={isLoading}
+                onClick={() => setFilters(prev => removeMetadataFilterChip(prev, chip))}
+                className="hover:text-destructive"
+              >
+                <X size={10} weight="bold" />
+              </button>
+            </Badge>
+          ))}
+          {sourceTypeOptions.length > 0 && (
+            <select
+              value=""
+              disabled={isLoading}
+              onChange={(e) => addFilterValue('sourceTypes', e.target.value)}
+              className="h-7 text-xs border rounded px-1 bg-background"
+            >
+              <option value="">+ Source</option>
+              {sourceTypeOptions.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          )}
+          {authorOptions.length > 0 && (
+            <select
+              value=""
+              disabled={isLoading}
+              onChange={(e) => addFilterValue('authors', e.target.value)}
+              className="h-7 text-xs border rounded px-1 bg-background"
+            >
+              <option value="">+ Author</option>
+              {authorOptions.map(author => <option key={author} value={author}>{author}</option>)}
+            </select>
+          )}
+          {tagOptions.length > 0 && (
+            <select
+              value=""
+              disabled={isLoading}
+              onChange={(e) => addFilterValue('tags', e.target.value)}
+              className="h-7 text-xs border rounded px-1 bg-background"
+            >
+              <option value="">+ Tag</option>
+              {tagOptions.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+          )}
+          {documentOptions.length > 0 && (
+            <select
+              value=""
+              disabled={isLoading}
+              onChange={(e) => addFilterValue('documentIds', e.target.value)}
+              className="h-7 text-xs border rounded px-1 bg-background max-w-[10rem]"
+            >
+              <option value="">+ Document</option>
+              {documentOptions.map(doc => <option key={doc.id} value={doc.id}>{doc.title}</option>)}
+            </select>
+          )}
+          <input
+            type="text"
+            placeholder="+ Path prefix"
+            value={pathPrefixDraft}
+            disabled={isLoading}
+            onChange={(e) => setPathPrefixDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== 'Enter' || !pathPrefixDraft.trim()) return
+              setFilters(prev => ({ ...prev, pathPrefix: pathPrefixDraft.trim() }))
+              setPathPrefixDraft('')
+            }}
+            className="h-7 w-28 text-xs border rounded px-2"
+          />
+          <label className="flex items-center gap-1 text-muted-foreground">
+            From
+            <input
+              type="date"
+              value={filters.addedAfter !== undefined ? new Date(filters.addedAfter).toISOString().slice(0, 10) : ''}
+              disabled={isLoading}
+              onChange={(e) => setFilters(prev => ({ ...prev, addedAfter: e.target.value ? Date.parse(e.target.value) : undefined }))}
+              className="h-7 text-xs border rounded px-1"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-muted-foreground">
+            To
+            <input
+              type="date"
+              value={filters.addedBefore !== undefined ? new Date(filters.addedBefore).toISOString().slice(0, 10) : ''}
+              disabled={isLoading}
+              onChange={(e) => setFilters(prev => ({ ...prev, addedBefore: e.target.value ? Date.parse(e.target.value) + 86_400_000 - 1 : undefined }))}
+              className="h-7 text-xs border rounded px-1"
+            />
+          </label>
+          {filterChips.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={isLoading} onClick={() => setFilters({})}>
+              Clear
+            </Button>
+          )}
         </div>
       </Card>
       </div>
@@ -622,10 +902,11 @@ export function AgenticQueryInterface({
 
               <Progress value={currentProgress} className="h-2" />
 
-              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-xs">
+              <div className={`grid grid-cols-2 ${enableReranking ? 'sm:grid-cols-6' : 'sm:grid-cols-5'} gap-2 text-xs`}>
                 {[
                   { phase: 'routing', label: 'Routing', icon: TreeStructure },
                   { phase: 'retrieval', label: 'Retrieval', icon: MagnifyingGlass },
+                  ...(enableReranking ? [{ phase: 'reranking', label: 'Reranking', icon: ArrowsDownUp }] : []),
                   { phase: 'generation', label: 'Generation', icon: Cloud },
                   { phase: 'evaluation', label: 'Evaluation', icon: CheckCircle },
                   { phase: 'complete', label: 'Complete', icon: Check }
@@ -705,6 +986,26 @@ export function AgenticQueryInterface({
                 </AnimatePresence>
               </div>
 
+              {streamingAnswer && (
+                <div className="p-3 rounded-lg border border-accent/30 bg-accent/5">
+                  <div className="flex items-center gap-2 mb-1 text-xs font-medium text-muted-foreground">
+                    <Lightning size={12} weight="fill" className="text-accent" />
+                    Live answer
+                  </div>
+                  <p className="text-sm leading-relaxed whitespace-pre-wrap">{streamingAnswer}</p>
+                  {streamingCitations.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {streamingCitations.map(citation => (
+                        <Badge key={citation.marker} variant="outline" className="text-[11px]">
+                          [{citation.marker}] {citation.title}
+                          {citation.section && <span className="text-muted-foreground ml-1">› {citation.section}</span>}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {progressSteps.length === 0 && (
                 <div className="space-y-2 text-xs sm:text-sm text-muted-foreground">
                   <div className="flex items-center gap-2">
@@ -1017,6 +1318,14 @@ export function AgenticQueryInterface({
                           <Badge variant="outline" className="mt-1">{safeDocuments.length}</Badge>
                         </div>
                       </div>
+                      {response.retrieval.metadata?.embeddingMismatch && (
+                        <div className="flex items-start gap-2 text-sm">
+                          <Badge variant="destructive" className="shrink-0">Embedding mismatch</Badge>
+                          <span className="text-muted-foreground">
+                            {response.retrieval.metadata.embeddingMismatch.skippedChunks} chunk(s) were not embedded with the query's model ({response.retrieval.metadata.embeddingMismatch.queryModel}) and were left out. Re-embed the knowledge base from its settings to search them.
+                          </span>
+                        </div>
+                      )}
                       {safeFusionVariants.length > 0 && (
                         <div>
                           <span className="text-sm text-muted-foreground">RAG Fusion Variations:</span>
@@ -1035,10 +1344,20 @@ export function AgenticQueryInterface({
                               <div key={i} className="p-2 bg-muted rounded text-xs">
                                 <div className="flex justify-between items-start mb-1">
                                   <span className="font-medium">{doc.title}</span>
-                                  <Badge variant="outline" className="text-xs">
-                                    {safeScores[i]?.toFixed(2) || 'N/A'}
-                                  </Badge>
+                                  <div className="flex gap-1">
+                                    {rerankMoves.has(doc.id) && (
+                                      <Badge variant="secondary" className="text-xs" title="Position before and after reranking">
+                                        #{rerankMoves.get(doc.id)!.before} → #{rerankMoves.get(doc.id)!.after}
+                                      </Badge>
+                                    )}
+                                    <Badge variant="outline" className="text-xs">
+                                      {safeScores[i]?.toFixed(2) || 'N/A'}
+                                    </Badge>
+                                  </div>
                                 </div>
+                                {doc.matchedSections?.[0] && (
+                                  <p className="text-muted-foreground mb-1">› {doc.matchedSections[0]}</p>
+                                )}
                                 <p className="text-muted-foreground line-clamp-2">{doc.content.slice(0, 150)}...</p>
                               </div>
                             ))}
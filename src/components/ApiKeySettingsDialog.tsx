@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { CloudflareRuntimeAdapter, CloudflareAuthStatus, loadStoredApiKey } from '@/lib/runtime/cloudflare-adapter'
+import { runtime } from '@/lib/runtime/manager'
+import { Eye, EyeSlash, Check, X } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+
+interface ApiKeySettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ApiKeySettingsDialog({ open, onOpenChange }: ApiKeySettingsDialogProps) {
+  const [apiKey, setApiKey] = useState(() => loadStoredApiKey() || '')
+  const [showApiKey, setShowApiKey] = useState(false)
+  const [testing, setTesting] = useState(false)
+  const [status, setStatus] = useState<CloudflareAuthStatus | null>(null)
+  const [testError, setTestError] = useState<string | null>(null)
+
+  const adapter = runtime.getRuntime()
+  const isCloudflare = adapter instanceof CloudflareRuntimeAdapter
+
+  const handleTestKey = async () => {
+    if (!(adapter instanceof CloudflareRuntimeAdapter)) return
+
+    setTesting(true)
+    setStatus(null)
+    setTestError(null)
+
+    try {
+      const result = await adapter.getAuthStatus(apiKey.trim())
+      setStatus(result)
+      toast.success(result.key ? `Authenticated as "${result.key.name}"` : 'Authentication is disabled on this Worker')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      setTestError(message)
+      toast.error('Key check failed: ' + message)
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const handleSave = () => {
+    if (!(adapter instanceof CloudflareRuntimeAdapter)) return
+
+    adapter.setApiKey(apiKey.trim() || null)
+    onOpenChange(false)
+    toast.success('API key saved. Reloading data...')
+
+    // Everything loaded at startup was fetched with the previous key
+    window.location.reload()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Worker API Key</DialogTitle>
+          <DialogDescription>
+            Authenticate this browser against the Cloudflare Worker API
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isCloudflare ? (
+          <p className="text-sm text-muted-foreground py-4">
+            API keys only apply to the Cloudflare runtime. The current runtime is "{adapter.name}".
+          </p>
+        ) : (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="worker-api-key">API Key</Label>
+              <div className="relative">
+                <Input
+                  id="worker-api-key"
+                  type={showApiKey ? 'text' : 'password'}
+                  placeholder="crk_..."
+                  value={apiKey}
+                  onChange={(e) => {
+                    setApiKey(e.target.value)
+                    setStatus(null)
+                    setTestError(null)
+                  }}
+                  className="pr-10"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-0 top-0 h-full px-3"
+                  onClick={() => setShowApiKey(!showApiKey)}
+                >
+                  {showApiKey ? <EyeSlash size={16} /> : <Eye size={16} />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Stored in this browser only and sent as a bearer token. Editing knowledge bases needs the "ingest" scope.
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleTestKey}
+                disabled={testing}
+                className="gap-2"
+              >
+                {testing ? (
+                  'Checking...'
+                ) : status ? (
+                  <>
+                    <Check size={16} className="text-green-600" />
+                    Valid
+                  </>
+                ) : testError ? (
+                  <>
+                    <X size={16} className="text-red-600" />
+                    Rejected
+                  </>
+                ) : (
+                  'Check Key'
+                )}
+              </Button>
+              {status?.key && (
+                <div className="flex items-center gap-1 flex-wrap text-sm">
+                  <span className="text-muted-foreground">{status.key.name}</span>
+                  {status.key.scopes.map(scope => (
+                    <Badge key={scope} variant="secondary" className="text-xs">{scope}</Badge>
+                  ))}
+                </div>
+              )}
+              {status && !status.key && (
+                <span className="text-sm text-muted-foreground">Authentication is disabled on this Worker</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isCloudflare}>
+            Save Key
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,19 +5,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge'
 import { Card } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
-import { Document as DocType } from '@/lib/types'
+import { ChunkingOptions, Document as DocType } from '@/lib/types'
 import { Chunk, CHUNKING_STRATEGIES, chunkAndEmbed, reduceDimensionsFor2D, cosineSimilarity } from '@/lib/chunking'
+import { formatSectionPath } from '@/lib/heading-outline'
 import { Brain, ChartScatter, ListNumbers } from '@phosphor-icons/react'
 
 interface ChunkVisualizerDialogProps {
   document: DocType | null
   open: boolean
   onOpenChange: (open: boolean) => void
+  chunking?: ChunkingOptions
 }
 
-export function ChunkVisualizerDialog({ document, open, onOpenChange }: ChunkVisualizerDialogProps) {
+export function ChunkVisualizerDialog({ document, open, onOpenChange, chunking }: ChunkVisualizerDialogProps) {
   const [chunks, setChunks] = useState<Chunk[]>([])
-  const [strategy, setStrategy] = useState<keyof typeof CHUNKING_STRATEGIES>('semantic')
+  const [strategy, setStrategy] = useState<keyof typeof CHUNKING_STRATEGIES>('recursive')
   const [loading, setLoading] = useState(false)
   const [selectedChunk, setSelectedChunk] = useState<string | null>(null)
 
@@ -25,14 +27,18 @@ export function ChunkVisualizerDialog({ document, open, onOpenChange }: ChunkVis
     if (open && document) {
       loadChunks()
     }
-  }, [open, document, strategy])
+  }, [open, document, strategy, chunking])
 
   const loadChunks = async () => {
     if (!document) return
 
     setLoading(true)
     try {
-      const result = await chunkAndEmbed(document.content, strategy)
+      const result = await chunkAndEmbed(document.content, strategy, chunking, {
+        documentTitle: document.title,
+        contextualPrefix: chunking?.contextualPrefix,
+        filePath: document.metadata.filePath
+      })
       setChunks(result)
       setSelectedChunk(result[0]?.id || null)
     } catch (error) {
@@ -136,11 +142,17 @@ export function ChunkVisualizerDialog({ document, open, onOpenChange }: ChunkVis
                           <div className="flex items-center gap-2">
                             <Badge variant="secondary">Chunk {index + 1}</Badge>
                             <span className="text-sm text-muted-foreground">{chunk.tokens} tokens</span>
+                            {chunk.symbol && (
+                              <Badge variant="outline" className="font-mono text-xs">{chunk.symbol}</Badge>
+                            )}
                           </div>
                           <span className="text-xs text-muted-foreground">
                             {chunk.startIndex} - {chunk.endIndex}
                           </span>
                         </div>
+                        {chunk.sectionPath && chunk.sectionPath.length > 0 && (
+                          <p className="text-xs text-muted-foreground mb-1">{formatSectionPath(chunk.sectionPath)}</p>
+                        )}
                         <p className="text-sm line-clamp-3">{chunk.text}</p>
                       </Card>
                     ))}
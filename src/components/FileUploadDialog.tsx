@@ -11,7 +11,10 @@ import { Card } from '@/components/ui/card'
 interface FileUploadDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onUpload: (files: Array<{ title: string; content: string; metadata: any; fileName: string }>) => Promise<void>
+  onUpload: (
+    files: Array<{ title: string; content: string; metadata: any; fileName: string }>,
+    onProgress?: (fraction: number, message: string) => void
+  ) => Promise<void>
 }
 
 export function FileUploadDialog({ open, onOpenChange, onUpload }: FileUploadDialogProps) {
@@ -59,7 +62,8 @@ export function FileUploadDialog({ open, onOpenChange, onUpload }: FileUploadDia
       for (let i = 0; i < selectedFiles.length; i++) {
         const file = selectedFiles[i]
         setStatusMessage(`Processing ${file.name}...`)
-        setProgress(((i) / selectedFiles.length) * 100)
+        // Parsing takes the first half of the bar; chunking and embedding the second
+        setProgress(((i) / selectedFiles.length) * 50)
         
         try {
           const parsed = await parseDocument(file)
@@ -82,9 +86,12 @@ export function FileUploadDialog({ open, onOpenChange, onUpload }: FileUploadDia
       }
       
       setStatusMessage('Uploading to knowledge base...')
-      setProgress(95)
+      setProgress(50)
       
-      await onUpload(parsedDocuments)
+      await onUpload(parsedDocuments, (fraction, message) => {
+        setProgress(50 + fraction * 50)
+        setStatusMessage(message)
+      })
       
       setProgress(100)
       setStatusMessage('Complete!')
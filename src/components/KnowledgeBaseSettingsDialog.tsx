@@ -0,0 +1,340 @@
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ChunkingOptions, EmbeddingSettings, FusionOptions, KnowledgeBase } from '@/lib/types'
+import { AVAILABLE_MODELS, DEFAULT_TASK_MODELS, MODEL_TASKS, ModelConfig, modelRegistry } from '@/lib/model-registry'
+import { resolveChunkingOptions } from '@/lib/recursive-chunker'
+import { currentEmbeddingModel } from '@/lib/chunking'
+import { countOutdatedChunks, reembedKnowledgeBase, ReembedProgress } from '@/lib/reembed-job'
+import { EMBEDDING_MODELS, resolveEmbeddingSettings } from '@/lib/embedding-constants'
+import { resolveFusionOptions } from '@/lib/fusion'
+import { toast } from 'sonner'
+
+interface KnowledgeBaseSettingsDialogProps {
+  knowledgeBase: KnowledgeBase
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaveChunking: (chunking: ChunkingOptions) => void
+  onSaveEmbedding: (embedding: EmbeddingSettings) => Promise<void>
+  onSaveFusion: (fusion: FusionOptions) => void
+}
+
+const CHUNKING_FIELDS: Array<{ key: 'chunkSize' | 'overlap' | 'minChunkSize'; label: string; description: string }> = [
+  { key: 'chunkSize', label: 'Chunk size (tokens)', description: 'Upper bound per chunk; capped at the embedding model window' },
+  { key: 'overlap', label: 'Overlap (tokens)', description: 'Text repeated from the end of the previous chunk' },
+  { key: 'minChunkSize', label: 'Minimum chunk size (tokens)', description: 'Smaller chunks are merged into a neighbour' },
+]
+
+export function KnowledgeBaseSettingsDialog({ knowledgeBase, open, onOpenChange, onSaveChunking, onSaveEmbedding, onSaveFusion }: KnowledgeBaseSettingsDialogProps) {
+  const [models, setModels] = useState<ModelConfig>({})
+  const [chunking, setChunking] = useState<ChunkingOptions>(() => resolveChunkingOptions(knowledgeBase.chunking))
+  const [embedding, setEmbedding] = useState<EmbeddingSettings>(() => resolveEmbeddingSettings(knowledgeBase.embedding))
+  const [fusion, setFusion] = useState<FusionOptions>(() => resolveFusionOptions(knowledgeBase.fusion))
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [outdatedChunks, setOutdatedChunks] = useState<number | null>(null)
+  const [reembedProgress, setReembedProgress] = useState<ReembedProgress | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    setChunking(resolveChunkingOptions(knowledgeBase.chunking))
+    setEmbedding(resolveEmbeddingSettings(knowledgeBase.embedding))
+    setFusion(resolveFusionOptions(knowledgeBase.fusion))
+    setLoading(true)
+    modelRegistry.getConfig(knowledgeBase.id)
+      .then(config => {
+        if (!cancelled) setModels(config)
+      })
+      .catch(error => {
+        console.error('Failed to load model settings:', error)
+        toast.error('Failed to load model settings')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, knowledgeBase.id, knowledgeBase.chunking, knowledgeBase.embedding, knowledgeBase.fusion])
+
+  // Counted against the selected model, so picking another one previews the migration
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    setOutdatedChunks(null)
+    countOutdatedChunks(knowledgeBase.id, embedding)
+      .then(count => {
+        if (!cancelled) setOutdatedChunks(count)
+      })
+      .catch(error => console.error('Failed to check chunk embeddings:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, knowledgeBase.id, embedding])
+
+  const savedEmbedding = resolveEmbeddingSettings(knowledgeBase.embedding)
+  const embeddingChanged = embedding.model !== savedEmbedding.model || embedding.dimension !== savedEmbedding.dimension
+
+  const handleReembed = async () => {
+    setReembedProgress({ completed: 0, total: outdatedChunks || 0, message: 'Starting...' })
+    try {
+      // Save first: documents added during the run are then embedded with the new model too
+      if (embeddingChanged) await onSaveEmbedding(embedding)
+      const result = await reembedKnowledgeBase(knowledgeBase.id, setReembedProgress, embedding)
+      setOutdatedChunks(0)
+      toast.success(`Re-embedded ${result.reembedded} chunks in ${result.documents} documents with ${result.model}`)
+    } catch (error) {
+      toast.error('Re-embedding failed: ' + (error instanceof Error ? error.message : 'Unknown error'))
+      countOutdatedChunks(knowledgeBase.id, embedding).then(setOutdatedChunks).catch(() => {})
+    } finally {
+      setReembedProgress(null)
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await modelRegistry.saveConfig(knowledgeBase.id, models)
+      onSaveChunking(resolveChunkingOptions(chunking))
+      onSaveFusion(resolveFusionOptions(fusion))
+      if (embeddingChanged) await onSaveEmbedding(embedding)
+      onOpenChange(false)
+      toast.success('Knowledge base settings saved')
+    } catch (error) {
+      toast.error('Failed to save settings: ' + (error instanceof Error ? error.message : 'Unknown error'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Knowledge Base Settings</DialogTitle>
+          <DialogDescription>
+            Chunking and model settings for "{knowledgeBase.name}"
+          </DialogDescription>
+        </DialogHeader>
+
+        <datalist id="kb-model-options">
+          {AVAILABLE_MODELS.map(model => (
+            <option key={model.id} value={model.id}>{model.label}</option>
+          ))}
+        </datalist>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-1">
+            <h3 className="text-sm font-semibold">Chunking</h3>
+            <p className="text-xs text-muted-foreground">
+              Applies to documents added or edited from now on; existing chunks keep the sizes they were cut with.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {CHUNKING_FIELDS.map(({ key, label, description }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`chunking-${key}`}>{label}</Label>
+                <Input
+                  id={`chunking-${key}`}
+                  type="number"
+                  min={0}
+                  value={chunking[key]}
+                  onChange={(e) => setChunking(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                />
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="chunking-contextual-prefix">Embed section context</Label>
+              <p className="text-xs text-muted-foreground">
+                Prefix each chunk's embedding with the document title and heading path, e.g. "Guide &gt; Configuration &gt; Networking"
+              </p>
+            </div>
+            <Switch
+              id="chunking-contextual-prefix"
+              checked={chunking.contextualPrefix !== false}
+              onCheckedChange={(checked) => setChunking(prev => ({ ...prev, contextualPrefix: checked }))}
+            />
+          </div>
+
+          <Separator />
+
+          <div className="space-y-1">
+            <h3 className="text-sm font-semibold">Hybrid search</h3>
+            <p className="text-xs text-muted-foreground">
+              How semantic and keyword rankings are combined. Code-heavy knowledge bases usually benefit from more
+              keyword weight; prose-heavy ones from more semantic weight.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="fusion-method">Fusion</Label>
+              <Select value={fusion.method} onValueChange={(method) => setFusion(prev => ({ ...prev, method: method as FusionOptions['method'] }))}>
+                <SelectTrigger id="fusion-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weighted">Weighted scores</SelectItem>
+                  <SelectItem value="rrf">Reciprocal rank fusion</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {fusion.method === 'weighted' ? (
+              <div className="space-y-2">
+                <Label htmlFor="fusion-normalization">Score normalization</Label>
+                <Select
+                  value={fusion.normalization}
+                  onValueChange={(normalization) => setFusion(prev => ({ ...prev, normalization: normalization as FusionOptions['normalization'] }))}
+                >
+                  <SelectTrigger id="fusion-normalization">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="minmax">Min-max</SelectItem>
+                    <SelectItem value="zscore">Z-score</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="fusion-rrf-k">RRF k</Label>
+                <Input
+                  id="fusion-rrf-k"
+                  type="number"
+                  min={1}
+                  value={fusion.rrfK}
+                  onChange={(e) => setFusion(prev => ({ ...prev, rrfK: Number(e.target.value) }))}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="fusion-semantic-weight">Semantic weight</Label>
+              <Input
+                id="fusion-semantic-weight"
+                type="number"
+                min={0}
+                max={1}
+                step={0.1}
+                value={fusion.semanticWeight}
+                onChange={(e) => setFusion(prev => ({ ...prev, semanticWeight: Number(e.target.value) }))}
+              />
+              <p className="text-xs text-muted-foreground">0 to 1; keyword search gets the rest</p>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-1">
+            <h3 className="text-sm font-semibold">Embeddings</h3>
+            <p className="text-xs text-muted-foreground">
+              Chunks embedded with another model, or with the simulated fallback, are left out of semantic search
+              until they are re-embedded. To switch models, pick one and re-embed.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="embedding-model">Embedding model</Label>
+            <Select
+              value={embedding.model}
+              onValueChange={(model) => setEmbedding(resolveEmbeddingSettings({ model }))}
+              disabled={reembedProgress !== null}
+            >
+              <SelectTrigger id="embedding-model">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {!EMBEDDING_MODELS.some(m => m.id === embedding.model) && (
+                  <SelectItem value={embedding.model}>{embedding.model}</SelectItem>
+                )}
+                {EMBEDDING_MODELS.map(model => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.label} ({model.dimension} dimensions)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {currentEmbeddingModel(embedding.model) !== embedding.model && (
+              <p className="text-xs text-muted-foreground">
+                The current runtime cannot use this model and embeds with{' '}
+                <span className="font-mono">{currentEmbeddingModel(embedding.model)}</span> instead.
+              </p>
+            )}
+            {embeddingChanged && knowledgeBase.azureSearchEnabled && (
+              <p className="text-xs text-muted-foreground">
+                The Azure AI Search index keeps the vector size it was created with; migrate it to a new index to search with this model.
+              </p>
+            )}
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm">
+              {outdatedChunks === null
+                ? 'Checking chunks...'
+                : outdatedChunks === 0
+                  ? 'All chunks use the selected model'
+                  : `${outdatedChunks} chunk${outdatedChunks === 1 ? '' : 's'} need re-embedding`}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleReembed}
+              disabled={!outdatedChunks || reembedProgress !== null}
+            >
+              {reembedProgress ? 'Re-embedding...' : 'Re-embed'}
+            </Button>
+          </div>
+          {reembedProgress && (
+            <div className="space-y-1">
+              <Progress value={reembedProgress.total > 0 ? (reembedProgress.completed / reembedProgress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">{reembedProgress.message}</p>
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="space-y-1">
+            <h3 className="text-sm font-semibold">Models</h3>
+            <p className="text-xs text-muted-foreground">
+              The model used for each step of answering queries. Leave a field empty to use the default.
+            </p>
+          </div>
+          {MODEL_TASKS.map(({ task, label, description }) => (
+            <div key={task} className="space-y-2">
+              <Label htmlFor={`model-${task}`}>{label}</Label>
+              <Input
+                id={`model-${task}`}
+                list="kb-model-options"
+                placeholder={DEFAULT_TASK_MODELS[task]}
+                value={models[task] || ''}
+                onChange={(e) => setModels(prev => ({ ...prev, [task]: e.target.value }))}
+                disabled={loading}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">{description}</p>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading || saving}>
+            {saving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -9,6 +9,7 @@ import { motion } from 'framer-motion'
 import { AzureSearchService, SearchResult } from '@/lib/azure-search'
 import { AzureSearchSettings } from '@/lib/types'
 import { runtime } from '@/lib/runtime/manager'
+import { modelRegistry } from '@/lib/model-registry'
 import { UnifiedQueryRecord } from '@/lib/unified-query-model'
 
 interface QueryInterfaceProps {
@@ -98,7 +99,7 @@ User Question: ${query}
 
 Provide a helpful answer based on the context above. If the context doesn't contain relevant information, say so.`
       
-      const aiResponse = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast')
+      const aiResponse = await runtime.llm.generate(prompt, await modelRegistry.getModel('generation', knowledgeBaseId))
       setResponse(aiResponse)
       setSources(results.map((r) => r.title))
       onQuery(query, aiResponse, results.map((r) => r.title), 'azure', {
@@ -145,7 +146,7 @@ User Question: ${query}
 Provide a helpful answer based on the context above. If the context doesn't contain relevant information, say so.`
     
     try {
-      const aiResponse = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast')
+      const aiResponse = await runtime.llm.generate(prompt, await modelRegistry.getModel('generation', knowledgeBaseId))
       setResponse(aiResponse)
       setSources(relevantDocs.map(doc => doc.title))
       onQuery(query, aiResponse, relevantDocs.map(doc => doc.title), 'simulated', {
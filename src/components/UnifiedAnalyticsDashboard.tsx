@@ -14,6 +14,9 @@ interface Props {
 
 type TimeFilter = 'all' | '7d' | '30d'
 
+// Queries listed under "Recent Queries"; exports read the full history
+const RECENT_QUERY_COUNT = 30
+
 export function UnifiedAnalyticsDashboard({ knowledgeBaseId, knowledgeBases = [], onGenerateSamples }: Props) {
   const [tracker] = useState(() => new UnifiedQueryTracker())
   const [history, setHistory] = useState<UnifiedQueryRecord[]>([])
@@ -22,17 +25,20 @@ export function UnifiedAnalyticsDashboard({ knowledgeBaseId, knowledgeBases = []
   const [timeRange, setTimeRange] = useState<TimeFilter>('all')
   const [selectedKB, setSelectedKB] = useState<string>(knowledgeBaseId || 'all')
 
-  useEffect(() => {
-    const load = async () => {
-      const filter: any = {}
-      if (selectedKB !== 'all') filter.knowledgeBaseId = selectedKB
-      if (method !== 'all') filter.method = method
+  const historyFilter = () => {
+    const filter: any = {}
+    if (selectedKB !== 'all') filter.knowledgeBaseId = selectedKB
+    if (method !== 'all') filter.method = method
 
-      const now = Date.now()
-      if (timeRange === '7d') filter.startDate = now - 7 * 86400000
-      if (timeRange === '30d') filter.startDate = now - 30 * 86400000
+    const now = Date.now()
+    if (timeRange === '7d') filter.startDate = now - 7 * 86400000
+    if (timeRange === '30d') filter.startDate = now - 30 * 86400000
+    return filter
+  }
 
-      const hist = await tracker.getHistory(filter)
+  useEffect(() => {
+    const load = async () => {
+      const hist = await tracker.getHistory({ ...historyFilter(), limit: RECENT_QUERY_COUNT })
       setHistory(hist.slice().reverse())
       const analytics = await tracker.getAnalytics(knowledgeBaseId)
       setSummary(analytics)
@@ -44,15 +50,7 @@ export function UnifiedAnalyticsDashboard({ knowledgeBaseId, knowledgeBases = []
 
   useEffect(() => {
     const load = async () => {
-      const filter: any = {}
-      if (selectedKB !== 'all') filter.knowledgeBaseId = selectedKB
-      if (method !== 'all') filter.method = method
-
-      const now = Date.now()
-      if (timeRange === '7d') filter.startDate = now - 7 * 86400000
-      if (timeRange === '30d') filter.startDate = now - 30 * 86400000
-
-      const hist = await tracker.getHistory(filter)
+      const hist = await tracker.getHistory({ ...historyFilter(), limit: RECENT_QUERY_COUNT })
       setHistory(hist.slice().reverse())
       const analytics = await tracker.getAnalytics(selectedKB === 'all' ? undefined : selectedKB)
       setSummary(analytics)
@@ -61,11 +59,12 @@ export function UnifiedAnalyticsDashboard({ knowledgeBaseId, knowledgeBases = []
     load()
   }, [selectedKB, method, timeRange, tracker])
 
-  const exportData = (format: 'csv' | 'json') => {
+  const exportData = async (format: 'csv' | 'json') => {
     if (!history.length) return
+    const records = (await tracker.getHistory(historyFilter())).reverse()
 
     if (format === 'json') {
-      const blob = new Blob([JSON.stringify(history, null, 2)], { type: 'application/json' })
+      const blob = new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' })
       const url = URL.createObjectURL(blob)
       const anchor = document.createElement('a')
       anchor.href = url
@@ -76,7 +75,7 @@ export function UnifiedAnalyticsDashboard({ knowledgeBaseId, knowledgeBases = []
     }
 
     const headers = ['id', 'timestamp', 'knowledgeBaseId', 'method', 'query', 'confidence', 'userFeedback', 'timeMs']
-    const rows = history.map((item) => headers.map((key) => {
+    const rows = records.map((item) => headers.map((key) => {
       const value = (item as any)[key]
       if (value === undefined || value === null) return ''
       if (key === 'timestamp') return new Date(value).toISOString()
@@ -212,7 +211,7 @@ export function UnifiedAnalyticsDashboard({ knowledgeBaseId, knowledgeBases = []
       <Card className="p-4">
         <h4 className="font-semibold mb-3">Recent Queries</h4>
         <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
-          {history.slice(0, 30).map((q) => (
+          {history.map((q) => (
             <div key={q.id} className="p-3 rounded-lg border">
               <div className="flex items-start justify-between gap-2">
                 <div className="flex-1 min-w-0">
@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react'
+import { Document } from '@/lib/types'
+import { kbStorage } from '@/lib/kb-storage'
+
+type Updater<T> = T | ((prev: T) => T)
+
+/**
+ * Drop-in replacement for `useRuntimeKV<Document[]>('documents')`.
+ * Documents are stored one key each (see kb-storage), so an update only writes the
+ * documents that changed and deletes the ones that were removed.
+ */
+export function useDocumentStore(): [Document[], (value: Updater<Document[]>) => void] {
+  const [documents, setDocuments] = useState<Document[]>([])
+
+  useEffect(() => {
+    kbStorage.getAllDocuments()
+      .then(setDocuments)
+      .catch((err) => console.warn('Document load failed', err))
+  }, [])
+
+  const updateDocuments = (newValue: Updater<Document[]>) => {
+    setDocuments((prev) => {
+      const resolved = typeof newValue === 'function' ? newValue(prev) : newValue
+      // Persist in background; no need to block render
+      persistChanges(prev, resolved).catch((err) => console.warn('Document save failed', err))
+      return resolved
+    })
+  }
+
+  return [documents, updateDocuments]
+}
+
+async function persistChanges(prev: Document[], next: Document[]): Promise<void> {
+  const previous = new Map(prev.map(doc => [doc.id, doc]))
+  const nextIds = new Set(next.map(doc => doc.id))
+
+  for (const doc of next) {
+    // Updates always produce new objects, so unchanged documents keep their identity
+    if (previous.get(doc.id) !== doc) {
+      await kbStorage.saveDocument(doc)
+    }
+  }
+
+  for (const doc of prev) {
+    if (!nextIds.has(doc.id)) {
+      await kbStorage.deleteDocument(doc.knowledgeBaseId, doc.id)
+    }
+  }
+}
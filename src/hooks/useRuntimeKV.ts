@@ -7,7 +7,10 @@ import { runtime } from '@/lib/runtime/manager'
  */
 type Updater<T> = T | ((prev: T) => T)
 
-export function useRuntimeKV<T>(key: string, defaultValue: T): [T, (value: Updater<T>) => void] {
+export function useRuntimeKV<T>(
+  key: string,
+  defaultValue: T
+): [T, (value: Updater<T>) => void, (stored: T) => void] {
   const [value, setValue] = useState<T>(defaultValue)
   const [initialized, setInitialized] = useState(false)
 
@@ -33,5 +36,8 @@ export function useRuntimeKV<T>(key: string, defaultValue: T): [T, (value: Updat
     })
   }
 
-  return [value, updateValue]
+  // Adopt a value another writer already persisted, without writing it back
+  const syncValue = (stored: T) => setValue(stored)
+
+  return [value, updateValue, syncValue]
 }
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import { bm25Index, BM25_TERM_SHARDS, BM25TermShard, rankBM25, stem, tokenize } from '../bm25-index'
+import { ChunkManager } from '../chunk-manager'
+import { MockRuntimeAdapter } from '../runtime/mock-adapter'
+import { runtime } from '../runtime/manager'
+
+describe('BM25 tokenization', () => {
+  test('drops stop-words and punctuation and stems word forms together', () => {
+    expect(tokenize('How do I configure the (cache) indexes?')).toEqual(['configur', 'cach', 'index'])
+    expect(['indexing', 'indexed', 'indexes'].map(stem)).toEqual(['index', 'index', 'index'])
+    expect(['running', 'stopped', 'studies', 'class', 'status'].map(stem)).toEqual(['run', 'stop', 'study', 'class', 'status'])
+  })
+
+  test('ranks rare terms and title matches higher, and tolerates regex characters', () => {
+    const ranked = rankBM25('deploy worker (staging)', [
+      { id: 'a', title: 'Release notes', body: 'The worker now retries failed jobs. The worker logs are shorter.' },
+      { id: 'b', title: 'Deploying the worker', body: 'Run the deploy script against staging first.' },
+      { id: 'c', title: 'Billing', body: 'Invoices are sent monthly.' },
+    ])
+
+    expect(ranked.map(r => r.id)).toEqual(['b', 'a'])
+  })
+})
+
+describe('persisted BM25 index', () => {
+  const chunkManager = new ChunkManager()
+
+  beforeEach(() => {
+    const adapter = MockRuntimeAdapter.create()
+    adapter.kv.clear()
+    runtime.setRuntime(adapter)
+  })
+
+  test('is maintained as documents are chunked, re-chunked and deleted', async () => {
+    await chunkManager.chunkDocument('doc-1', 'kb-1', 'Queue runbook', 'Restart the ingestion queue when it stalls.', 'markdown', 'local', 'paragraph')
+    await chunkManager.chunkDocument('doc-2', 'kb-1', 'Keys', 'Rotate the API keys every quarter.', 'markdown', 'local', 'paragraph')
+
+    const hits = await chunkManager.searchChunks('restarting queues', 'kb-1')
+    expect(hits.map(h => h.chunk.documentId)).toEqual(['doc-1'])
+    expect(hits[0].score).toBe(1)
+
+    await chunkManager.chunkDocument('doc-1', 'kb-1', 'Queue runbook', 'Drain the ingestion queue before upgrades.', 'markdown', 'local', 'paragraph')
+    expect(await chunkManager.searchChunks('restart', 'kb-1')).toEqual([])
+
+    await chunkManager.deleteChunksByDocument('doc-2', 'kb-1')
+    expect(await chunkManager.searchChunks('rotate keys', 'kb-1')).toEqual([])
+    expect(await chunkManager.searchChunks('c++ (keys', 'kb-1')).toEqual([])
+
+    const stats = await runtime.kv.get<{ chunkCount: number }>('kb:kb-1:bm25')
+    expect(stats?.chunkCount).toBe(1)
+  })
+
+  test('indexes chunks stored before the index existed on first search', async () => {
+    await chunkManager.chunkDocument('doc-1', 'kb-1', 'Queue runbook', 'Restart the ingestion queue when it stalls.', 'markdown', 'local', 'paragraph')
+    await bm25Index.removeKnowledgeBase('kb-1')
+
+    // The first search scores the stored chunks and hands the rebuild to the runtime
+    const background: Array<Promise<unknown>> = []
+    runtime.getRuntime().waitUntil = promise => { background.push(promise) }
+    const hits = await chunkManager.searchChunks('ingestion', 'kb-1')
+    expect(hits).toHaveLength(1)
+    expect(background).toHaveLength(1)
+
+    await Promise.all(background)
+    expect(await runtime.kv.get('kb:kb-1:bm25')).not.toBeNull()
+    expect(await chunkManager.searchChunks('ingestion', 'kb-1')).toEqual(hits)
+    expect(background).toHaveLength(1)
+  })
+
+  test('reads only the segments of documents containing a query term', async () => {
+    await chunkManager.chunkDocument('doc-1', 'kb-1', 'Queue runbook', 'Restart the ingestion queue when it stalls.', 'markdown', 'local', 'paragraph')
+    await chunkManager.chunkDocument('doc-2', 'kb-1', 'Keys', 'Rotate the API keys every quarter.', 'markdown', 'local', 'paragraph')
+
+    const get = vi.spyOn(runtime.kv, 'get')
+    const hits = await bm25Index.search('kb-1', 'rotate keys', 10)
+    expect(hits.map(h => h.documentId)).toEqual(['doc-2'])
+    const keys = get.mock.calls.map(([key]) => key)
+    expect(keys.filter(key => key.startsWith('kb:kb-1:bm25:') && !key.includes(':terms:'))).toEqual(['kb:kb-1:bm25:doc-2'])
+    expect(keys.filter(key => key.includes(':terms:')).length).toBeLessThanOrEqual(2)
+    get.mockRestore()
+
+    // The statistics hold counts only; the term map lives in the shards
+    expect(Object.keys((await runtime.kv.get<object>('kb:kb-1:bm25'))!).sort()).toEqual(['chunkCount', 'documentFrequency', 'termShards', 'totalLength'])
+
+    await chunkManager.deleteChunksByDocument('doc-2', 'kb-1')
+    const shards = await Promise.all(Array.from({ length: BM25_TERM_SHARDS }, (_, n) => runtime.kv.get<BM25TermShard>(`kb:kb-1:bm25:terms:${n}`)))
+    const listed = shards.flatMap(shard => Object.values(shard || {}).flat())
+    expect(listed).toContain('doc-1')
+    expect(listed).not.toContain('doc-2')
+  })
+})
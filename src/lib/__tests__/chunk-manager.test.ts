@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import { ChunkManager } from '../chunk-manager'
+import { MockRuntimeAdapter } from '../runtime/mock-adapter'
+import { runtime } from '../runtime/manager'
+
+const paragraphs = [
+  'The ingestion service reads documents from every configured source and normalizes them.',
+  'Chunks are embedded in batches and written to the vector index with their metadata.',
+  'Queries are routed to a retrieval strategy before the answer is generated and evaluated.',
+]
+
+describe('incremental re-chunking', () => {
+  const chunkManager = new ChunkManager()
+  let adapter: MockRuntimeAdapter
+
+  beforeEach(() => {
+    adapter = MockRuntimeAdapter.create()
+    adapter.kv.clear()
+    runtime.setRuntime(adapter)
+  })
+
+  const chunk = (content: string) => chunkManager.chunkDocument(
+    'doc-1', 'kb-1', 'Pipeline', content, 'markdown', 'local', 'paragraph'
+  )
+
+  test('re-embeds only changed chunks and removes stale ones', async () => {
+    const first = await chunk(paragraphs.join('\n\n'))
+    expect(first).toHaveLength(3)
+
+    const embed = vi.spyOn(adapter.embedder!, 'embed')
+    const vectorDelete = vi.spyOn(adapter.vectorStore!, 'delete')
+
+    const edited = [paragraphs[0], 'Chunks are embedded one request per batch, with retries.', paragraphs[2]]
+    const second = await chunk(edited.join('\n\n'))
+
+    // Unchanged paragraphs keep their ids and embeddings
+    expect(second[0].id).toBe(first[0].id)
+    expect(second[2].id).toBe(first[2].id)
+    expect(second[2].embedding).toEqual(first[2].embedding)
+    expect(second[1].id).not.toBe(first[1].id)
+
+    expect(embed).toHaveBeenCalledTimes(1)
+    expect(embed.mock.calls[0][0]).toHaveLength(1)
+    expect(vectorDelete).toHaveBeenCalledWith([first[1].id])
+
+    const stored = await chunkManager.getChunksByDocument('doc-1', 'kb-1')
+    expect(stored.map(c => c.id)).toEqual(second.map(c => c.id))
+  })
+})
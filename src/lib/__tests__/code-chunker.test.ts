@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest'
+import { chunkCode, detectLanguage } from '../code-chunker'
+
+const body = (name: string) => Array.from({ length: 12 }, (_, i) => `    const ${name}Step${i} = compute${name}(input, ${i}) + offset * ${i}`).join('\n')
+
+describe('chunkCode', () => {
+  test('splits TypeScript at declarations and oversized classes at members', () => {
+    const source = [
+      "import { compute } from './compute'",
+      '',
+      '/** Parses input */',
+      'export function parseInput(input: string) {',
+      body('parse'),
+      '}',
+      '',
+      'export class Tokenizer {',
+      '  private offset = 0',
+      '',
+      '  tokenize(input: string) {',
+      body('tokenize'),
+      '  }',
+      '',
+      '  async reset() {',
+      body('reset'),
+      '  }',
+      '}',
+    ].join('\n')
+
+    const chunks = chunkCode(source, { chunkSize: 200, minChunkSize: 20 }, 'src/tokenizer.ts')
+    const symbols = chunks.map(chunk => chunk.symbol)
+
+    expect(symbols).toContain('Tokenizer.tokenize')
+    expect(symbols).toContain('Tokenizer.reset')
+    const parse = chunks.find(chunk => chunk.symbol?.includes('parseInput'))!
+    expect(parse.text).toContain('/** Parses input */')
+    for (const chunk of chunks) {
+      expect(source.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text)
+    }
+  })
+
+  test('names Python functions and Go methods with their receivers', () => {
+    const python = ['import os', '', '@cache', 'def load(path):', body('load'), '', 'class Store:', '    def get(self):', body('get')].join('\n')
+    expect(chunkCode(python, { chunkSize: 400, minChunkSize: 0 }, 'store.py').map(chunk => chunk.symbol)).toEqual([undefined, 'load', 'Store'])
+
+    const go = ['package main', '', 'func (s *Server) Start() error {', body('start'), '}', '', 'type Server struct {', '    addr string', '}'].join('\n')
+    expect(chunkCode(go, { chunkSize: 400, minChunkSize: 0 }, 'server.go').map(chunk => chunk.symbol)).toEqual([undefined, 'Server.Start', 'Server'])
+  })
+
+  test('detects supported languages by extension', () => {
+    expect(detectLanguage('lib/mod.rs')).toBe('rust')
+    expect(detectLanguage('App.java')).toBe('java')
+    expect(detectLanguage('config.yaml')).toBeUndefined()
+  })
+})
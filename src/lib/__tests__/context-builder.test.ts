@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'vitest'
+import { buildContext } from '../context-builder'
+import { Document } from '../types'
+
+const doc = (id: string, title: string, content: string): Document => ({
+  id,
+  title,
+  content,
+  sourceType: 'markdown',
+  sourceUrl: '',
+  addedAt: 0,
+  knowledgeBaseId: 'kb',
+  metadata: {},
+})
+
+const filler = (word: string, count: number) => Array(count).fill(word).join(' ')
+
+describe('context builder', () => {
+  test('builds sources from matched passages, numbered by document', () => {
+    const documents = [doc('a', 'Alpha', 'unused'), doc('b', 'Beta', 'unused')]
+    const context = buildContext({
+      documents,
+      scores: [0.9, 0.5],
+      passages: [
+        { documentId: 'b', text: 'Beta passage.', startIndex: 0, endIndex: 13, score: 0.5, chunkIds: ['b1'] },
+        { documentId: 'a', text: 'Later alpha passage.', startIndex: 100, endIndex: 120, score: 0.7, chunkIds: ['a2'] },
+        { documentId: 'a', text: 'Alpha passage.', startIndex: 0, endIndex: 14, score: 0.9, chunkIds: ['a1'], sectionPath: ['Intro'] },
+      ],
+    }, { maxTokens: 1000, includeScores: true })
+
+    expect(context).toBe([
+      '[1] Alpha (relevance: 0.90)\n[Section: Intro]\nAlpha passage.\n\n...\n\nLater alpha passage.',
+      '[2] Beta (relevance: 0.50)\nBeta passage.',
+    ].join('\n\n---\n\n'))
+    expect(context).not.toContain('unused')
+  })
+
+  test('gives every source its best passage before filling the budget', () => {
+    const documents = [doc('a', 'Alpha', ''), doc('b', 'Beta', filler('beta', 500))]
+    const context = buildContext({
+      documents,
+      scores: [0.9, 0.5],
+      passages: [
+        { documentId: 'a', text: filler('alpha', 60), startIndex: 0, endIndex: 1, score: 0.9, chunkIds: [] },
+        { documentId: 'a', text: filler('extra', 60), startIndex: 10, endIndex: 11, score: 0.8, chunkIds: [] },
+      ],
+    }, { maxTokens: 100 })
+
+    // Beta has no passages, so it contributes the (truncated) start of its content
+    expect(context).toContain('[2] Beta\nbeta beta')
+    expect(context).not.toContain('extra')
+    expect(context.match(/beta/g)).toHaveLength(40)
+    expect(context.endsWith('beta…')).toBe(true)
+  })
+})
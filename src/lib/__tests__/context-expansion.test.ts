@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'vitest'
+import { expandHits } from '../context-expansion'
+import { DocumentChunk } from '../types'
+
+const sections: Array<{ path: string[]; text: string }> = [
+  { path: ['Setup'], text: 'Install the package.' },
+  { path: ['Setup'], text: 'Run the init command.' },
+  { path: ['Networking'], text: 'Open port 8080.' },
+  { path: ['Networking'], text: 'Set the timeout to 30s.' },
+  { path: ['Networking'], text: 'Retries default to three.' },
+  { path: ['Storage'], text: 'Use SSDs.' },
+]
+
+const content = sections.map(s => s.text).join(' ')
+
+const chunks: DocumentChunk[] = sections.map((s, i) => {
+  const startIndex = content.indexOf(s.text)
+  return {
+    id: `c${i}`,
+    documentId: 'doc',
+    knowledgeBaseId: 'kb',
+    chunkIndex: i,
+    text: s.text,
+    startIndex,
+    endIndex: startIndex + s.text.length,
+    tokens: 5,
+    metadata: {
+      strategy: 'recursive',
+      sectionPath: s.path,
+      parentDocument: { title: 'Guide', sourceType: 'markdown', sourceUrl: '' },
+    },
+    createdAt: 0,
+  }
+})
+
+describe('context expansion', () => {
+  test('widens a hit to its neighbouring chunks', () => {
+    const [passage] = expandHits([{ chunk: chunks[3], score: 0.9 }], chunks, content, { mode: 'window', window: 1 })
+
+    expect(passage.text).toBe('Open port 8080. Set the timeout to 30s. Retries default to three.')
+    expect(passage.chunkIds).toEqual(['c3'])
+  })
+
+  test('widens a hit to its heading section', () => {
+    const [passage] = expandHits([{ chunk: chunks[4], score: 0.9 }], chunks, content, { mode: 'section' })
+
+    expect(passage.text).toBe('Open port 8080. Set the timeout to 30s. Retries default to three.')
+    expect(passage.sectionPath).toEqual(['Networking'])
+  })
+
+  test('merges overlapping windows and respects the token budget', () => {
+    const passages = expandHits(
+      [{ chunk: chunks[1], score: 0.5 }, { chunk: chunks[2], score: 0.8 }],
+      chunks,
+      content,
+      { mode: 'window', window: 1, maxTokens: 10 }
+    )
+
+    expect(passages).toHaveLength(1)
+    expect(passages[0].score).toBe(0.8)
+    expect(passages[0].sectionPath).toEqual(['Networking'])
+    expect(passages[0].chunkIds).toEqual(['c1', 'c2'])
+    expect(passages[0].text).toBe('Install the package. Run the init command. Open port 8080.')
+  })
+
+  test('joins chunk texts when the document changed since chunking', () => {
+    const [passage] = expandHits([{ chunk: chunks[0], score: 1 }], chunks, 'edited', { mode: 'window', window: 1 })
+
+    expect(passage.text).toBe('Install the package.\n\nRun the init command.')
+  })
+})
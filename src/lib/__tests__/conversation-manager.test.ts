@@ -38,6 +38,15 @@ describe('ConversationManager', () => {
     expect(history).toEqual([{ query: 'Q1', response: 'A1' }])
   })
 
+  test('keeps every message when writers race', async () => {
+    const convo = await manager.createConversation('kb-1')
+    await Promise.all(Array.from({ length: 10 }, (_, i) => manager.addMessage(convo.id, 'user', `race-${i}`)))
+
+    const updated = await manager.getConversation(convo.id)
+    expect(updated?.messages.map(m => m.content).sort()).toEqual(Array.from({ length: 10 }, (_, i) => `race-${i}`).sort())
+    expect(updated?.metadata.totalQueries).toBe(10)
+  })
+
   test('enforces max messages per conversation', async () => {
     const convo = await manager.createConversation('kb-1')
     for (let i = 0; i < 55; i++) {
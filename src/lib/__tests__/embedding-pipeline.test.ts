@@ -0,0 +1,54 @@
+import { describe, expect, test, vi } from 'vitest'
+import { embedBatched, EmbeddingProgress } from '../embedding-pipeline'
+import { EmbeddingProvider } from '../runtime/interfaces'
+
+const texts = Array.from({ length: 10 }, (_, i) => `text ${i}`)
+
+function trackingEmbedder(failures = 0) {
+  let inFlight = 0
+  let remainingFailures = failures
+  const stats = { calls: [] as number[], maxInFlight: 0 }
+
+  const embedder: EmbeddingProvider = {
+    embed: async (batch: string[]) => {
+      stats.calls.push(batch.length)
+      inFlight++
+      stats.maxInFlight = Math.max(stats.maxInFlight, inFlight)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      inFlight--
+      if (remainingFailures-- > 0) throw new Error('rate limited')
+      return batch.map(text => [Number(text.split(' ')[1])])
+    },
+  }
+
+  return { embedder, stats }
+}
+
+describe('embedding pipeline', () => {
+  test('embeds in batches with bounded concurrency, in input order', async () => {
+    const { embedder, stats } = trackingEmbedder()
+    const progress: EmbeddingProgress[] = []
+
+    const embeddings = await embedBatched(texts, { batchSize: 3, concurrency: 2, onProgress: p => progress.push(p) }, embedder)
+
+    expect(embeddings).toEqual(texts.map((_, i) => [i]))
+    expect(stats.calls.sort()).toEqual([1, 3, 3, 3])
+    expect(stats.maxInFlight).toBe(2)
+    expect(progress[0]).toEqual({ completed: 0, total: 10 })
+    expect(progress[progress.length - 1]).toEqual({ completed: 10, total: 10 })
+  })
+
+  test('retries failed batches and gives up after maxRetries', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const flaky = trackingEmbedder(2)
+    await expect(embedBatched(texts, { batchSize: 10, maxRetries: 2, retryDelayMs: 1 }, flaky.embedder)).resolves.toHaveLength(10)
+    expect(flaky.stats.calls).toHaveLength(3)
+
+    const down = trackingEmbedder(5)
+    await expect(embedBatched(texts, { batchSize: 10, maxRetries: 1, retryDelayMs: 1 }, down.embedder)).rejects.toThrow('rate limited')
+    expect(down.stats.calls).toHaveLength(2)
+
+    vi.restoreAllMocks()
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'vitest'
+import { fuseRankings, normalizeScores, resolveFusionOptions } from '../fusion'
+
+// Cosine similarities and BM25 scores: very different scales
+const semantic = { ids: ['a', 'b', 'c'], scores: [0.82, 0.80, 0.41] }
+const keyword = { ids: ['c', 'd'], scores: [14.2, 3.1] }
+
+describe('rank fusion', () => {
+  test('normalizes scores by min-max or z-score', () => {
+    expect(normalizeScores([2, 4, 6], 'minmax')).toEqual([0, 0.5, 1])
+    expect(normalizeScores([3, 3], 'minmax')).toEqual([1, 1])
+    expect(normalizeScores([2, 4, 6], 'zscore').map(s => Number(s.toFixed(3)))).toEqual([-1.225, 0, 1.225])
+  })
+
+  test('weighted fusion blends normalized scores so neither scale dominates', () => {
+    const semanticHeavy = fuseRankings([
+      { ...semantic, weight: 0.8 },
+      { ...keyword, weight: 0.2 },
+    ], resolveFusionOptions({ method: 'weighted', normalization: 'minmax' }))
+    expect(semanticHeavy.map(r => r.id)).toEqual(['a', 'b', 'c', 'd'])
+    expect(semanticHeavy[0].score).toBe(1)
+
+    const keywordHeavy = fuseRankings([
+      { ...semantic, weight: 0.2 },
+      { ...keyword, weight: 0.8 },
+    ], resolveFusionOptions({ method: 'weighted', normalization: 'zscore' }))
+    expect(keywordHeavy[0].id).toBe('c')
+    expect(keywordHeavy.every(r => r.score >= 0 && r.score <= 1)).toBe(true)
+  })
+
+  test('ids missing from a list rank below the ids it returned', () => {
+    // A single hit normalizes to 1; y must not get that score from a list that never returned it
+    for (const normalization of ['minmax', 'zscore'] as const) {
+      const fused = fuseRankings([
+        { ids: ['x'], scores: [0.7] },
+        { ids: ['y', 'x', 'z'], scores: [9, 8, 1] },
+      ], resolveFusionOptions({ method: 'weighted', normalization }))
+      expect(fused.map(r => r.id)).toEqual(['x', 'y', 'z'])
+    }
+  })
+
+  test('reciprocal rank fusion ignores scores and rewards agreement', () => {
+    const fused = fuseRankings([semantic, keyword], resolveFusionOptions({ method: 'rrf', rrfK: 1 }))
+    expect(fused.map(r => r.id)).toEqual(['c', 'a', 'b', 'd'])
+    expect(fused[0].score).toBe(1)
+  })
+
+  test('clamps settings to valid ranges', () => {
+    expect(resolveFusionOptions({ semanticWeight: 3, rrfK: 0 })).toEqual({
+      method: 'weighted', normalization: 'minmax', semanticWeight: 1, rrfK: 60,
+    })
+  })
+})
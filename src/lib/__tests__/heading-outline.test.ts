@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'vitest'
+import { buildContextPrefix, parseHeadings, sectionPathAt } from '../heading-outline'
+import { embeddingInput, prepareChunks } from '../chunking'
+import { countTokens } from '../tokenizer'
+import { MAX_EMBEDDING_TEXT_LENGTH, MAX_EMBEDDING_TOKENS } from '../embedding-constants'
+
+const doc = [
+  '# Admin Guide',
+  'Intro.',
+  '## Configuration',
+  '### Networking',
+  'Set the timeout to 30s.',
+  '```bash',
+  '# not a heading',
+  '```',
+  '### Storage',
+  'Use SSDs.',
+  '## Troubleshooting',
+  'Check the logs.',
+].join('\n')
+
+describe('heading outline', () => {
+  test('maps offsets to the enclosing heading path', () => {
+    const headings = parseHeadings(doc)
+
+    expect(headings.map(h => h.title)).toEqual(['Admin Guide', 'Configuration', 'Networking', 'Storage', 'Troubleshooting'])
+    expect(sectionPathAt(headings, doc.indexOf('Set the timeout'))).toEqual(['Admin Guide', 'Configuration', 'Networking'])
+    expect(sectionPathAt(headings, doc.indexOf('Use SSDs'))).toEqual(['Admin Guide', 'Configuration', 'Storage'])
+    expect(sectionPathAt(headings, doc.indexOf('Check the logs'))).toEqual(['Admin Guide', 'Troubleshooting'])
+  })
+
+  test('builds a prefix without repeating the title', () => {
+    expect(buildContextPrefix('Admin Guide', ['Admin Guide', 'Configuration', 'Networking'])).toBe('Admin Guide > Configuration > Networking')
+    expect(buildContextPrefix(undefined, [])).toBeUndefined()
+  })
+  test('leaves room in the embedding window for the prefix', async () => {
+    const section = 'Troubleshooting ingestion failures on self-hosted deployments'
+    const text = `# Admin Guide\n## ${section}\n` + Array.from({ length: 300 }, (_, i) => `Step ${i} restarts the worker.`).join(' ')
+    const chunks = await prepareChunks(text, 'recursive', { chunkSize: 510 }, { documentTitle: 'Operations handbook' })
+
+    expect(chunks[1].contextPrefix).toBe(`Operations handbook > Admin Guide > ${section}`)
+    for (const chunk of chunks) {
+      const input = embeddingInput(chunk)
+      expect(countTokens(input)).toBeLessThanOrEqual(MAX_EMBEDDING_TOKENS - 2)
+      expect(input.length).toBeLessThanOrEqual(MAX_EMBEDDING_TEXT_LENGTH)
+    }
+  })
+})
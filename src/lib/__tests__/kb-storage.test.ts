@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, test } from 'vitest'
+import { KnowledgeBaseStorage, StorageKeys } from '../kb-storage'
+import { ConversationManager } from '../conversation-manager'
+import { MockRuntimeAdapter } from '../runtime/mock-adapter'
+import { runtime } from '../runtime/manager'
+import { Document, DocumentChunk, EmbeddingSettings, KnowledgeBase } from '../types'
+
+function makeDocument(id: string, knowledgeBaseId: string): Document {
+  return {
+    id,
+    knowledgeBaseId,
+    title: `Doc ${id}`,
+    content: `content of ${id}`,
+    sourceType: 'web',
+    sourceUrl: `https://example.com/${id}`,
+    addedAt: Date.now(),
+    metadata: {}
+  }
+}
+
+describe('KnowledgeBaseStorage', () => {
+  let storage: KnowledgeBaseStorage
+
+  beforeEach(() => {
+    // A fresh store per test so legacy migrations run again
+    const adapter = MockRuntimeAdapter.create()
+    adapter.kv.clear()
+    runtime.setRuntime(adapter)
+    storage = new KnowledgeBaseStorage()
+  })
+
+  test('splits legacy arrays into per-item keys on first read', async () => {
+    await runtime.kv.set('documents', [makeDocument('d1', 'kb-1'), makeDocument('d2', 'kb-2')])
+    await runtime.kv.set('chunks-kb-1', [
+      { id: 'c1', documentId: 'd1', knowledgeBaseId: 'kb-1', chunkIndex: 0, text: 'a' },
+      { id: 'c2', documentId: 'd1', knowledgeBaseId: 'kb-1', chunkIndex: 1, text: 'b' }
+    ] as DocumentChunk[])
+
+    expect((await storage.getAllDocuments('kb-1')).map(d => d.id)).toEqual(['d1'])
+    expect(await storage.getKnowledgeBaseChunks('kb-1')).toHaveLength(2)
+
+    expect(await runtime.kv.get('documents')).toBeNull()
+    expect(await runtime.kv.get('chunks-kb-1')).toBeNull()
+    expect(await runtime.kv.get(StorageKeys.document('kb-2', 'd2'))).not.toBeNull()
+    expect((await storage.getIndex('kb-1')).chunkCounts).toEqual({ d1: 2 })
+  })
+
+  test('pages through documents with a cursor', async () => {
+    for (const id of ['a', 'b', 'c', 'd', 'e']) {
+      await storage.saveDocument(makeDocument(id, 'kb-1'))
+    }
+
+    const first = await storage.listDocuments('kb-1', { limit: 2 })
+    const second = await storage.listDocuments('kb-1', { limit: 2, cursor: first.cursor })
+    const last = await storage.listDocuments('kb-1', { limit: 2, cursor: second.cursor })
+
+    expect(first.items.map(d => d.id)).toEqual(['a', 'b'])
+    expect(second.items.map(d => d.id)).toEqual(['c', 'd'])
+    expect(last.items.map(d => d.id)).toEqual(['e'])
+    expect(last.cursor).toBeUndefined()
+  })
+
+  test('lists items the store does not list yet from the index', async () => {
+    await storage.saveDocument(makeDocument('a', 'kb-1'))
+    // Workers KV listings lag behind writes; the listing still misses the second document
+    const listed = await runtime.kv.keys(StorageKeys.documentPrefix('kb-1'))
+    await storage.saveDocument(makeDocument('b', 'kb-1'))
+    const keys = runtime.kv.keys.bind(runtime.kv)
+    runtime.kv.keys = async (prefix?: string) => prefix === StorageKeys.documentPrefix('kb-1') ? listed : keys(prefix)
+
+    expect((await storage.getAllDocuments('kb-1')).map(d => d.id)).toEqual(['a', 'b'])
+  })
+
+  test('keeps conversations of other knowledge bases out of the per-KB cap', async () => {
+    const manager = new ConversationManager()
+    const other = await manager.createConversation('kb-2', 'other')
+    await manager.createConversation('kb-1', 'first')
+    await manager.deleteConversation(other.id)
+
+    expect(await manager.getConversationsByKB('kb-2')).toEqual([])
+    expect((await manager.getConversationsByKB('kb-1')).map(c => c.title)).toEqual(['first'])
+  })
+  test('resolves embedding settings with the stored knowledge base list', async () => {
+    await runtime.kv.set('knowledge-bases', [{ id: 'kb-1', name: 'one' }, { id: 'kb-2', name: 'two' }] as KnowledgeBase[])
+    const embedding: EmbeddingSettings = { model: '@cf/baai/bge-small-en-v1.5', dimension: 384 }
+
+    const stored = await storage.saveEmbeddingSettings('kb-1', embedding)
+
+    expect(stored).toEqual(await runtime.kv.get('knowledge-bases'))
+    expect(stored.map(kb => kb.embedding)).toEqual([embedding, undefined])
+  })
+})
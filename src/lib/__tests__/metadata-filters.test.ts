@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import {
+  applyMetadataFilter,
+  describeMetadataFilter,
+  matchesVectorMetadata,
+  removeMetadataFilterChip,
+  toODataFilter,
+  toVectorizeFilter,
+  validateMetadataFilter,
+} from '../metadata-filters'
+import { AzureSearchService } from '../azure-search'
+import { ChunkManager } from '../chunk-manager'
+import { RetrievalExecutor } from '../retrieval-executor'
+import { MockRuntimeAdapter } from '../runtime/mock-adapter'
+import { runtime } from '../runtime/manager'
+import { Document } from '../types'
+
+const knowledgeBaseId = 'kb-filters'
+
+const documents: Document[] = [
+  {
+    id: 'runbook', title: 'Ingestion runbook', content: 'Restart the ingestion worker when the queue stalls.',
+    sourceType: 'github', sourceUrl: 'https://github.com/acme/ops', addedAt: Date.UTC(2024, 0, 10), knowledgeBaseId,
+    metadata: { filePath: 'docs/ops/runbook.md', author: 'Dana', tags: ['ops'] },
+  },
+  {
+    id: 'handbook', title: 'Support handbook', content: 'Restart the ingestion worker before escalating a stalled queue.',
+    sourceType: 'pdf', sourceUrl: 'local', addedAt: Date.UTC(2024, 5, 1), knowledgeBaseId,
+    metadata: { author: "O'Brien", tags: ['support'] },
+  },
+]
+
+describe('metadata filters', () => {
+  test('matches documents on every filtered field', () => {
+    const ids = (filter: Parameters<typeof applyMetadataFilter>[1]) => applyMetadataFilter(documents, filter).map(d => d.id)
+
+    expect(ids({})).toEqual(['runbook', 'handbook'])
+    expect(ids({ sourceTypes: ['pdf', 'web'] })).toEqual(['handbook'])
+    expect(ids({ addedAfter: Date.UTC(2024, 2, 1) })).toEqual(['handbook'])
+    expect(ids({ authors: ['dana'] })).toEqual(['runbook'])
+    expect(ids({ tags: ['ops', 'billing'] })).toEqual(['runbook'])
+    expect(ids({ pathPrefix: 'docs/ops/' })).toEqual(['runbook'])
+    expect(ids({ sourceTypes: ['github'], tags: ['support'] })).toEqual([])
+  })
+
+  test('translates filters for Vectorize and Azure AI Search', () => {
+    expect(toVectorizeFilter({}, documents)).toBeUndefined()
+    expect(toVectorizeFilter({ tags: ['support'] }, documents)).toEqual({ docId: { $in: ['handbook'] } })
+
+    expect(toODataFilter({ sourceTypes: ['pdf'], addedAfter: 1000, authors: ["o'brien"] }, documents)).toBe(
+      "search.in(sourceType, 'pdf', '|') and addedAt ge 1000 and " +
+      "(search.in(documentId, 'handbook', '|') or search.in(id, 'handbook', '|'))"
+    )
+
+    expect(matchesVectorMetadata({ kbId: knowledgeBaseId, docId: 'runbook' }, { kbId: knowledgeBaseId, docId: { $in: ['runbook'] } })).toBe(true)
+    expect(matchesVectorMetadata({ kbId: knowledgeBaseId, docId: 'handbook' }, { docId: { $nin: ['handbook'] } })).toBe(false)
+    expect(matchesVectorMetadata({ addedAt: 5 }, { addedAt: { $gte: 1, $lt: 5 } })).toBe(false)
+  })
+
+  test('describes filters as chips that can be removed one value at a time', () => {
+    const filter = { authors: ['Dana', "O'Brien"], documentIds: ['runbook'], pathPrefix: 'docs/' }
+    const chips = describeMetadataFilter(filter, documents)
+    expect(chips.map(c => c.label)).toEqual(['Author: Dana', "Author: O'Brien", 'Document: Ingestion runbook', 'Path: docs/*'])
+
+    expect(removeMetadataFilterChip(filter, chips[0])).toEqual({ ...filter, authors: ["O'Brien"] })
+    expect(removeMetadataFilterChip(filter, chips[2])).toEqual({ authors: filter.authors, pathPrefix: 'docs/' })
+    expect(validateMetadataFilter({ tags: 'ops' })).toBe('filters.tags must be an array of strings')
+    expect(validateMetadataFilter(filter)).toBeNull()
+  })
+
+  describe('in chunk-based retrieval', () => {
+    beforeEach(() => {
+      const adapter = MockRuntimeAdapter.create()
+      adapter.kv.clear()
+      runtime.setRuntime(adapter)
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+    })
+
+    test('returns only documents that match the filter', async () => {
+      const chunkManager = new ChunkManager()
+      for (const doc of documents) {
+        await chunkManager.chunkDocument(doc.id, knowledgeBaseId, doc.title, doc.content, doc.sourceType, doc.sourceUrl, 'paragraph')
+      }
+      const executor = new RetrievalExecutor(undefined, undefined, undefined, knowledgeBaseId)
+
+      for (const strategy of ['semantic', 'keyword'] as const) {
+        const unfiltered = await executor.executeRetrieval('restart the ingestion worker', documents, strategy, 5)
+        expect(unfiltered.documents.map(d => d.id).sort()).toEqual(['handbook', 'runbook'])
+
+        const filtered = await executor.executeRetrieval('restart the ingestion worker', documents, strategy, 5, undefined, { sourceTypes: ['pdf'] })
+        expect(filtered.documents.map(d => d.id)).toEqual(['handbook'])
+        expect(filtered.metadata?.filter).toEqual({ sourceTypes: ['pdf'] })
+      }
+    })
+
+    test("indexes Azure chunk entries with their document's date", async () => {
+      const [doc] = documents
+      const chunks = await new ChunkManager().chunkDocument(doc.id, knowledgeBaseId, doc.title, doc.content, doc.sourceType, doc.sourceUrl, 'paragraph')
+      const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify({ value: [] })))
+
+      await new AzureSearchService({ endpoint: 'https://search.test', apiKey: 'key', indexName: 'kb' }).indexDocuments([doc], chunks)
+      const body = JSON.parse(fetch.mock.calls[0][1]!.body as string)
+      expect(body.value.map((entry: { addedAt: number }) => entry.addedAt)).toEqual(chunks.map(() => doc.addedAt))
+      fetch.mockRestore()
+    })
+  })
+})
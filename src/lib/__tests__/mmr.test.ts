@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest'
+import { selectDiverseChunks } from '../mmr'
+import { DocumentChunk } from '../types'
+
+const hit = (id: string, documentId: string, embedding: number[], score: number, text = id) => ({
+  chunk: {
+    id,
+    documentId,
+    knowledgeBaseId: 'kb-mmr',
+    chunkIndex: 0,
+    text,
+    startIndex: 0,
+    endIndex: text.length,
+    tokens: 1,
+    embedding,
+    embeddingModel: 'mock/deterministic',
+  } as DocumentChunk,
+  score,
+})
+
+// Three near-duplicate chunks of one runbook outscore two other sources
+const candidates = [
+  hit('a1', 'runbook', [1, 0, 0], 0.92),
+  hit('a2', 'runbook', [0.99, 0.1, 0], 0.91),
+  hit('a3', 'runbook', [0.98, 0.15, 0], 0.90),
+  hit('b1', 'faq', [0, 1, 0], 0.80),
+  hit('c1', 'changelog', [0, 0, 1], 0.75),
+]
+
+describe('maximal marginal relevance', () => {
+  test('favours novel chunks over near-duplicates of ones already picked', () => {
+    expect(selectDiverseChunks(candidates, 3, { mmrLambda: 1, maxChunksPerDocument: 5 }).map(h => h.chunk.id))
+      .toEqual(['a1', 'a2', 'a3'])
+    expect(selectDiverseChunks(candidates, 3, { mmrLambda: 0.5, maxChunksPerDocument: 5 }).map(h => h.chunk.id))
+      .toEqual(['a1', 'b1', 'c1'])
+  })
+
+  test('caps the hits taken from one document', () => {
+    expect(selectDiverseChunks(candidates, 4, { maxChunksPerDocument: 1 }).map(h => h.chunk.id))
+      .toEqual(['a1', 'b1', 'c1'])
+    // With MMR on and no cap given, at most two chunks per document are kept
+    expect(selectDiverseChunks(candidates, 5, { mmrLambda: 0.9 }).filter(h => h.chunk.documentId === 'runbook'))
+      .toHaveLength(2)
+  })
+
+  test('compares chunks without embeddings by their terms', () => {
+    const textual = [
+      hit('x1', 'guide', [], 1, 'rotate the api keys every quarter'),
+      hit('x2', 'guide-copy', [], 0.95, 'rotate the api keys every quarter'),
+      hit('y1', 'billing', [], 0.6, 'invoices are sent monthly'),
+    ]
+    expect(selectDiverseChunks(textual, 2, { mmrLambda: 0.5 }).map(h => h.chunk.id)).toEqual(['x1', 'y1'])
+  })
+})
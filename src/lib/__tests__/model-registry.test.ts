@@ -0,0 +1,25 @@
+import { beforeEach, describe, expect, test } from 'vitest'
+import { DEFAULT_TASK_MODELS, ModelRegistry } from '../model-registry'
+import { MockRuntimeAdapter } from '../runtime/mock-adapter'
+import { runtime } from '../runtime/manager'
+
+describe('ModelRegistry', () => {
+  beforeEach(() => {
+    const adapter = MockRuntimeAdapter.create()
+    adapter.kv.clear()
+    runtime.setRuntime(adapter)
+  })
+
+  test('uses per-KB overrides and falls back to task defaults', async () => {
+    const registry = new ModelRegistry()
+    await registry.saveConfig('kb-1', { intentClassification: '@cf/meta/llama-3.1-8b-instruct-fast', critique: '  ' })
+
+    expect(await registry.getModel('intentClassification', 'kb-1')).toBe('@cf/meta/llama-3.1-8b-instruct-fast')
+    expect(await registry.getModel('critique', 'kb-1')).toBe(DEFAULT_TASK_MODELS.critique)
+    expect(await registry.getModel('intentClassification', 'kb-2')).toBe(DEFAULT_TASK_MODELS.intentClassification)
+    expect(await registry.getModel('intentClassification')).toBe(DEFAULT_TASK_MODELS.intentClassification)
+
+    // Persisted, so a fresh registry sees the same overrides
+    expect(await new ModelRegistry().getConfig('kb-1')).toEqual({ intentClassification: '@cf/meta/llama-3.1-8b-instruct-fast' })
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, beforeEach, test } from 'vitest'
+import { MockRuntimeAdapter } from '../runtime/mock-adapter'
+import { withWorkspace, ForeignVectorError, NamespacedKeyValueStore } from '../runtime/namespaced'
+
+describe('Workspace scoping', () => {
+  let base: MockRuntimeAdapter
+
+  beforeEach(() => {
+    base = MockRuntimeAdapter.create()
+    base.kv.clear()
+  })
+
+  test('isolates KV data between workspaces and keeps default keys unprefixed', async () => {
+    const teamA = withWorkspace(base, 'team-a')
+    const defaultWs = withWorkspace(base, 'default')
+
+    await teamA.kv.set('documents', ['a'])
+    await defaultWs.kv.set('documents', ['legacy'])
+
+    expect(await teamA.kv.get('documents')).toEqual(['a'])
+    expect(await base.kv.get('documents')).toEqual(['legacy'])
+    expect(await base.kv.get('ws:team-a:documents')).toEqual(['a'])
+    expect(await teamA.kv.keys()).toEqual(['documents'])
+    expect(await defaultWs.kv.keys()).toEqual(['documents'])
+    await expect(defaultWs.kv.get('ws:team-a:documents')).rejects.toThrow()
+  })
+
+  test('rejects malformed workspace ids', () => {
+    expect(() => new NamespacedKeyValueStore(base.kv, 'bad:id')).toThrow()
+  })
+
+  test('tags vectors with the workspace and filters queries by it', async () => {
+    const teamA = withWorkspace(base, 'team-a')
+    const teamB = withWorkspace(base, 'team-b')
+    const defaultWs = withWorkspace(base, 'default')
+
+    await base.vectorStore!.upsert([{ id: 'legacy', values: [1, 0], metadata: { kbId: 'kb' } }])
+    await teamA.vectorStore!.upsert([{ id: 'a', values: [1, 0], metadata: { kbId: 'kb' } }])
+    await teamB.vectorStore!.upsert([{ id: 'b', values: [1, 0], metadata: { kbId: 'kb' } }])
+
+    expect((await teamA.vectorStore!.query([1, 0], 10, { kbId: 'kb' })).map(m => m.id)).toEqual(['a'])
+    expect((await defaultWs.vectorStore!.query([1, 0], 10, { kbId: 'kb' })).map(m => m.id)).toEqual(['legacy'])
+  })
+
+  test('refuses upserts over vectors another workspace owns', async () => {
+    const teamA = withWorkspace(base, 'team-a')
+    const teamB = withWorkspace(base, 'team-b')
+
+    await base.vectorStore!.upsert([{ id: 'legacy', values: [1, 0], metadata: { kbId: 'kb' } }])
+    await teamA.vectorStore!.upsert([{ id: 'a', values: [1, 0], metadata: { kbId: 'kb' } }])
+
+    await expect(teamB.vectorStore!.upsert([{ id: 'a', values: [0, 1], metadata: { kbId: 'kb' } }])).rejects.toThrow(ForeignVectorError)
+    await expect(teamB.vectorStore!.upsert([{ id: 'legacy', values: [0, 1] }])).rejects.toThrow(ForeignVectorError)
+    // The owner can still replace its own vector
+    await teamA.vectorStore!.upsert([{ id: 'a', values: [0, 1], metadata: { kbId: 'kb' } }])
+    expect((await base.vectorStore!.getByIds!(['a']))[0].metadata?.workspaceId).toBe('team-a')
+  })
+})
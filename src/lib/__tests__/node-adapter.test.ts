@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, test } from 'vitest'
+import { HashingEmbeddingProvider, NodeRuntimeAdapter } from '../runtime/node-adapter'
+
+// node:sqlite ships with Node 22.5+; older runtimes skip the SQLite-backed tests
+const sqliteAvailable = await NodeRuntimeAdapter.isAvailable()
+
+describe('HashingEmbeddingProvider', () => {
+  test('scores texts with shared vocabulary above unrelated ones', async () => {
+    const embedder = new HashingEmbeddingProvider()
+    const [query, related, unrelated] = await embedder.embed([
+      'how do I rotate an API key',
+      'Rotate the API key from the admin settings',
+      'Quarterly revenue grew in the northern region'
+    ])
+
+    const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0)
+    expect(query).toHaveLength(384)
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated))
+  })
+})
+
+describe.skipIf(!sqliteAvailable)('NodeRuntimeAdapter', () => {
+  let adapter: NodeRuntimeAdapter
+
+  afterEach(() => adapter?.close())
+
+  test('stores KV values with compare-and-swap versions', async () => {
+    adapter = await NodeRuntimeAdapter.create()
+
+    expect(await adapter.kv.setIfVersion('doc', { n: 1 }, null)).toBe(true)
+    expect(await adapter.kv.setIfVersion('doc', { n: 2 }, null)).toBe(false)
+
+    const { value, version } = await adapter.kv.getWithVersion<{ n: number }>('doc')
+    expect(value).toEqual({ n: 1 })
+    expect(await adapter.kv.setIfVersion('doc', { n: 2 }, version)).toBe(true)
+    expect(await adapter.kv.setIfVersion('doc', { n: 3 }, version)).toBe(false)
+
+    await adapter.kv.set('kb:1:doc:a', 1)
+    expect(await adapter.kv.keys('kb:1:')).toEqual(['kb:1:doc:a'])
+  })
+
+  test('ranks vectors by cosine similarity within a metadata filter', async () => {
+    adapter = await NodeRuntimeAdapter.create()
+    await adapter.vectorStore.upsert([
+      { id: 'a', values: [1, 0, 0], metadata: { kbId: 'kb-1' } },
+      { id: 'b', values: [0.8, 0.6, 0], metadata: { kbId: 'kb-1' } },
+      { id: 'c', values: [1, 0, 0], metadata: { kbId: 'kb-2' } }
+    ])
+
+    const matches = await adapter.vectorStore.query([1, 0, 0], 5, { kbId: 'kb-1' })
+    expect(matches.map(m => m.id)).toEqual(['a', 'b'])
+    expect(matches[0].score).toBeCloseTo(1)
+  })
+})
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, test, vi } from 'vitest'
+import { OpenAICompatibleEmbeddingProvider, OpenAICompatibleLLMProvider } from '../runtime/openai-adapter'
+
+function sseResponse(frames: string[]): Response {
+  return new Response(frames.map(frame => `data: ${frame}\n\n`).join(''), {
+    headers: { 'Content-Type': 'text/event-stream' }
+  })
+}
+
+describe('OpenAI-compatible providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('sends JSON mode with the configured model and streams chat deltas', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: '{"ok":true}' } }] }))
+      .mockResolvedValueOnce(sseResponse([
+        JSON.stringify({ choices: [{ delta: { role: 'assistant' } }] }),
+        JSON.stringify({ choices: [{ delta: { content: 'Hel' } }] }),
+        JSON.stringify({ choices: [{ delta: { content: 'lo' } }] }),
+        '[DONE]'
+      ]))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const llm = new OpenAICompatibleLLMProvider({ baseUrl: 'http://localhost:8080/v1/', model: 'local-model', apiKey: 'sk-test' })
+
+    expect(await llm.generate('classify', '@cf/meta/llama-3.3-70b-instruct-fp8-fast', true)).toBe('{"ok":true}')
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('http://localhost:8080/v1/chat/completions')
+    expect(init.headers.Authorization).toBe('Bearer sk-test')
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'local-model', response_format: { type: 'json_object' } })
+
+    const deltas: string[] = []
+    for await (const delta of llm.generateStream('hi')) deltas.push(delta)
+    expect(deltas).toEqual(['Hel', 'lo'])
+  })
+
+  test('returns embeddings in input order', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(Response.json({
+      data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }]
+    })))
+
+    const embedder = new OpenAICompatibleEmbeddingProvider({ baseUrl: 'http://localhost:8080/v1', model: 'embed' })
+    expect(await embedder.embed(['first', 'second'])).toEqual([[1, 0], [0, 1]])
+  })
+})
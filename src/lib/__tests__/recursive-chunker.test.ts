@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'vitest'
+import { chunkRecursive, resolveChunkingOptions } from '../recursive-chunker'
+import { countTokens } from '../tokenizer'
+import { MAX_EMBEDDING_TEXT_LENGTH } from '../embedding-constants'
+
+const sentence = (i: number) => `Sentence number ${i} explains how the retrieval pipeline indexes documents.`
+
+describe('chunkRecursive', () => {
+  test('keeps chunks inside the token budget as exact slices of the source', () => {
+    const text = [
+      '# Overview',
+      Array.from({ length: 40 }, (_, i) => sentence(i)).join(' '),
+      '',
+      '## Details',
+      Array.from({ length: 40 }, (_, i) => sentence(i + 40)).join(' '),
+      '',
+      'x'.repeat(5000)
+    ].join('\n')
+
+    const chunks = chunkRecursive(text, { chunkSize: 64, overlap: 16, minChunkSize: 8 })
+
+    expect(chunks.length).toBeGreaterThan(4)
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(64)
+      expect(chunk.text.length).toBeLessThanOrEqual(MAX_EMBEDDING_TEXT_LENGTH)
+      expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text)
+    }
+    // A heading opens a new chunk rather than ending the previous one
+    expect(chunks.some(chunk => chunk.text.startsWith('## Details'))).toBe(true)
+    expect(chunks.some(chunk => chunk.text.endsWith('## Details'))).toBe(false)
+  })
+
+  test('overlaps consecutive chunks and merges tiny trailing pieces', () => {
+    const text = Array.from({ length: 30 }, (_, i) => sentence(i)).join(' ') + ' Done.'
+    const chunks = chunkRecursive(text, { chunkSize: 60, overlap: 20, minChunkSize: 10 })
+
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startIndex).toBeLessThan(chunks[i - 1].endIndex)
+    }
+    expect(chunks[chunks.length - 1].text.endsWith('Done.')).toBe(true)
+    expect(countTokens(chunks[chunks.length - 1].text)).toBeGreaterThan(10)
+  })
+
+  test('clamps options to the embedding window', () => {
+    expect(resolveChunkingOptions({ chunkSize: 4096, overlap: 4096 })).toEqual({ chunkSize: 510, overlap: 255, minChunkSize: 32 })
+  })
+})
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { ChunkManager } from '../chunk-manager'
+import { countFallbackEmbeddings } from '../chunking'
+import { RetrievalExecutor } from '../retrieval-executor'
+import { countOutdatedChunks, reembedKnowledgeBase } from '../reembed-job'
+import { MockRuntimeAdapter } from '../runtime/mock-adapter'
+import { runtime } from '../runtime/manager'
+import { kbStorage } from '../kb-storage'
+import { Document } from '../types'
+
+const knowledgeBaseId = 'kb-reembed'
+
+const doc: Document = {
+  id: 'doc-1',
+  title: 'Runbook',
+  content: 'Restart the ingestion worker when the queue stalls.\n\nRotate the API keys every quarter.',
+  sourceType: 'markdown',
+  sourceUrl: 'local',
+  addedAt: 0,
+  knowledgeBaseId,
+  metadata: {},
+}
+
+describe('embedding model tracking', () => {
+  const chunkManager = new ChunkManager()
+  let adapter: MockRuntimeAdapter
+
+  beforeEach(() => {
+    adapter = MockRuntimeAdapter.create()
+    adapter.kv.clear()
+    runtime.setRuntime(adapter)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  test('flags simulated chunks in retrieval and upgrades them with the re-embed job', async () => {
+    // No provider during ingestion: chunks fall back to simulated embeddings
+    const embedder = adapter.embedder
+    adapter.embedder = undefined
+    const chunks = await chunkManager.chunkDocument(doc.id, knowledgeBaseId, doc.title, doc.content, 'markdown', 'local', 'paragraph')
+    adapter.embedder = embedder
+
+    expect(chunks.every(c => c.embeddingModel === 'simulated')).toBe(true)
+    expect(await countOutdatedChunks(knowledgeBaseId)).toBe(chunks.length)
+
+    const executor = new RetrievalExecutor(undefined, undefined, undefined, knowledgeBaseId)
+    const before = await executor.executeRetrieval('restart the worker', [doc], 'semantic', 2)
+    expect(before.documents).toHaveLength(0)
+    expect(before.metadata?.embeddingMismatch).toEqual({ queryModel: 'mock/deterministic', skippedChunks: chunks.length })
+
+    const result = await reembedKnowledgeBase(knowledgeBaseId)
+    expect(result).toEqual({ model: 'mock/deterministic', reembedded: chunks.length, documents: 1 })
+    expect(await countOutdatedChunks(knowledgeBaseId)).toBe(0)
+
+    const after = await new RetrievalExecutor(undefined, undefined, undefined, knowledgeBaseId)
+      .executeRetrieval('restart the worker', [doc], 'semantic', 2)
+    expect(after.documents.map(d => d.id)).toEqual(['doc-1'])
+    expect(after.metadata?.embeddingMismatch).toBeUndefined()
+  })
+
+  test('moves a knowledge base to the embedding model in its settings', async () => {
+    const chunks = await chunkManager.chunkDocument(doc.id, knowledgeBaseId, doc.title, doc.content, 'markdown', 'local', 'paragraph')
+    expect(await countOutdatedChunks(knowledgeBaseId)).toBe(0)
+
+    // A provider that can switch models embeds with the one the knowledge base declares
+    const larger = { model: 'mock/larger', dimension: chunks[0].embedding!.length }
+    Object.assign(adapter.embedder!, { models: [larger.model] })
+    await adapter.kv.set('knowledge-bases', [{ id: knowledgeBaseId, name: 'Runbooks', embedding: larger }])
+    const embed = vi.spyOn(adapter.embedder!, 'embed')
+
+    expect(await countOutdatedChunks(knowledgeBaseId)).toBe(chunks.length)
+    const result = await reembedKnowledgeBase(knowledgeBaseId)
+    expect(result.model).toBe('mock/larger')
+    expect(embed).toHaveBeenCalledWith(expect.any(Array), 'mock/larger')
+
+    const stored = await chunkManager.getChunksByDocument(doc.id, knowledgeBaseId)
+    expect(stored.every(c => c.embeddingModel === 'mock/larger')).toBe(true)
+  })
+
+  test('reports chunks that fell back to simulated embeddings when the provider fails', async () => {
+    vi.spyOn(adapter.embedder!, 'embed').mockRejectedValue(new Error('provider down'))
+    const chunks = await chunkManager.chunkDocument(doc.id, knowledgeBaseId, doc.title, doc.content, 'markdown', 'local', 'paragraph')
+
+    expect(countFallbackEmbeddings(chunks)).toBe(chunks.length)
+    vi.mocked(adapter.embedder!.embed).mockRestore()
+    const reembedded = await chunkManager.chunkDocument(doc.id, knowledgeBaseId, doc.title, doc.content, 'markdown', 'local', 'paragraph')
+    expect(countFallbackEmbeddings(reembedded)).toBe(0)
+  })
+
+  test('keeps chunks stored before models were recorded out of semantic search', async () => {
+    const chunks = await chunkManager.chunkDocument(doc.id, knowledgeBaseId, doc.title, doc.content, 'markdown', 'local', 'paragraph')
+    // Same dimension as the query, but nothing says which model produced them
+    await kbStorage.saveDocumentChunks(knowledgeBaseId, doc.id, chunks.map(({ embeddingModel, ...chunk }) => chunk))
+
+    const result = await new RetrievalExecutor(undefined, undefined, undefined, knowledgeBaseId)
+      .executeRetrieval('restart the worker', [doc], 'semantic', 2)
+    expect(result.documents).toHaveLength(0)
+    expect(result.metadata?.embeddingMismatch).toEqual({ queryModel: 'mock/deterministic', skippedChunks: chunks.length })
+    expect(await countOutdatedChunks(knowledgeBaseId)).toBe(chunks.length)
+  })
+
+  test('re-embeds chunks with the context prefix they were ingested with', async () => {
+    const embedder = adapter.embedder!
+    adapter.embedder = undefined
+    const chunks = await chunkManager.chunkDocument(doc.id, knowledgeBaseId, doc.title, doc.content, 'markdown', 'local', 'paragraph')
+    adapter.embedder = embedder
+    expect(chunks[0].metadata.contextPrefix).toBe('Runbook')
+
+    await reembedKnowledgeBase(knowledgeBaseId)
+
+    // Same vectors as a fresh ingestion, which embeds `Runbook\n\n<text>`
+    const stored = await chunkManager.getChunksByDocument(doc.id, knowledgeBaseId)
+    const expected = await embedder.embed(chunks.map(c => `Runbook\n\n${c.text}`))
+    expect(stored.map(c => c.embedding)).toEqual(expected)
+  })
+})
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { parseListwiseRanking, rerankRetrieval, resolveRerankOptions, truncateRetrieval } from '../reranker'
+import { RetrievalResult } from '../retrieval-executor'
+import { MockRuntimeAdapter } from '../runtime/mock-adapter'
+import { runtime } from '../runtime/manager'
+import { Document } from '../types'
+
+const doc = (id: string, title: string): Document => ({
+  id,
+  title,
+  content: `${title} content`,
+  sourceType: 'markdown',
+  sourceUrl: 'local',
+  addedAt: 0,
+  knowledgeBaseId: 'kb-rerank',
+  metadata: {},
+})
+
+const retrieval: RetrievalResult = {
+  documents: [doc('a', 'Pricing'), doc('b', 'Rotating keys'), doc('c', 'Key rotation schedule')],
+  scores: [0.81, 0.77, 0.74],
+  passages: [
+    { documentId: 'c', text: 'Rotate API keys every quarter.', startIndex: 0, endIndex: 30, score: 0.74, chunkIds: ['c-0'] },
+  ],
+  method: 'semantic',
+  queryUsed: 'how often are keys rotated',
+}
+
+describe('reranker', () => {
+  let adapter: MockRuntimeAdapter
+
+  beforeEach(() => {
+    adapter = MockRuntimeAdapter.create()
+    runtime.setRuntime(adapter)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  test('keeps the default mode and topN when the caller passes them as undefined', () => {
+    expect(resolveRerankOptions({ mode: undefined, topN: undefined })).toEqual({ mode: 'llm_listwise', topN: 10 })
+    expect(resolveRerankOptions({ mode: 'model', topN: 100, model: 'reranker' })).toEqual({ mode: 'model', topN: 50, model: 'reranker' })
+  })
+
+  test('reads listwise answers, skipping unknown and repeated numbers', () => {
+    expect(parseListwiseRanking('3 > 1 > 2', 3)).toEqual([2, 0, 1])
+    expect(parseListwiseRanking('Ranking: [3] > [3] > [7]', 3)).toEqual([2, 0, 1])
+    expect(parseListwiseRanking('no idea', 2)).toEqual([0, 1])
+  })
+
+  test('reorders the candidates and records their positions before and after', async () => {
+    const generate = vi.spyOn(adapter.llm, 'generate').mockResolvedValue('3 > 2 > 1')
+
+    const result = await rerankRetrieval('how often are keys rotated', retrieval, { mode: 'llm_listwise' })
+
+    expect(generate).toHaveBeenCalledTimes(1)
+    expect(generate.mock.calls[0][0]).toContain('Rotate API keys every quarter.')
+    expect(result.documents.map(d => d.id)).toEqual(['c', 'b', 'a'])
+    // First-stage scores travel with their documents
+    expect(result.scores).toEqual([0.74, 0.77, 0.81])
+    expect(result.metadata?.reranking?.ranks.map(r => [r.documentId, r.before, r.after])).toEqual([
+      ['c', 3, 1], ['b', 2, 2], ['a', 1, 3]
+    ])
+
+    const kept = truncateRetrieval(result, 1)
+    expect(kept.documents.map(d => d.id)).toEqual(['c'])
+    expect(kept.passages).toHaveLength(1)
+  })
+
+  test('keeps the retrieval order when the rerank model is unavailable', async () => {
+    const result = await rerankRetrieval('how often are keys rotated', retrieval, { mode: 'model' })
+    expect(result.documents.map(d => d.id)).toEqual(['a', 'b', 'c'])
+    expect(result.metadata?.reranking?.error).toMatch(/No rerank model/)
+
+    Object.assign(adapter, {
+      reranker: { rerank: async (_query: string, texts: string[]) => texts.map(text => text.includes('quarter') ? 0.9 : 0.1) }
+    })
+    const reranked = await rerankRetrieval('how often are keys rotated', retrieval, { mode: 'model' })
+    expect(reranked.documents[0].id).toBe('c')
+  })
+})
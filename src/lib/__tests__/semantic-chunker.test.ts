@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'vitest'
+import { chunkSemantic, findBreakpoints } from '../semantic-chunker'
+import { EmbeddingProvider } from '../runtime/interfaces'
+
+// Each sentence window maps onto the axis of the topic it mostly talks about
+const TOPICS = ['invoice', 'volcano', 'garden']
+const topicEmbedder: EmbeddingProvider = {
+  embed: async (texts: string[]) => texts.map(text =>
+    TOPICS.map(topic => (text.match(new RegExp(topic, 'g')) || []).length)
+  )
+}
+
+describe('semantic chunker', () => {
+  test('finds breakpoints above the percentile or on the steepest gradients', () => {
+    const distances = [0.1, 0.12, 0.8, 0.1, 0.11, 0.7, 0.09]
+    expect(findBreakpoints(distances, 'percentile', 70)).toEqual([2, 5])
+    expect(findBreakpoints([0.1, 0.1, 0.1, 0.5, 0.5, 0.5], 'gradient', 60)).toEqual([2, 3])
+  })
+
+  test('cuts at topic changes and keeps offsets exact', async () => {
+    const text = [
+      'The invoice lists every item. Each invoice has a due date. Pay the invoice within thirty days.',
+      'A volcano erupts when pressure builds. The volcano released ash for weeks. Lava from the volcano cooled slowly.',
+      'The garden needs water daily. Roses in the garden bloom in June. Weed the garden each weekend.',
+    ].join(' ')
+
+    const chunks = await chunkSemantic(text, { chunkSize: 200, minChunkSize: 5 }, { breakpointThreshold: 75, bufferSize: 0 }, topicEmbedder)
+
+    expect(chunks.map(chunk => chunk.text.split(' ')[1])).toEqual(['invoice', 'volcano', 'garden'])
+    for (const chunk of chunks) {
+      expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text)
+    }
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'vitest'
+import { formatSSE, parseSSEStream, ServerSentEvent } from '../sse'
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = []
+  for await (const event of parseSSEStream(stream)) {
+    events.push(event)
+  }
+  return events
+}
+
+describe('Server-Sent Events', () => {
+  test('round-trips formatted events split across chunks', async () => {
+    const payload = formatSSE('progress', { phase: 'routing', message: 'line one\nline two' }) + formatSSE('token', { delta: 'Hi' })
+    const events = await collect(streamOf([payload.slice(0, 17), payload.slice(17, 60), payload.slice(60)]))
+
+    expect(events.map(e => e.event)).toEqual(['progress', 'token'])
+    expect(JSON.parse(events[0].data).message).toBe('line one\nline two')
+    expect(JSON.parse(events[1].data)).toEqual({ delta: 'Hi' })
+  })
+
+  test('parses default events, comments, CRLF and a trailing frame', async () => {
+    const events = await collect(streamOf([': keep-alive\r\n\r\ndata: {"response":"a"}\r\n\r\n', 'data: [DONE]']))
+
+    expect(events).toEqual([
+      { event: 'message', data: '{"response":"a"}' },
+      { event: 'message', data: '[DONE]' }
+    ])
+  })
+})
@@ -1,7 +1,8 @@
-import { beforeEach, describe, expect, test } from 'vitest'
+import { beforeEach, describe, expect, test, vi } from 'vitest'
 import { UnifiedQueryTracker } from '../unified-query-model'
 import { MockRuntimeAdapter } from '../runtime/mock-adapter'
 import { runtime } from '../runtime/manager'
+import { StorageKeys } from '../kb-storage'
 
 runtime.setRuntime(MockRuntimeAdapter.create())
 
@@ -58,4 +59,43 @@ describe('UnifiedQueryTracker analytics', () => {
     })
     expect(analytics.successRate).toBeCloseTo((2 / 3) * 100)
   })
+
+  test('keeps a summary for analytics and reads only the recent records it needs', async () => {
+    // The dashboard has been opened before: both summaries exist
+    await tracker.getAnalytics('kb-a')
+    await tracker.getAnalytics()
+
+    const now = Date.now()
+    for (let i = 0; i < 6; i++) {
+      await tracker.recordQuery({
+        id: `q${i}`,
+        timestamp: now + i,
+        knowledgeBaseId: i < 4 ? 'kb-a' : 'kb-b',
+        query: `query ${i}`,
+        response: 'resp',
+        sources: [],
+        method: i % 2 ? 'agentic' : 'standard',
+        timeMs: 100 * i
+      })
+    }
+    await tracker.recordUserFeedback('q1', 'positive')
+
+    const get = vi.spyOn(runtime.kv, 'get')
+    const analytics = await tracker.getAnalytics('kb-a')
+    expect(get.mock.calls.filter(([key]) => key.startsWith(StorageKeys.queryPrefix()))).toHaveLength(0)
+    expect(analytics.totalQueries).toBe(4)
+    expect(analytics.agenticMetrics.averageTimeMs).toBe(150)
+    expect(analytics.successRate).toBe(25)
+    expect((await tracker.getAnalytics()).methodBreakdown).toEqual({ standard: 3, azure: 0, agentic: 3 })
+
+    get.mockClear()
+    const recent = await tracker.getHistory({ method: 'agentic', limit: 2 })
+    expect(recent.map(r => r.id)).toEqual(['q3', 'q5'])
+    expect(get.mock.calls.filter(([key]) => key.startsWith(StorageKeys.queryPrefix())).length).toBeLessThanOrEqual(4)
+    get.mockRestore()
+
+    // Summaries missing for older records are rebuilt from them
+    await runtime.kv.delete(StorageKeys.querySummary('kb-a'))
+    expect(await tracker.getAnalytics('kb-a')).toEqual(analytics)
+  })
 })
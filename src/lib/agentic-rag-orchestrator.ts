@@ -4,8 +4,15 @@ import { RetrievalExecutor, RetrievalResult } from './retrieval-executor'
 import { SelfReflectiveRAG, SelfEvaluation, CriticFeedback } from './self-reflective-rag'
 import { StrategyPerformanceTracker } from './strategy-performance-tracker'
 import { runtime } from './runtime/manager'
+import { modelRegistry, ModelTask } from './model-registry'
 import { generateEmbedding } from './chunking'
 import { SemanticCache } from './semantic-cache'
+import { ContextExpansionMode, DEFAULT_CONTEXT_EXPANSION } from './context-expansion'
+import { buildContext } from './context-builder'
+import { RerankMode, rerankRetrieval, resolveRerankOptions, truncateRetrieval } from './reranker'
+import { MetadataFilter, hasMetadataFilter } from './metadata-filters'
+
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 3000
 
 export type QueryReformulation = {
   id: string
@@ -21,7 +28,7 @@ export type QueryReformulation = {
 }
 
 export type ProgressStep = {
-  phase: 'routing' | 'retrieval' | 'generation' | 'evaluation' | 'criticism' | 'retry' | 'complete'
+  phase: 'routing' | 'retrieval' | 'reranking' | 'generation' | 'evaluation' | 'criticism' | 'retry' | 'complete'
   status: 'pending' | 'in_progress' | 'complete' | 'error'
   message: string
   details?: string
@@ -50,6 +57,21 @@ export type AgenticRAGResponse = {
   }
 }
 
+export type AnswerCitation = {
+  marker: number
+  documentId: string
+  title: string
+  /** Section breadcrumb of the best-matching chunk, e.g. "Configuration > Networking" */
+  section?: string
+}
+
+export type PartialAnswer = {
+  text: string
+  delta: string
+  citations: AnswerCitation[]
+  iteration: number
+}
+
 export type AgenticRAGConfig = {
   maxIterations?: number
   confidenceThreshold?: number
@@ -57,9 +79,29 @@ export type AgenticRAGConfig = {
   enableAutoRetry?: boolean
   topK?: number
   onProgress?: (step: ProgressStep) => void
+  onToken?: (token: string, iteration: number) => void
+  streamGeneration?: boolean
+  onPartialAnswer?: (partial: PartialAnswer) => void
   enableSemanticCache?: boolean
   cacheTtlMs?: number
   cacheConfidenceThreshold?: number
+  /** How each matched chunk is widened before generation: neighbouring chunks, its heading section, or not at all */
+  contextExpansion?: ContextExpansionMode
+  /** Neighbouring chunks included on each side of a match in `window` mode */
+  contextWindow?: number
+  /** Tokens of retrieved passages placed in the answer prompt */
+  contextTokenBudget?: number
+  /** Reorder the retrieved candidates with a reranker before generation */
+  enableReranking?: boolean
+  rerankMode?: RerankMode
+  /** Candidates retrieved and reranked; the best `topK` of them are kept */
+  rerankTopN?: number
+  /** Diversify chunk hits with MMR: 1 ranks by relevance alone, lower values favour novel passages */
+  mmrLambda?: number
+  /** Most chunk hits taken from one document (defaults to 2 when `mmrLambda` is set) */
+  maxChunksPerDocument?: number
+  /** Restricts retrieval to documents matching these metadata fields; bypasses the semantic cache */
+  filters?: MetadataFilter
 }
 
 /**
@@ -69,7 +111,7 @@ export type AgenticRAGConfig = {
  * between the Router, Retrieval Executor, and Self-Reflection components.
  *
  * Key responsibilities:
- * - Orchestrates the multi-step query process (Routing -> Retrieval -> Generation -> Evaluation)
+ * - Orchestrates the multi-step query process (Routing -> Retrieval -> Reranking -> Generation -> Evaluation)
  * - Manages the feedback loop for query reformulation and retries
  * - Maintains conversation history
  * - Emits real-time progress events for UI visualization
@@ -90,18 +132,18 @@ export class AgenticRAGOrchestrator {
     azureIndexName?: string,
     initialConversationHistory?: Array<{ query: string; response: string }> // NEW
   ) {
-    this.router = new AgenticQueryRouter()
-
-    // Extract knowledgeBaseId from documents for chunk-based retrieval
+    // Extract knowledgeBaseId from documents for chunk-based retrieval and per-KB models
     const knowledgeBaseId = documents.length > 0 ? documents[0].knowledgeBaseId : undefined
 
+    this.router = new AgenticQueryRouter(knowledgeBaseId)
+
     this.executor = new RetrievalExecutor(
       azureSettings?.enabled ? azureSettings.endpoint : undefined,
       azureSettings?.enabled ? azureSettings.apiKey : undefined,
       azureIndexName,
       knowledgeBaseId // NEW: Enable chunk-based retrieval
     )
-    this.reflector = new SelfReflectiveRAG()
+    this.reflector = new SelfReflectiveRAG(knowledgeBaseId)
     this.tracker = new StrategyPerformanceTracker()
 
     // Initialize with existing history
@@ -122,6 +164,40 @@ export class AgenticRAGOrchestrator {
     }
   }
 
+  private emitAnswer(config: AgenticRAGConfig, text: string, delta: string, documents: Document[], iteration: number) {
+    config.onToken?.(delta, iteration)
+    config.onPartialAnswer?.({
+      text,
+      delta,
+      citations: this.resolveCitations(text, documents),
+      iteration
+    })
+  }
+
+  /**
+   * Maps `[n]` / `[n, m]` markers in a (possibly partial) answer to the numbered context documents,
+   * in order of first appearance. Markers without a matching document are ignored.
+   */
+  private resolveCitations(text: string, documents: Document[]): AnswerCitation[] {
+    const citations: AnswerCitation[] = []
+    const seen = new Set<number>()
+
+    for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+      for (const marker of match[1].split(',').map(n => parseInt(n.trim(), 10))) {
+        const doc = documents[marker - 1]
+        if (!doc || seen.has(marker)) continue
+        seen.add(marker)
+        citations.push({ marker, documentId: doc.id, title: doc.title, section: doc.matchedSections?.[0] })
+      }
+    }
+
+    return citations
+  }
+
+  private modelFor(task: ModelTask): Promise<string> {
+    return modelRegistry.getModel(task, this.knowledgeBaseId)
+  }
+
   private generateId(): string {
     return `qr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
@@ -160,6 +236,19 @@ export class AgenticRAGOrchestrator {
     const enableCriticism = config.enableCriticism !== false
     const enableAutoRetry = config.enableAutoRetry !== false
     const topK = config.topK || 5
+    const reranking = config.enableReranking
+      ? resolveRerankOptions({ mode: config.rerankMode, topN: config.rerankTopN })
+      : undefined
+    // With reranking on, retrieval fetches the reranker's candidates and the best topK are kept
+    const candidateK = reranking ? Math.max(topK, reranking.topN) : topK
+    this.executor.setContextExpansion({
+      mode: config.contextExpansion ?? DEFAULT_CONTEXT_EXPANSION.mode,
+      window: config.contextWindow ?? DEFAULT_CONTEXT_EXPANSION.window
+    })
+    this.executor.setDiversification({
+      mmrLambda: config.mmrLambda,
+      maxChunksPerDocument: config.maxChunksPerDocument
+    })
 
     let iteration = 0
     let currentQuery = userQuery
@@ -181,7 +270,10 @@ export class AgenticRAGOrchestrator {
 
     // Try semantic cache first (best-effort)
     let queryEmbedding: number[] | null = null
-    if (config.enableSemanticCache !== false) {
+    // Cached answers were retrieved without the filter, so filtered queries neither read nor fill the cache
+    const useSemanticCache = config.enableSemanticCache !== false && !hasMetadataFilter(config.filters)
+
+    if (useSemanticCache) {
       try {
         queryEmbedding = await generateEmbedding(userQuery)
         const cached = this.knowledgeBaseId && queryEmbedding
@@ -273,6 +365,7 @@ export class AgenticRAGOrchestrator {
         })
 
         answer = await this.generateDirectAnswer(currentQuery, routing.intent)
+        this.emitAnswer(config, answer, answer, [], iteration)
 
         evaluation = {
           relevanceToken: 'RELEVANT',
@@ -313,6 +406,7 @@ export class AgenticRAGOrchestrator {
         })
 
         answer = clarification.clarificationQuestion || 'Could you please provide more details about your question?'
+        this.emitAnswer(config, answer, answer, [], iteration)
 
         evaluation = {
           relevanceToken: 'PARTIALLY_RELEVANT',
@@ -407,7 +501,9 @@ export class AgenticRAGOrchestrator {
         phase: 'retrieval',
         status: 'in_progress',
         message: `Executing ${routing.strategy} retrieval`,
-        details: `Searching ${this.documents.length} documents with top-${topK} results...`,
+        details: hasMetadataFilter(config.filters)
+          ? `Searching filtered documents with top-${candidateK} results...`
+          : `Searching ${this.documents.length} documents with top-${candidateK} results...`,
         progress: 45
       })
 
@@ -415,8 +511,9 @@ export class AgenticRAGOrchestrator {
         currentQuery,
         this.documents,
         routing.strategy,
-        topK,
-        subQueries
+        candidateK,
+        subQueries,
+        config.filters
       )
 
       if (retrieval.method === 'rag_fusion' && retrieval.metadata?.ragFusionVariations) {
@@ -472,7 +569,9 @@ export class AgenticRAGOrchestrator {
           currentQuery,
           this.documents,
           fallbackStrategy,
-          topK
+          candidateK,
+          undefined,
+          config.filters
         )
 
         this.emitProgress(config, {
@@ -485,6 +584,33 @@ export class AgenticRAGOrchestrator {
         })
       }
 
+      if (reranking) {
+        if (retrieval.documents.length > 1) {
+          const candidates = Math.min(reranking.topN, retrieval.documents.length)
+          this.emitProgress(config, {
+            phase: 'reranking',
+            status: 'in_progress',
+            message: `Reranking ${candidates} candidates`,
+            details: reranking.mode === 'model' ? 'Scoring query and passages with a cross-encoder...' : 'Asking the LLM to judge passage relevance...',
+            progress: 66
+          })
+
+          retrieval = await rerankRetrieval(currentQuery, retrieval, reranking, this.knowledgeBaseId)
+          const report = retrieval.metadata?.reranking
+          const moved = report?.ranks.filter(rank => rank.before !== rank.after).length ?? 0
+
+          this.emitProgress(config, {
+            phase: 'reranking',
+            status: report?.error ? 'error' : 'complete',
+            message: report?.error ? 'Reranking failed, keeping retrieval order' : `Reranked ${candidates} candidates`,
+            details: report?.error || `${moved} changed position; top result: ${report?.ranks[0]?.title} (was #${report?.ranks[0]?.before})`,
+            progress: 68,
+            metadata: { mode: reranking.mode, model: report?.model, ranks: report?.ranks }
+          })
+        }
+        retrieval = truncateRetrieval(retrieval, topK)
+      }
+
       this.emitProgress(config, {
         phase: 'generation',
         status: 'in_progress',
@@ -493,7 +619,7 @@ export class AgenticRAGOrchestrator {
         progress: 70
       })
 
-      answer = await this.generateAnswer(currentQuery, retrieval)
+      answer = await this.generateAnswer(currentQuery, retrieval, config, iteration)
 
       this.emitProgress(config, {
         phase: 'generation',
@@ -543,7 +669,7 @@ export class AgenticRAGOrchestrator {
         criticism = await this.reflector.criticResponse(
           currentQuery,
           answer,
-          retrieval.documents
+          retrieval
         )
 
         this.emitProgress(config, {
@@ -683,7 +809,7 @@ export class AgenticRAGOrchestrator {
 
     // Write-through semantic cache when enabled and confident enough
     const cacheConfidence = config.cacheConfidenceThreshold ?? 0.55
-    if (config.enableSemanticCache !== false && queryEmbedding && this.knowledgeBaseId && evaluation.confidence >= cacheConfidence) {
+    if (useSemanticCache && queryEmbedding && this.knowledgeBaseId && evaluation.confidence >= cacheConfidence) {
       try {
         await this.cache.set(queryEmbedding, this.knowledgeBaseId, response, config.cacheTtlMs)
       } catch (error) {
@@ -702,7 +828,7 @@ export class AgenticRAGOrchestrator {
 
 Keep it brief and friendly.`
 
-      return await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast')
+      return await runtime.llm.generate(prompt, await this.modelFor('generation'))
     }
 
     if (intent === 'out_of_scope') {
@@ -712,17 +838,22 @@ Keep it brief and friendly.`
     return `I don't have enough information to answer that question based on the current knowledge base.`
   }
 
-  private async generateAnswer(query: string, retrieval: RetrievalResult): Promise<string> {
+  private async generateAnswer(
+    query: string,
+    retrieval: RetrievalResult,
+    config: AgenticRAGConfig,
+    iteration: number
+  ): Promise<string> {
     if (retrieval.documents.length === 0) {
-      return `I couldn't find relevant information in the knowledge base to answer your question about: "${query}". The knowledge base may not contain documents on this topic.`
+      const answer = `I couldn't find relevant information in the knowledge base to answer your question about: "${query}". The knowledge base may not contain documents on this topic.`
+      this.emitAnswer(config, answer, answer, [], iteration)
+      return answer
     }
 
-    const context = retrieval.documents
-      .map((doc, i) => {
-        const score = retrieval.scores[i]
-        return `[${i + 1}] ${doc.title} (relevance: ${score.toFixed(2)})\n${doc.content.slice(0, 800)}`
-      })
-      .join('\n\n---\n\n')
+    const context = buildContext(retrieval, {
+      maxTokens: config.contextTokenBudget || DEFAULT_CONTEXT_TOKEN_BUDGET,
+      includeScores: true
+    })
 
     const prompt = `You are a helpful AI assistant with access to the "${this.knowledgeBaseName}" knowledge base.
 
@@ -741,7 +872,45 @@ Instructions:
 
 Answer:`
 
-    return await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast')
+    if (config.streamGeneration) {
+      return await this.streamAnswer(prompt, retrieval.documents, config, iteration)
+    }
+
+    const answer = await runtime.llm.generate(prompt, await this.modelFor('generation'))
+    this.emitAnswer(config, answer, answer, retrieval.documents, iteration)
+    return answer
+  }
+
+  /**
+   * Streams the generation through `generateStream`, emitting each delta as it arrives.
+   * Falls back to a blocking `generate` when the stream fails before producing any text.
+   */
+  private async streamAnswer(
+    prompt: string,
+    documents: Document[],
+    config: AgenticRAGConfig,
+    iteration: number
+  ): Promise<string> {
+    let text = ''
+
+    try {
+      for await (const delta of runtime.llm.generateStream(prompt, await this.modelFor('generation'))) {
+        if (!delta) continue
+        text += delta
+        this.emitAnswer(config, text, delta, documents, iteration)
+      }
+    } catch (error) {
+      if (text) throw error
+      console.warn('Streaming generation failed; falling back to blocking generation', error)
+    }
+
+    if (!text) {
+      text = await runtime.llm.generate(prompt, await this.modelFor('generation'))
+      this.emitAnswer(config, text, text, documents, iteration)
+    }
+
+    // The answer must match what listeners already received
+    return text
   }
 
   private async reformulateQuery(
@@ -767,7 +936,7 @@ Generate a reformulated query that addresses these issues. Make it more specific
 Respond with ONLY the reformulated query, no explanation.`
 
     try {
-      const reformulated = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast')
+      const reformulated = await runtime.llm.generate(prompt, await this.modelFor('reformulation'))
       return reformulated.trim()
     } catch {
       return originalQuery
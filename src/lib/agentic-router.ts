@@ -1,5 +1,6 @@
 import { Document } from './types'
 import { runtime } from './runtime/manager'
+import { modelRegistry, ModelTask } from './model-registry'
 
 export type QueryIntent = 
   | 'factual'
@@ -39,6 +40,12 @@ export type QueryAnalysis = {
 
 export class AgenticQueryRouter {
   private conversationHistory: Array<{ query: string; response: string }> = []
+
+  constructor(private knowledgeBaseId?: string) {}
+
+  private modelFor(task: ModelTask): Promise<string> {
+    return modelRegistry.getModel(task, this.knowledgeBaseId)
+  }
   
   async classifyIntent(query: string): Promise<QueryIntent> {
     const prompt = `You are a query intent classifier. Analyze the user's query and classify it into one of these categories:
@@ -54,7 +61,7 @@ Query: "${query}"
 
 Respond with ONLY the category name (lowercase, no explanation).`
 
-    const result = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast')
+    const result = await runtime.llm.generate(prompt, await this.modelFor('intentClassification'))
     const intent = result.trim().toLowerCase()
     
     const validIntents: QueryIntent[] = ['factual', 'analytical', 'comparative', 'procedural', 'clarification', 'chitchat', 'out_of_scope']
@@ -74,7 +81,7 @@ Query: "${query}"
 Respond with ONLY valid JSON, no markdown formatting.`
 
     try {
-      const result = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast', true)
+      const result = await runtime.llm.generate(prompt, await this.modelFor('queryAnalysis'), true)
       const analysis = JSON.parse(result)
       return analysis
     } catch {
@@ -158,7 +165,7 @@ Provide a routing plan as JSON with:
 Respond with ONLY valid JSON.`
 
     try {
-      const result = await runtime.llm.generate(routingPrompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast', true)
+      const result = await runtime.llm.generate(routingPrompt, await this.modelFor('routing'), true)
       const decision = JSON.parse(result)
       
       return {
@@ -225,7 +232,7 @@ Example format: ["sub-query 1", "sub-query 2", "sub-query 3"]
 Respond with ONLY valid JSON array.`
 
     try {
-      const result = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast', true)
+      const result = await runtime.llm.generate(prompt, await this.modelFor('reformulation'), true)
       const parsed = JSON.parse(result)
       return Array.isArray(parsed) ? parsed : [originalQuery]
     } catch {
@@ -248,7 +255,7 @@ Provide JSON array: ["variation 1", "variation 2", "variation 3"]
 Respond with ONLY valid JSON array.`
 
     try {
-      const result = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast', true)
+      const result = await runtime.llm.generate(prompt, await this.modelFor('reformulation'), true)
       const parsed = JSON.parse(result)
       return Array.isArray(parsed) ? [query, ...parsed] : [query]
     } catch {
@@ -304,7 +311,7 @@ Make it specific and actionable.
 Respond with just the clarification question, no explanation.`
 
       try {
-        const question = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast')
+        const question = await runtime.llm.generate(prompt, await this.modelFor('queryAnalysis'))
         return {
           needsClarification: true,
           clarificationQuestion: question.trim()
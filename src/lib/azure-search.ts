@@ -5,6 +5,8 @@ export interface AzureSearchConfig {
   endpoint: string
   apiKey: string
   indexName: string
+  /** Size of the index's vector field; defaults to EMBEDDING_DIMENSION */
+  embeddingDimension?: number
 }
 
 export interface SearchDocument {
@@ -51,6 +53,10 @@ export class AzureSearchService {
     this.config = config
   }
 
+  get embeddingDimension(): number {
+    return this.config.embeddingDimension ?? EMBEDDING_DIMENSION
+  }
+
   private async makeRequest(
     path: string,
     method: string,
@@ -103,12 +109,12 @@ export class AzureSearchService {
         { name: 'documentId', type: 'Edm.String', filterable: true, facetable: true },
         { name: 'chunkIndex', type: 'Edm.Int32', filterable: true, sortable: true },
         { name: 'chunks', type: 'Collection(Edm.String)', searchable: true },
-        // Vector field configured for EMBEDDING_DIMENSION-dim embeddings
+        // Vector field sized for the knowledge base's embedding model
         {
           name: 'embedding',
           type: 'Collection(Edm.Single)',
           searchable: true,
-          dimensions: EMBEDDING_DIMENSION,
+          dimensions: this.embeddingDimension,
           vectorSearchProfile: 'default-vector-profile'
         },
       ],
@@ -195,7 +201,7 @@ export class AzureSearchService {
   async indexDocuments(documents: Document[], chunks?: DocumentChunk[]) {
     // If chunks provided, index at chunk level for better retrieval
     if (chunks && chunks.length > 0) {
-      return await this.indexChunks(chunks)
+      return await this.indexChunks(chunks, documents)
     }
 
     // Otherwise, index documents with simple chunking (backward compatibility)
@@ -217,7 +223,12 @@ export class AzureSearchService {
     )
   }
 
-  async indexChunks(chunks: DocumentChunk[]) {
+  /**
+   * Indexes chunk entries. `addedAt` is their document's, so date filters match the same
+   * documents as locally and on Vectorize even after re-chunking.
+   */
+  async indexChunks(chunks: DocumentChunk[], documents: Document[] = []) {
+    const addedAt = new Map(documents.map(doc => [doc.id, doc.addedAt]))
     const searchDocs = chunks.map((chunk) => ({
       '@search.action': 'mergeOrUpload',
       id: chunk.id,
@@ -227,7 +238,7 @@ export class AzureSearchService {
       chunkIndex: chunk.chunkIndex,
       sourceType: chunk.metadata.parentDocument.sourceType,
       sourceUrl: chunk.metadata.parentDocument.sourceUrl,
-      addedAt: chunk.createdAt,
+      addedAt: addedAt.get(chunk.documentId) ?? chunk.createdAt,
       embedding: chunk.embedding,
     }))
 
@@ -287,8 +298,8 @@ export class AzureSearchService {
     filter?: string,
     options?: { timeoutMs?: number }
   ): Promise<SearchResult[]> {
-    if (!queryEmbedding || queryEmbedding.length !== EMBEDDING_DIMENSION) {
-      throw new Error(`Query embedding must be a ${EMBEDDING_DIMENSION}-dimensional vector`)
+    if (!queryEmbedding || queryEmbedding.length !== this.embeddingDimension) {
+      throw new Error(`Query embedding must be a ${this.embeddingDimension}-dimensional vector`)
     }
 
     const searchBody = {
@@ -335,8 +346,8 @@ export class AzureSearchService {
       queryLanguage?: string
     }
   ): Promise<SearchResult[]> {
-    if (!queryEmbedding || queryEmbedding.length !== EMBEDDING_DIMENSION) {
-      throw new Error(`Query embedding must be a ${EMBEDDING_DIMENSION}-dimensional vector`)
+    if (!queryEmbedding || queryEmbedding.length !== this.embeddingDimension) {
+      throw new Error(`Query embedding must be a ${this.embeddingDimension}-dimensional vector`)
     }
 
     const searchBody: any = {
@@ -0,0 +1,406 @@
+import { DocumentChunk } from './types'
+import { runtime } from './runtime/manager'
+import { getMany, kbStorage, listKeys, StorageKeys } from './kb-storage'
+import { updateWithRetry } from './runtime/versioning'
+import { KeyValueStore } from './runtime/interfaces'
+
+/**
+ * BM25 keyword index
+ * A persisted inverted index per knowledge base, scored with BM25. Text is lower-cased, split
+ * on letters and digits, stripped of stop-words and stemmed. Each chunk has two fields, its
+ * text and its title (document title plus section path), and title terms count `titleBoost`
+ * times. The index follows the KB storage layout: one segment per document
+ * (`kb:<kbId>:bm25:<docId>`, the postings of that document's chunks) plus corpus statistics
+ * (`kb:<kbId>:bm25`), so indexing a document rewrites only its own segment. Which documents
+ * contain each term is kept in BM25_TERM_SHARDS shards (`kb:<kbId>:bm25:terms:<n>`, terms
+ * assigned by hash), so a search reads the shards and segments of its query terms only.
+ */
+
+export interface BM25Options {
+  /** Term-frequency saturation */
+  k1: number
+  /** Length normalization, 0 (none) to 1 (full) */
+  b: number
+  /** Weight of a title term relative to a body term */
+  titleBoost: number
+}
+
+export const DEFAULT_BM25_OPTIONS: BM25Options = {
+  k1: 1.2,
+  b: 0.75,
+  titleBoost: 2,
+}
+
+/** Postings of one document's chunks */
+export interface BM25Segment {
+  documentId: string
+  chunkIds: string[]
+  /** Weighted length (body terms plus boosted title terms) per chunk */
+  lengths: number[]
+  /** term -> [chunk position, weighted term frequency] */
+  postings: Record<string, Array<[number, number]>>
+}
+
+/** Corpus statistics; BM25 treats every chunk as a document */
+export interface BM25Stats {
+  chunkCount: number
+  totalLength: number
+  /** Number of chunks containing each term */
+  documentFrequency: Record<string, number>
+  /** Number of term shards the index was built with; absent in indexes built before shards existed */
+  termShards?: number
+}
+
+/** term -> ids of the documents whose segment contains it, for the terms hashed to one shard */
+export type BM25TermShard = Record<string, string[]>
+
+export const BM25_TERM_SHARDS = 32
+
+export interface BM25Field {
+  id: string
+  title: string
+  body: string
+}
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she',
+  'so', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this',
+  'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would',
+  'you', 'your',
+])
+
+// Tried in order; the first suffix that leaves a stem of at least MIN_STEM_LENGTH applies.
+// Entries that map a suffix to itself protect endings such as "-ss" and "-us" from later rules.
+const SUFFIX_RULES: Array<[string, string]> = [
+  ['ational', 'ate'], ['ization', 'ize'], ['fulness', 'ful'], ['iveness', 'ive'],
+  ['ations', ''], ['ation', ''], ['ements', ''], ['ement', ''], ['ments', ''], ['ment', ''], ['ness', ''],
+  ['ingly', ''], ['edly', ''], ['ings', ''], ['ing', ''], ['ies', 'y'], ['ied', 'y'],
+  ['sses', 'ss'], ['ss', 'ss'], ['us', 'us'], ['is', 'is'], ['ed', ''], ['ly', ''], ['es', ''], ['s', ''],
+]
+
+const MIN_STEM_LENGTH = 3
+
+/**
+ * Light suffix-stripping stemmer (a subset of Porter's rules): enough to match plurals and
+ * common verb forms ("indexes"/"indexing"/"indexed" -> "index"), not a full morphology.
+ */
+export function stem(word: string): string {
+  let stemmed = word
+  for (const [suffix, replacement] of SUFFIX_RULES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      stemmed = word.slice(0, -suffix.length) + replacement
+      // "stopped" -> "stopp" -> "stop", "running" -> "runn" -> "run"
+      if ((suffix === 'ed' || suffix === 'ing') && /([^aeiouslz])\1$/.test(stemmed)) {
+        stemmed = stemmed.slice(0, -1)
+      }
+      break
+    }
+  }
+  // "cache"/"caches" and "configure"/"configuration" meet without the silent e
+  return stemmed.length > MIN_STEM_LENGTH && stemmed.endsWith('e') ? stemmed.slice(0, -1) : stemmed
+}
+
+/** Index terms of a text: lower-cased letter/digit runs without stop-words, stemmed */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+  return words
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem)
+}
+
+function countTerms(tokens: string[], weight: number, into: Map<string, number>) {
+  for (const token of tokens) {
+    into.set(token, (into.get(token) || 0) + weight)
+  }
+}
+
+/** Builds the postings of one document's chunks */
+export function buildSegment(
+  documentId: string,
+  fields: BM25Field[],
+  options: BM25Options = DEFAULT_BM25_OPTIONS
+): BM25Segment {
+  const segment: BM25Segment = { documentId, chunkIds: [], lengths: [], postings: {} }
+
+  fields.forEach((field, position) => {
+    const body = tokenize(field.body)
+    const title = tokenize(field.title)
+    const frequencies = new Map<string, number>()
+    countTerms(body, 1, frequencies)
+    countTerms(title, options.titleBoost, frequencies)
+
+    segment.chunkIds.push(field.id)
+    segment.lengths.push(body.length + title.length * options.titleBoost)
+    for (const [term, frequency] of frequencies) {
+      (segment.postings[term] ||= []).push([position, frequency])
+    }
+  })
+
+  return segment
+}
+
+/** Adds (`sign` 1) or removes (`sign` -1) a segment's contribution to the corpus statistics */
+function applySegment(stats: BM25Stats, segment: BM25Segment, sign: 1 | -1): BM25Stats {
+  const documentFrequency = { ...stats.documentFrequency }
+  for (const [term, postings] of Object.entries(segment.postings)) {
+    const count = (documentFrequency[term] || 0) + sign * postings.length
+    if (count > 0) documentFrequency[term] = count
+    else delete documentFrequency[term]
+  }
+
+  return {
+    ...stats,
+    chunkCount: Math.max(0, stats.chunkCount + sign * segment.chunkIds.length),
+    totalLength: Math.max(0, stats.totalLength + sign * segment.lengths.reduce((sum, length) => sum + length, 0)),
+    documentFrequency,
+  }
+}
+
+function emptyStats(): BM25Stats {
+  return { chunkCount: 0, totalLength: 0, documentFrequency: {}, termShards: BM25_TERM_SHARDS }
+}
+
+/** Shard of a term (FNV-1a hash) */
+function termShard(term: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) % BM25_TERM_SHARDS
+}
+
+/** Groups terms by shard */
+function termsByShard(terms: Iterable<string>): Map<number, string[]> {
+  const shards = new Map<number, string[]>()
+  for (const term of terms) {
+    const shard = termShard(term)
+    shards.set(shard, [...(shards.get(shard) || []), term])
+  }
+  return shards
+}
+
+/** Moves `documentId` out of the entries of `removed` terms and into those of `added` terms */
+function updateShard(shard: BM25TermShard, documentId: string, removed: string[], added: string[]): BM25TermShard {
+  const next = { ...shard }
+  for (const term of removed) {
+    const documents = (next[term] || []).filter(id => id !== documentId)
+    if (documents.length > 0) next[term] = documents
+    else delete next[term]
+  }
+  for (const term of added) {
+    next[term] = [...(next[term] || []).filter(id => id !== documentId), documentId]
+  }
+  return next
+}
+
+// Rebuilds in progress per store and knowledge base, so concurrent callers share one
+const rebuilds = new WeakMap<KeyValueStore, Map<string, Promise<BM25Stats>>>()
+
+/** Scores the chunks of `segments` against the query terms, best first */
+export function scoreSegments(
+  queryTerms: string[],
+  segments: BM25Segment[],
+  stats: BM25Stats,
+  options: BM25Options = DEFAULT_BM25_OPTIONS
+): Array<{ chunkId: string; documentId: string; score: number }> {
+  if (stats.chunkCount === 0) return []
+
+  const averageLength = stats.totalLength / stats.chunkCount || 1
+  const terms = Array.from(new Set(queryTerms))
+  const results: Array<{ chunkId: string; documentId: string; score: number }> = []
+
+  for (const segment of segments) {
+    const scores = new Map<number, number>()
+
+    for (const term of terms) {
+      const postings = segment.postings[term]
+      if (!postings) continue
+
+      const df = stats.documentFrequency[term] || postings.length
+      const idf = Math.log(1 + (stats.chunkCount - df + 0.5) / (df + 0.5))
+      for (const [position, frequency] of postings) {
+        const norm = options.k1 * (1 - options.b + options.b * segment.lengths[position] / averageLength)
+        scores.set(position, (scores.get(position) || 0) + idf * (frequency * (options.k1 + 1)) / (frequency + norm))
+      }
+    }
+
+    for (const [position, score] of scores) {
+      results.push({ chunkId: segment.chunkIds[position], documentId: segment.documentId, score })
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score)
+}
+
+/** BM25 over an in-memory collection, for documents without a persisted index */
+export function rankBM25(
+  query: string,
+  fields: BM25Field[],
+  options: BM25Options = DEFAULT_BM25_OPTIONS
+): Array<{ id: string; score: number }> {
+  const segments = fields.map(field => buildSegment(field.id, [field], options))
+  const stats = segments.reduce((current, segment) => applySegment(current, segment, 1), emptyStats())
+  return scoreSegments(tokenize(query), segments, stats, options).map(r => ({ id: r.chunkId, score: r.score }))
+}
+
+/** The fields of a stored chunk: its text, and its document title with the section path */
+export function chunkFields(chunk: DocumentChunk): BM25Field {
+  const title = [chunk.metadata.parentDocument.title, ...(chunk.metadata.sectionPath || [])].join(' ')
+  return { id: chunk.id, title, body: chunk.text }
+}
+
+export class BM25Index {
+  constructor(private options: BM25Options = DEFAULT_BM25_OPTIONS) {}
+
+  /** Replaces the postings of a document with those of `chunks` */
+  async indexDocument(knowledgeBaseId: string, documentId: string, chunks: DocumentChunk[]): Promise<void> {
+    await this.ensureIndex(knowledgeBaseId)
+    await this.replaceSegment(knowledgeBaseId, documentId, chunks)
+  }
+
+  async removeDocument(knowledgeBaseId: string, documentId: string): Promise<void> {
+    await this.ensureIndex(knowledgeBaseId)
+    await this.replaceSegment(knowledgeBaseId, documentId, [])
+  }
+
+  async removeKnowledgeBase(knowledgeBaseId: string): Promise<void> {
+    // Statistics first: searches treat an index without them as missing
+    await runtime.kv.delete(StorageKeys.bm25Stats(knowledgeBaseId))
+    const shardKeys = Array.from({ length: BM25_TERM_SHARDS }, (_, shard) => StorageKeys.bm25TermShard(knowledgeBaseId, shard))
+    for (const key of new Set([...await this.segmentKeys(knowledgeBaseId), ...shardKeys])) {
+      await runtime.kv.delete(key)
+    }
+  }
+
+  async search(
+    knowledgeBaseId: string,
+    query: string,
+    topK: number = 5
+  ): Promise<Array<{ chunkId: string; documentId: string; score: number }>> {
+    const queryTerms = tokenize(query)
+    if (queryTerms.length === 0) return []
+
+    const stats = await runtime.kv.get<BM25Stats>(StorageKeys.bm25Stats(knowledgeBaseId))
+    if (stats?.termShards !== BM25_TERM_SHARDS) {
+      // Building the index reads and writes every document; keep that out of the query
+      runtime.waitUntil(this.rebuild(knowledgeBaseId).catch(error => console.warn('BM25 index rebuild failed', error)))
+      return (await this.searchStoredChunks(knowledgeBaseId, queryTerms)).slice(0, topK)
+    }
+
+    const byShard = termsByShard(new Set(queryTerms))
+    const shards = await getMany<BM25TermShard>(
+      Array.from(byShard.keys(), shard => StorageKeys.bm25TermShard(knowledgeBaseId, shard))
+    )
+    const documentIds = new Set(shards.flatMap(shard => queryTerms.flatMap(term => shard[term] || [])))
+    const segments = await getMany<BM25Segment>(
+      Array.from(documentIds, documentId => StorageKeys.bm25Segment(knowledgeBaseId, documentId))
+    )
+    return scoreSegments(queryTerms, segments, stats, this.options).slice(0, topK)
+  }
+
+  /**
+   * Rebuilds the whole index from stored chunks. Concurrent calls for the same knowledge base
+   * share one rebuild.
+   */
+  rebuild(knowledgeBaseId: string): Promise<BM25Stats> {
+    const kv = runtime.kv
+    let running = rebuilds.get(kv)
+    if (!running) {
+      running = new Map()
+      rebuilds.set(kv, running)
+    }
+
+    let rebuild = running.get(knowledgeBaseId)
+    if (!rebuild) {
+      rebuild = this.buildIndex(knowledgeBaseId).finally(() => running!.delete(knowledgeBaseId))
+      running.set(knowledgeBaseId, rebuild)
+    }
+    return rebuild
+  }
+
+  private async buildIndex(knowledgeBaseId: string): Promise<BM25Stats> {
+    await this.removeKnowledgeBase(knowledgeBaseId)
+
+    let stats = emptyStats()
+    const shards = new Map<number, BM25TermShard>()
+    const index = await kbStorage.getIndex(knowledgeBaseId)
+    for (const documentId of Object.keys(index.chunkCounts)) {
+      const chunks = await kbStorage.getDocumentChunks(knowledgeBaseId, documentId)
+      if (chunks.length === 0) continue
+
+      const segment = buildSegment(documentId, chunks.map(chunkFields), this.options)
+      await runtime.kv.set(StorageKeys.bm25Segment(knowledgeBaseId, documentId), segment)
+      stats = applySegment(stats, segment, 1)
+      for (const [shard, terms] of termsByShard(Object.keys(segment.postings))) {
+        shards.set(shard, updateShard(shards.get(shard) || {}, documentId, [], terms))
+      }
+    }
+
+    for (const [shard, terms] of shards) {
+      await runtime.kv.set(StorageKeys.bm25TermShard(knowledgeBaseId, shard), terms)
+    }
+    // Written last, so an interrupted rebuild leaves the index missing rather than partial
+    await runtime.kv.set(StorageKeys.bm25Stats(knowledgeBaseId), stats)
+    return stats
+  }
+
+  /** Knowledge bases chunked before the index (or its term shards) existed are indexed on first write */
+  private async ensureIndex(knowledgeBaseId: string): Promise<BM25Stats> {
+    const stats = await runtime.kv.get<BM25Stats>(StorageKeys.bm25Stats(knowledgeBaseId))
+    return stats?.termShards === BM25_TERM_SHARDS ? stats : this.rebuild(knowledgeBaseId)
+  }
+
+  /** Scores the stored chunks in memory, for searches while the index is being built */
+  private async searchStoredChunks(
+    knowledgeBaseId: string,
+    queryTerms: string[]
+  ): Promise<Array<{ chunkId: string; documentId: string; score: number }>> {
+    const byDocument = new Map<string, DocumentChunk[]>()
+    for (const chunk of await kbStorage.getKnowledgeBaseChunks(knowledgeBaseId)) {
+      byDocument.set(chunk.documentId, [...(byDocument.get(chunk.documentId) || []), chunk])
+    }
+
+    const segments = Array.from(byDocument, ([documentId, chunks]) => buildSegment(documentId, chunks.map(chunkFields), this.options))
+    const stats = segments.reduce((current, segment) => applySegment(current, segment, 1), emptyStats())
+    return scoreSegments(queryTerms, segments, stats, this.options)
+  }
+
+  private async replaceSegment(knowledgeBaseId: string, documentId: string, chunks: DocumentChunk[]): Promise<void> {
+    const key = StorageKeys.bm25Segment(knowledgeBaseId, documentId)
+    const previous = await runtime.kv.get<BM25Segment>(key)
+    const segment = chunks.length > 0 ? buildSegment(documentId, chunks.map(chunkFields), this.options) : null
+
+    if (segment) await runtime.kv.set(key, segment)
+    else if (previous) await runtime.kv.delete(key)
+
+    const previousTerms = new Set(Object.keys(previous?.postings || {}))
+    const terms = new Set(Object.keys(segment?.postings || {}))
+    const removed = termsByShard([...previousTerms].filter(term => !terms.has(term)))
+    const added = termsByShard([...terms].filter(term => !previousTerms.has(term)))
+    for (const shard of new Set([...removed.keys(), ...added.keys()])) {
+      await updateWithRetry<BM25TermShard>(runtime.kv, StorageKeys.bm25TermShard(knowledgeBaseId, shard), current =>
+        updateShard(current ?? {}, documentId, removed.get(shard) || [], added.get(shard) || [])
+      )
+    }
+
+    await updateWithRetry<BM25Stats>(runtime.kv, StorageKeys.bm25Stats(knowledgeBaseId), current => {
+      let stats = current ?? emptyStats()
+      if (previous) stats = applySegment(stats, previous, -1)
+      if (segment) stats = applySegment(stats, segment, 1)
+      return stats
+    })
+  }
+
+  private async segmentKeys(knowledgeBaseId: string): Promise<string[]> {
+    const index = await kbStorage.getIndex(knowledgeBaseId)
+    return listKeys(
+      StorageKeys.bm25SegmentPrefix(knowledgeBaseId),
+      Object.keys(index.chunkCounts).map(id => StorageKeys.bm25Segment(knowledgeBaseId, id))
+    )
+  }
+}
+
+export const bm25Index = new BM25Index()
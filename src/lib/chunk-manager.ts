@@ -1,11 +1,19 @@
-import { DocumentChunk, SourceType } from './types'
-import { chunkAndEmbed, CHUNKING_STRATEGIES, cosineSimilarity } from './chunking'
-import { generateId } from './helpers'
+import { ChunkingOptions, ChunkStrategy, DocumentChunk, SourceType } from './types'
+import { CHUNKING_STRATEGIES, cosineSimilarity, currentEmbeddingModel, embeddingInput, embedTexts, isComparableEmbedding, prepareChunks } from './chunking'
+import { resolveChunkingOptions } from './recursive-chunker'
+import { contentHash } from './helpers'
 import { runtime } from './runtime/manager'
+import { kbStorage } from './kb-storage'
+import { EmbeddingProgress } from './embedding-pipeline'
+import { bm25Index } from './bm25-index'
 
 export class ChunkManager {
-  private static STORAGE_KEY_PREFIX = 'chunks'
-
+  /**
+   * Chunks a document and replaces its stored chunks. Chunk ids are derived from a hash of
+   * the embedded text, so chunks that did not change keep their id and embedding; only new
+   * chunks are embedded, and chunks that no longer exist are removed from KV and the vector
+   * store.
+   */
   async chunkDocument(
     documentId: string,
     knowledgeBaseId: string,
@@ -13,84 +21,150 @@ export class ChunkManager {
     content: string,
     sourceType: SourceType,
     sourceUrl: string,
-    strategy: 'fixed' | 'sentence' | 'paragraph' | 'semantic' = 'semantic'
+    strategy: ChunkStrategy = 'semantic',
+    options?: Partial<ChunkingOptions>,
+    onProgress?: (progress: EmbeddingProgress) => void
   ): Promise<DocumentChunk[]> {
-    // Use chunking.ts implementation
-    const chunks = await chunkAndEmbed(content, strategy)
-
-    const documentChunks: DocumentChunk[] = chunks.map((chunk, index) => ({
-      id: generateId(),
-      documentId,
-      knowledgeBaseId,
-      chunkIndex: index,
-      text: chunk.text,
-      startIndex: chunk.startIndex,
-      endIndex: chunk.endIndex,
-      tokens: chunk.tokens,
-      embedding: chunk.embedding,
-      metadata: {
-        strategy,
-        parentDocument: {
-          title,
-          sourceType,
-          sourceUrl
-        }
-      },
-      createdAt: Date.now()
-    }))
+    const chunking = CHUNKING_STRATEGIES[strategy].configurable ? resolveChunkingOptions(options) : undefined
+    // GitHub documents are one file each, titled with the repository path
+    const filePath = sourceType === 'github' ? title : undefined
+    const chunks = await prepareChunks(content, strategy, chunking, {
+      documentTitle: title,
+      contextualPrefix: options?.contextualPrefix,
+      filePath
+    })
+
+    const existing = await this.getChunksByDocument(documentId, knowledgeBaseId)
+    const existingById = new Map(existing.map(c => [c.id, c]))
+    // Embeddings are only reused when they come from the knowledge base's current model
+    const embeddingSettings = await kbStorage.getEmbeddingSettings(knowledgeBaseId)
+    const model = currentEmbeddingModel(embeddingSettings.model)
+    const reusable = (id: string) => {
+      const chunk = existingById.get(id)
+      return Boolean(chunk?.embedding?.length && chunk.embeddingModel === model)
+    }
+
+    // Identical chunks within a document get an occurrence suffix to keep ids unique
+    const occurrences = new Map<string, number>()
+    const ids = chunks.map(chunk => {
+      const hash = contentHash(embeddingInput(chunk))
+      const seen = occurrences.get(hash) || 0
+      occurrences.set(hash, seen + 1)
+      return { hash, id: seen === 0 ? `${documentId}-${hash}` : `${documentId}-${hash}-${seen}` }
+    })
+
+    const toEmbed = chunks
+      .map((chunk, index) => ({ chunk, index }))
+      .filter(({ index }) => !reusable(ids[index].id))
+    const embedded = await embedTexts(toEmbed.map(({ chunk }) => embeddingInput(chunk)), onProgress, embeddingSettings)
+    const fresh = new Map(toEmbed.map(({ index }, i) => [index, embedded.embeddings[i]]))
+
+    const documentChunks: DocumentChunk[] = chunks.map((chunk, index) => {
+      const embedding = fresh.get(index) ?? existingById.get(ids[index].id)!.embedding!
+      return {
+        id: ids[index].id,
+        documentId,
+        knowledgeBaseId,
+        chunkIndex: index,
+        text: chunk.text,
+        startIndex: chunk.startIndex,
+        endIndex: chunk.endIndex,
+        tokens: chunk.tokens,
+        embedding,
+        embeddingModel: fresh.has(index) ? embedded.model : model,
+        embeddingDimension: embedding.length,
+        contentHash: ids[index].hash,
+        metadata: {
+          strategy,
+          chunking,
+          sectionPath: chunk.sectionPath?.length ? chunk.sectionPath : undefined,
+          contextPrefix: chunk.contextPrefix,
+          filePath,
+          symbol: chunk.symbol,
+          parentDocument: {
+            title,
+            sourceType,
+            sourceUrl
+          }
+        },
+        createdAt: existingById.get(ids[index].id)?.createdAt ?? Date.now()
+      }
+    })
 
-    // Store chunks
-    await this.saveChunks(knowledgeBaseId, documentChunks)
+    await kbStorage.saveDocumentChunks(knowledgeBaseId, documentId, documentChunks)
+    await bm25Index.indexDocument(knowledgeBaseId, documentId, documentChunks)
 
-    // Upsert into vector store when available
     if (runtime.vectorStore) {
+      const keptIds = new Set(documentChunks.map(c => c.id))
+      // Kept chunks whose vector changed size now belong in another index; drop the old copy first
+      const resizedIds = documentChunks
+        .filter(c => {
+          const previous = existingById.get(c.id)?.embedding
+          return previous?.length && previous.length !== c.embedding?.length
+        })
+        .map(c => c.id)
+      const removedIds = [...existing.map(c => c.id).filter(id => !keptIds.has(id)), ...resizedIds]
+      // New chunks, plus reused ones whose position (stored as vector metadata) moved
+      const changed = documentChunks.filter(c =>
+        c.embedding && c.embedding.length > 0 && (fresh.has(c.chunkIndex) || existingById.get(c.id)?.chunkIndex !== c.chunkIndex)
+      )
+
       try {
-        await runtime.vectorStore.upsert(
-          documentChunks
-            .filter(c => c.embedding && c.embedding.length > 0)
-            .map(c => ({
+        if (removedIds.length > 0) {
+          await runtime.vectorStore.delete(removedIds)
+        }
+        if (changed.length > 0) {
+          await runtime.vectorStore.upsert(
+            changed.map(c => ({
               id: c.id,
               values: c.embedding!,
               metadata: {
                 kbId: knowledgeBaseId,
                 docId: documentId,
                 chunkIndex: c.chunkIndex,
+                embeddingModel: c.embeddingModel,
               }
             }))
-        )
+          )
+        }
       } catch (error) {
-        console.warn('Vector upsert failed; continuing without vector index', error)
+        console.warn('Vector index update failed; continuing without vector index', error)
       }
     }
 
     return documentChunks
   }
 
+  /**
+   * Appends chunks to their documents' chunk lists; only the documents touched are rewritten.
+   */
   async saveChunks(knowledgeBaseId: string, chunks: DocumentChunk[]): Promise<void> {
-    const storageKey = `${ChunkManager.STORAGE_KEY_PREFIX}-${knowledgeBaseId}`
-    const existing = await this.getChunksByKB(knowledgeBaseId)
-    const updated = [...existing, ...chunks]
-    await runtime.kv.set(storageKey, updated)
+    const byDocument = new Map<string, DocumentChunk[]>()
+    for (const chunk of chunks) {
+      byDocument.set(chunk.documentId, [...(byDocument.get(chunk.documentId) || []), chunk])
+    }
+
+    for (const [documentId, documentChunks] of byDocument) {
+      await kbStorage.appendDocumentChunks(knowledgeBaseId, documentId, documentChunks)
+      await bm25Index.indexDocument(knowledgeBaseId, documentId, await this.getChunksByDocument(documentId, knowledgeBaseId))
+    }
   }
 
   async getChunksByKB(knowledgeBaseId: string): Promise<DocumentChunk[]> {
-    const storageKey = `${ChunkManager.STORAGE_KEY_PREFIX}-${knowledgeBaseId}`
-    return await runtime.kv.get<DocumentChunk[]>(storageKey) || []
+    return await kbStorage.getKnowledgeBaseChunks(knowledgeBaseId)
   }
 
   async getChunksByDocument(documentId: string, knowledgeBaseId: string): Promise<DocumentChunk[]> {
-    const chunks = await this.getChunksByKB(knowledgeBaseId)
-    return chunks.filter(c => c.documentId === documentId)
+    return await kbStorage.getDocumentChunks(knowledgeBaseId, documentId)
   }
 
   async deleteChunksByDocument(documentId: string, knowledgeBaseId: string): Promise<void> {
-    const storageKey = `${ChunkManager.STORAGE_KEY_PREFIX}-${knowledgeBaseId}`
-    const chunks = await this.getChunksByKB(knowledgeBaseId)
-    const filtered = chunks.filter(c => c.documentId !== documentId)
-    await runtime.kv.set(storageKey, filtered)
+    const chunks = await this.getChunksByDocument(documentId, knowledgeBaseId)
+    await kbStorage.deleteDocumentChunks(knowledgeBaseId, documentId)
+    await bm25Index.removeDocument(knowledgeBaseId, documentId)
 
     if (runtime.vectorStore) {
-      const idsToDelete = chunks.filter(c => c.documentId === documentId).map(c => c.id)
+      const idsToDelete = chunks.map(c => c.id)
       try {
         await runtime.vectorStore.delete(idsToDelete)
       } catch (error) {
@@ -100,11 +174,12 @@ export class ChunkManager {
   }
 
   async deleteChunksByKB(knowledgeBaseId: string): Promise<void> {
-    const storageKey = `${ChunkManager.STORAGE_KEY_PREFIX}-${knowledgeBaseId}`
-    await runtime.kv.delete(storageKey)
+    // Read the chunk ids before the keys are removed so their vectors can be purged too
+    const chunks = await this.getChunksByKB(knowledgeBaseId)
+    await bm25Index.removeKnowledgeBase(knowledgeBaseId)
+    await kbStorage.deleteKnowledgeBaseChunks(knowledgeBaseId)
 
     if (runtime.vectorStore) {
-      const chunks = await this.getChunksByKB(knowledgeBaseId)
       const idsToDelete = chunks.map(c => c.id)
       try {
         await runtime.vectorStore.delete(idsToDelete)
@@ -114,45 +189,55 @@ export class ChunkManager {
     }
   }
 
+  /**
+   * BM25 keyword search over the knowledge base's chunks (see bm25-index). Scores are
+   * relative to the best hit, so the top result scores 1.
+   */
   async searchChunks(
     query: string,
     knowledgeBaseId: string,
     topK: number = 5
   ): Promise<Array<{ chunk: DocumentChunk; score: number }>> {
-    const chunks = await this.getChunksByKB(knowledgeBaseId)
-
-    // Simple keyword-based scoring
-    const queryTerms = query.toLowerCase().split(/\s+/).filter(t => t.length > 2)
-
-    const scored = chunks.map(chunk => {
-      const text = chunk.text.toLowerCase()
-      let score = 0
-
-      queryTerms.forEach(term => {
-        const count = (text.match(new RegExp(term, 'g')) || []).length
-        score += count * (term.length / 10)
-      })
+    const hits = await bm25Index.search(knowledgeBaseId, query, topK)
+    if (hits.length === 0) return []
 
-      if (text.includes(query.toLowerCase())) {
-        score += 5
+    const chunksById = new Map<string, DocumentChunk>()
+    for (const documentId of new Set(hits.map(hit => hit.documentId))) {
+      for (const chunk of await this.getChunksByDocument(documentId, knowledgeBaseId)) {
+        chunksById.set(chunk.id, chunk)
       }
+    }
 
-      return { chunk, score: Math.min(score / 10, 1) }
-    })
-
-    scored.sort((a, b) => b.score - a.score)
-    return scored.slice(0, topK)
+    const best = hits[0].score
+    return hits
+      .filter(hit => chunksById.has(hit.chunkId))
+      .map(hit => ({ chunk: chunksById.get(hit.chunkId)!, score: hit.score / best }))
   }
 
   async searchChunksWithEmbedding(
     queryEmbedding: number[],
     knowledgeBaseId: string,
-    topK: number = 5
+    topK: number = 5,
+    embeddingModel?: string
   ): Promise<Array<{ chunk: DocumentChunk; score: number }>> {
     const chunks = await this.getChunksByKB(knowledgeBaseId)
+    return this.rankChunksByEmbedding(queryEmbedding, chunks, topK, embeddingModel)
+  }
 
+  /**
+   * Scores chunks by cosine similarity to the query. With `embeddingModel`, chunks embedded by
+   * another model (or of another dimension) are left out, since their scores are meaningless.
+   */
+  rankChunksByEmbedding(
+    queryEmbedding: number[],
+    chunks: DocumentChunk[],
+    topK: number = 5,
+    embeddingModel?: string
+  ): Array<{ chunk: DocumentChunk; score: number }> {
     const scored = chunks
-      .filter(c => c.embedding)
+      .filter(c => embeddingModel
+        ? isComparableEmbedding(c, embeddingModel, queryEmbedding.length)
+        : c.embedding)
       .map(chunk => ({
         chunk,
         score: cosineSimilarity(queryEmbedding, chunk.embedding!)
@@ -1,5 +1,15 @@
-import { EMBEDDING_DIMENSION, MAX_EMBEDDING_TEXT_LENGTH } from './embedding-constants'
+import { EMBEDDING_DIMENSION, MAX_EMBEDDING_TEXT_LENGTH, SIMULATED_EMBEDDING_MODEL } from './embedding-constants'
 import { runtime } from './runtime/manager'
+import { ChunkingOptions, ChunkStrategy, EmbeddingSettings, SourceType } from './types'
+import { countTokens } from './tokenizer'
+import { chunkRecursive, maxChunkLength, reserveForPrefixes } from './recursive-chunker'
+import { chunkSemantic } from './semantic-chunker'
+import { chunkCode } from './code-chunker'
+import { buildContextPrefix, parseHeadings, sectionPathAt } from './heading-outline'
+import { embedBatched, EmbeddingProgress } from './embedding-pipeline'
+
+// Providers that don't name their model
+const UNKNOWN_EMBEDDING_MODEL = 'unknown'
 
 export interface Chunk {
   id: string
@@ -8,15 +18,41 @@ export interface Chunk {
   endIndex: number
   tokens: number
   embedding?: number[]
+  /** Model that produced `embedding` */
+  embeddingModel?: string
+  /** Headings enclosing the chunk start, outermost first */
+  sectionPath?: string[]
+  /** Title and breadcrumb embedded in front of the text, when enabled */
+  contextPrefix?: string
+  /** Declaration the chunk covers, e.g. `Parser.parse` (code chunks) */
+  symbol?: string
+}
+
+export interface ChunkContext {
+  documentTitle?: string
+  /** Embed `documentTitle > section > subsection` with each chunk (default true) */
+  contextualPrefix?: boolean
+  /** Source path; picks the language for the code chunker */
+  filePath?: string
+  /** Called as chunk embeddings complete */
+  onProgress?: (progress: EmbeddingProgress) => void
 }
 
 export interface ChunkingStrategy {
   name: string
   description: string
-  chunk: (text: string) => Chunk[]
+  /** Whether the strategy honours `ChunkingOptions` */
+  configurable?: boolean
+  chunk: (text: string, options?: Partial<ChunkingOptions>, context?: ChunkContext) => Chunk[] | Promise<Chunk[]>
 }
 
 export const CHUNKING_STRATEGIES: Record<string, ChunkingStrategy> = {
+  recursive: {
+    name: 'Recursive (token-aware)',
+    description: 'Split on headings, then paragraphs, sentences and words to fit a token budget',
+    configurable: true,
+    chunk: (text: string, options?: Partial<ChunkingOptions>) => chunkRecursive(text, options),
+  },
   fixed: {
     name: 'Fixed Size',
     description: 'Split text into equal-sized chunks with overlap',
@@ -32,13 +68,33 @@ export const CHUNKING_STRATEGIES: Record<string, ChunkingStrategy> = {
     description: 'Split on paragraph boundaries',
     chunk: (text: string) => chunkByParagraph(text),
   },
+  markdown: {
+    name: 'Markdown Headings',
+    description: 'Split on markdown headings, falling back to paragraphs',
+    chunk: (text: string) => chunkByMarkdownHeadings(text),
+  },
   semantic: {
     name: 'Semantic',
-    description: 'Split based on topic changes and semantic similarity',
-    chunk: (text: string) => chunkBySemantic(text),
+    description: 'Split where sentence embeddings show a topic change',
+    configurable: true,
+    chunk: (text: string, options?: Partial<ChunkingOptions>) => chunkSemantic(text, options),
+  },
+  code: {
+    name: 'Code',
+    description: 'Split source files at function, class and type declarations',
+    configurable: true,
+    chunk: (text: string, options?: Partial<ChunkingOptions>, context?: ChunkContext) => chunkCode(text, options, context?.filePath),
   },
 }
 
+/**
+ * Strategy for newly added documents: extracted PDFs, Word files and web pages have little
+ * reliable structure, so they are cut at topic changes; everything else keeps its headings.
+ */
+export function defaultChunkStrategy(sourceType: SourceType): ChunkStrategy {
+  return sourceType === 'pdf' || sourceType === 'docx' || sourceType === 'web' ? 'semantic' : 'recursive'
+}
+
 function chunkByFixedSize(text: string, chunkSize: number, overlap: number): Chunk[] {
   const chunks: Chunk[] = []
   let startIndex = 0
@@ -53,7 +109,7 @@ function chunkByFixedSize(text: string, chunkSize: number, overlap: number): Chu
       text: chunkText,
       startIndex,
       endIndex,
-      tokens: estimateTokens(chunkText),
+      tokens: countTokens(chunkText),
     })
 
     startIndex += chunkSize - overlap
@@ -77,7 +133,7 @@ function chunkBySentence(text: string, sentencesPerChunk: number): Chunk[] {
       text: chunkText,
       startIndex,
       endIndex: startIndex + chunkText.length,
-      tokens: estimateTokens(chunkText),
+      tokens: countTokens(chunkText),
     })
   }
 
@@ -99,7 +155,7 @@ function chunkByParagraph(text: string): Chunk[] {
       text: trimmedParagraph,
       startIndex,
       endIndex: startIndex + trimmedParagraph.length,
-      tokens: estimateTokens(trimmedParagraph),
+      tokens: countTokens(trimmedParagraph),
     })
 
     currentIndex = startIndex + trimmedParagraph.length
@@ -108,7 +164,7 @@ function chunkByParagraph(text: string): Chunk[] {
   return chunks
 }
 
-function chunkBySemantic(text: string): Chunk[] {
+function chunkByMarkdownHeadings(text: string): Chunk[] {
   const sections = text.split(/\n#{1,3}\s+/).filter((s) => s.trim().length > 0)
   const chunks: Chunk[] = []
   let currentIndex = 0
@@ -127,7 +183,7 @@ function chunkBySemantic(text: string): Chunk[] {
         text: trimmedSection,
         startIndex,
         endIndex: startIndex + trimmedSection.length,
-        tokens: estimateTokens(trimmedSection),
+        tokens: countTokens(trimmedSection),
       })
     }
 
@@ -137,31 +193,70 @@ function chunkBySemantic(text: string): Chunk[] {
   return chunks.length > 0 ? chunks : chunkByParagraph(text)
 }
 
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4)
+export async function generateEmbedding(text: string): Promise<number[]> {
+  return (await embedQuery(text)).embedding
 }
 
-export async function generateEmbedding(text: string): Promise<number[]> {
+/**
+ * Embeds a single text and reports which model produced the vector. `embedding` is the
+ * knowledge base's setting; without it the provider's own model is used.
+ */
+export async function embedQuery(text: string, embedding?: EmbeddingSettings): Promise<{ embedding: number[]; model: string }> {
   // Prefer native embedding provider (Workers AI) when available
   if (runtime.embedder) {
+    const model = currentEmbeddingModel(embedding?.model)
     try {
-      const [vec] = await runtime.embedder.embed([text.substring(0, MAX_EMBEDDING_TEXT_LENGTH)])
-      if (Array.isArray(vec) && vec.length > 0) return vec
+      const [vec] = await runtime.embedder.embed([text.substring(0, MAX_EMBEDDING_TEXT_LENGTH)], model)
+      if (Array.isArray(vec) && vec.length > 0) return { embedding: vec, model }
     } catch (e) {
       console.warn('Embedding provider failed, falling back to simulated embedding', e)
     }
   }
 
   // Fallback to simulated embeddings if no provider available
-  return generateSimulatedEmbedding(text)
+  return { embedding: generateSimulatedEmbedding(text, embedding?.dimension), model: SIMULATED_EMBEDDING_MODEL }
+}
+
+/**
+ * Model the configured provider embeds with: `requested` (a knowledge base's model) when the
+ * provider can switch to it, else the provider's own model; the simulated fallback when there
+ * is no provider.
+ */
+export function currentEmbeddingModel(requested?: string): string {
+  const embedder = runtime.embedder
+  if (!embedder) return SIMULATED_EMBEDDING_MODEL
+  if (requested && (requested === embedder.model || embedder.models?.includes(requested))) return requested
+  return embedder.model || UNKNOWN_EMBEDDING_MODEL
 }
 
-function generateSimulatedEmbedding(text: string): number[] {
+/**
+ * Number of chunks that got simulated embeddings although a provider is configured, i.e. the
+ * provider failed while they were embedded. They stay out of semantic search until re-embedded.
+ */
+export function countFallbackEmbeddings(chunks: Array<{ embeddingModel?: string }>): number {
+  if (!runtime.embedder) return 0
+  return chunks.filter(c => c.embeddingModel === SIMULATED_EMBEDDING_MODEL).length
+}
+
+/**
+ * Whether a stored chunk embedding lives in the same vector space as a query embedding.
+ * Chunks stored before models were recorded may hold simulated vectors of the same dimension,
+ * so like the re-embed job, they are treated as another model's.
+ */
+export function isComparableEmbedding(
+  chunk: { embedding?: number[]; embeddingModel?: string },
+  model: string,
+  dimension: number
+): boolean {
+  return chunk.embedding?.length === dimension && chunk.embeddingModel === model
+}
+
+function generateSimulatedEmbedding(text: string, dimension: number = EMBEDDING_DIMENSION): number[] {
   const hash = simpleHash(text)
   const embedding: number[] = []
 
-  // Use EMBEDDING_DIMENSION dimensions to match the configured Vectorize index
-  for (let i = 0; i < EMBEDDING_DIMENSION; i++) {
+  // Match the knowledge base's dimension so the vectors fit its Vectorize index
+  for (let i = 0; i < dimension; i++) {
     const value = Math.sin(hash * (i + 1)) * Math.cos(hash * (i + 1) * 0.5)
     embedding.push(value)
   }
@@ -227,17 +322,75 @@ export function reduceDimensionsFor2D(embeddings: number[][]): Array<{ x: number
 
 export async function chunkAndEmbed(
   text: string,
-  strategy: keyof typeof CHUNKING_STRATEGIES = 'semantic'
+  strategy: keyof typeof CHUNKING_STRATEGIES = 'semantic',
+  options?: Partial<ChunkingOptions>,
+  context: ChunkContext = {}
+): Promise<Chunk[]> {
+  const chunks = await prepareChunks(text, strategy, options, context)
+  const { embeddings, model } = await embedTexts(chunks.map(embeddingInput), context.onProgress)
+  return chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i], embeddingModel: model }))
+}
+
+/** Chunks `text` and attaches each chunk's section path and context prefix, without embedding */
+export async function prepareChunks(
+  text: string,
+  strategy: keyof typeof CHUNKING_STRATEGIES = 'semantic',
+  options?: Partial<ChunkingOptions>,
+  context: ChunkContext = {}
 ): Promise<Chunk[]> {
   const chunker = CHUNKING_STRATEGIES[strategy]
-  const chunks = chunker.chunk(text)
+  // `#` starts comments, not headings, in most source files
+  const headings = strategy === 'code' ? [] : parseHeadings(text)
+  const prefixOf = (sectionPath: string[]) => context.contextualPrefix === false
+    ? undefined
+    : buildContextPrefix(context.documentTitle, sectionPath)
+  const withPrefixes = (chunks: Chunk[]) => chunks.map(chunk => {
+    const sectionPath = sectionPathAt(headings, chunk.startIndex)
+    const contextPrefix = prefixOf(chunk.symbol ? [...sectionPath, chunk.symbol] : sectionPath)
+    return { ...chunk, sectionPath, contextPrefix }
+  })
+
+  if (!chunker.configurable) {
+    return withPrefixes(await chunker.chunk(text, options, context))
+  }
+
+  // The prefix is embedded in front of each chunk, so chunks leave room for the longest one
+  const prefixes = [prefixOf([]), ...headings.map(heading => prefixOf(sectionPathAt(headings, heading.index)))]
+  const sized = reserveForPrefixes(options, prefixes)
+  const chunks = withPrefixes(await chunker.chunk(text, sized, context))
 
-  const chunksWithEmbeddings = await Promise.all(
-    chunks.map(async (chunk) => ({
-      ...chunk,
-      embedding: await generateEmbedding(chunk.text),
-    }))
-  )
+  // Code symbols are only known after chunking; chunk again if one needs more room
+  const resized = reserveForPrefixes(options, [...prefixes, ...chunks.map(chunk => chunk.contextPrefix)])
+  if (resized.chunkSize < sized.chunkSize || maxChunkLength(resized) < maxChunkLength(sized)) {
+    return withPrefixes(await chunker.chunk(text, resized, context))
+  }
+  return chunks
+}
 
-  return chunksWithEmbeddings
+/** The text actually embedded for a chunk: its context prefix, if any, then the chunk */
+export function embeddingInput(chunk: Pick<Chunk, 'text' | 'contextPrefix'>): string {
+  return chunk.contextPrefix ? `${chunk.contextPrefix}\n\n${chunk.text}` : chunk.text
+}
+
+/**
+ * Embeds through the batched pipeline, falling back to simulated embeddings if it fails.
+ * The returned model id says which of the two happened.
+ */
+export async function embedTexts(
+  inputs: string[],
+  onProgress?: (progress: EmbeddingProgress) => void,
+  embedding?: EmbeddingSettings
+): Promise<{ embeddings: number[][]; model: string }> {
+  const model = currentEmbeddingModel(embedding?.model)
+  try {
+    const embeddings = await embedBatched(inputs, { onProgress, model })
+    return { embeddings, model }
+  } catch (e) {
+    console.warn('Embedding provider failed, falling back to simulated embeddings', e)
+    onProgress?.({ completed: inputs.length, total: inputs.length })
+    return {
+      embeddings: inputs.map(input => generateSimulatedEmbedding(input, embedding?.dimension)),
+      model: SIMULATED_EMBEDDING_MODEL
+    }
+  }
 }
@@ -0,0 +1,270 @@
+import type { Chunk } from './chunking'
+import { ChunkingOptions } from './types'
+import { countTokens } from './tokenizer'
+import { chunkRecursive, maxChunkLength, resolveChunkingOptions } from './recursive-chunker'
+
+/**
+ * Code chunker
+ * Cuts source files at top-level declarations (functions, classes, types, constants) and
+ * keeps each declaration's doc comment and decorators with it. A class that exceeds the
+ * token budget is split again at its members, so each chunk covers one symbol, named in
+ * `Chunk.symbol` (`Parser.parse`). Line-based pattern matching rather than a parser:
+ * fast, dependency-free and good enough for conventionally formatted code.
+ */
+
+export type CodeLanguage = 'typescript' | 'python' | 'go' | 'rust' | 'java'
+
+interface LanguageSpec {
+  extensions: string[]
+  /** Declarations starting at column 0; the `name` group becomes the symbol */
+  declarations: RegExp[]
+  /** Declarations whose body holds members (classes, impl blocks) */
+  container: RegExp
+  /** Indented member declarations used to split oversized containers */
+  members: RegExp[]
+}
+
+// Control-flow keywords that look like method calls to the member patterns
+const NOT_A_MEMBER = /^\s*(if|for|while|switch|catch|return|new|else|do|try|throw|super|this)\b/
+
+const LANGUAGES: Record<CodeLanguage, LanguageSpec> = {
+  typescript: {
+    extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
+    declarations: [
+      /^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\*?\s+(?<name>[\w$]+)/,
+      /^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(?<name>[\w$]+)/,
+      /^(?:export\s+)?(?:declare\s+)?(?:interface|type|enum|namespace)\s+(?<name>[\w$]+)/,
+      /^(?:export\s+)?(?:const|let|var)\s+(?<name>[\w$]+)/,
+    ],
+    container: /\b(?:class|interface|namespace)\s/,
+    members: [
+      /^\s+(?:(?:public|private|protected|static|readonly|async|override|abstract|get|set)\s+)*\*?(?<name>[\w$#]+)\s*(?:<[^>]*>)?\s*\(/,
+      /^\s+(?:(?:public|private|protected|static|readonly)\s+)*(?<name>[\w$#]+)\s*=\s*(?:async\s+)?\(/,
+    ],
+  },
+  python: {
+    extensions: ['.py'],
+    declarations: [
+      /^(?:async\s+)?def\s+(?<name>\w+)/,
+      /^class\s+(?<name>\w+)/,
+    ],
+    container: /^class\s/,
+    members: [/^\s+(?:async\s+)?def\s+(?<name>\w+)/],
+  },
+  go: {
+    extensions: ['.go'],
+    declarations: [
+      /^func\s+(?:\(\s*(?:\w+\s+)?\*?(?<receiver>\w+)[^)]*\)\s*)?(?<name>\w+)/,
+      /^type\s+(?<name>\w+)/,
+      /^(?:var|const)\s+(?<name>\w+)/,
+    ],
+    container: /(?!)/,
+    members: [],
+  },
+  rust: {
+    extensions: ['.rs'],
+    declarations: [
+      /^(?:pub(?:\([^)]*\))?\s+)?(?:(?:async|const|unsafe|extern(?:\s+"[^"]*")?)\s+)*fn\s+(?<name>\w+)/,
+      /^(?:pub(?:\([^)]*\))?\s+)?(?:struct|enum|trait|union|mod|type|const|static)\s+(?<name>\w+)/,
+      /^(?:unsafe\s+)?impl(?:<[^>]*>)?\s+(?:[\w:]+(?:<[^>]*>)?\s+for\s+)?(?<name>\w+)/,
+      /^macro_rules!\s+(?<name>\w+)/,
+    ],
+    container: /\b(?:impl|trait|mod)\b/,
+    members: [/^\s+(?:pub(?:\([^)]*\))?\s+)?(?:(?:async|const|unsafe)\s+)*fn\s+(?<name>\w+)/],
+  },
+  java: {
+    extensions: ['.java', '.cs'],
+    declarations: [
+      /^(?:(?:public|private|protected|internal|abstract|final|static|sealed|partial)\s+)*(?:class|interface|enum|record|struct)\s+(?<name>\w+)/,
+    ],
+    container: /./,
+    members: [
+      /^\s+(?:(?:public|private|protected|internal|static|final|abstract|synchronized|native|override|virtual|async)\s+)*(?:<[^>]+>\s+)?[\w<>[\],.?\s]+?\s+(?<name>\w+)\s*\([^;]*$/,
+      /^\s+(?:(?:public|private|protected|internal)\s+)(?<name>\w+)\s*\(/,
+    ],
+  },
+}
+
+// Comment, decorator and attribute lines that belong to the declaration below them; at the
+// top level they must be unindented (bar a JSDoc ` *`), so a trailing comment inside the
+// previous body stays there
+const LEADING_LINE = /^\s*(\/\/|\/\*|\*|#|@)/
+const TOP_LEVEL_LEADING_LINE = /^ ?(\/\/|\/\*|\*|#|@)/
+
+interface Line {
+  text: string
+  start: number
+}
+
+interface Piece {
+  start: number
+  end: number
+  symbol?: string
+  container?: boolean
+}
+
+export function detectLanguage(path: string | undefined): CodeLanguage | undefined {
+  if (!path) return undefined
+  const extension = path.substring(path.lastIndexOf('.')).toLowerCase()
+  return (Object.keys(LANGUAGES) as CodeLanguage[]).find(language => LANGUAGES[language].extensions.includes(extension))
+}
+
+export function chunkCode(text: string, options?: Partial<ChunkingOptions>, filePath?: string): Chunk[] {
+  const resolved = resolveChunkingOptions(options)
+  const language = detectLanguage(filePath)
+  if (!language) return chunkRecursive(text, resolved)
+
+  const spec = LANGUAGES[language]
+  const lines = splitLines(text)
+  const fits = (piece: Piece) => piece.end - piece.start <= maxChunkLength(resolved)
+    && countTokens(text.slice(piece.start, piece.end)) <= resolved.chunkSize
+
+  const pieces = declarationPieces(text, lines, 0, lines.length, spec, 'top')
+    .flatMap(piece => {
+      if (fits(piece) || !piece.container) return [piece]
+      // An oversized class or impl block: split at its members
+      const first = lines.findIndex(line => line.start >= piece.start)
+      const last = lines.findIndex(line => line.start >= piece.end)
+      const members = declarationPieces(text, lines, first, last === -1 ? lines.length : last, spec, 'member')
+      return members.length > 1
+        ? members.map(member => ({ ...member, symbol: member.symbol ? `${piece.symbol}.${member.symbol}` : piece.symbol }))
+        : [piece]
+    })
+
+  const chunks: Chunk[] = []
+  for (const piece of mergeSmallPieces(text, pieces, resolved, fits)) {
+    const pieceText = text.slice(piece.start, piece.end)
+    if (fits(piece)) {
+      chunks.push(toChunk(pieceText, piece.start, piece.symbol))
+    } else {
+      // Still too large (a very long function): fall back to line-aware splitting
+      chunks.push(...chunkRecursive(pieceText, resolved).map(chunk => toChunk(chunk.text, piece.start + chunk.startIndex, piece.symbol)))
+    }
+  }
+
+  return chunks.map((chunk, index) => ({ ...chunk, id: `chunk-${index}` }))
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = []
+  let start = 0
+  for (const line of text.split('\n')) {
+    lines.push({ text: line, start })
+    start += line.length + 1
+  }
+  return lines
+}
+
+/**
+ * Splits lines [from, to) at declaration lines. Each piece runs from a declaration (plus
+ * the comments and decorators directly above it) to the next one; anything before the
+ * first declaration, such as imports or a class header, becomes its own piece.
+ */
+function declarationPieces(
+  text: string,
+  lines: Line[],
+  from: number,
+  to: number,
+  spec: LanguageSpec,
+  mode: 'top' | 'member'
+): Piece[] {
+  const patterns = mode === 'top' ? spec.declarations : spec.members
+  const leading = mode === 'top' ? TOP_LEVEL_LEADING_LINE : LEADING_LINE
+  const starts: Array<{ line: number; symbol: string; container: boolean }> = []
+  let memberIndent: number | undefined
+
+  for (let i = from; i < to; i++) {
+    const line = lines[i].text
+    if (mode === 'top' && /^\s/.test(line)) continue
+    if (mode === 'member' && (!/^\s/.test(line) || NOT_A_MEMBER.test(line))) continue
+
+    const match = patterns.map(pattern => line.match(pattern)).find(Boolean)
+    if (!match) continue
+
+    // Only split at the shallowest member level, not at functions nested inside methods
+    if (mode === 'member') {
+      const indent = line.length - line.trimStart().length
+      memberIndent ??= indent
+      if (indent !== memberIndent) continue
+    }
+
+    const groups = match.groups || {}
+    starts.push({
+      line: i,
+      symbol: groups.receiver ? `${groups.receiver}.${groups.name}` : groups.name,
+      container: mode === 'top' && spec.container.test(line),
+    })
+  }
+
+  // Pull preceding doc comments, decorators and attributes into each declaration
+  const boundaries = starts.map(({ line, symbol, container }) => {
+    let first = line
+    while (first - 1 >= from && leading.test(lines[first - 1].text) && !starts.some(s => s.line === first - 1)) first--
+    return { line: first, symbol, container }
+  })
+
+  const pieces: Piece[] = []
+  const end = to < lines.length ? lines[to].start : text.length
+  const firstLine = boundaries[0]?.line ?? to
+  if (firstLine > from) {
+    pieces.push({ start: lines[from].start, end: lines[firstLine]?.start ?? end })
+  }
+  boundaries.forEach((boundary, i) => {
+    const next = boundaries[i + 1]
+    pieces.push({
+      start: lines[boundary.line].start,
+      end: next ? lines[next.line].start : end,
+      symbol: boundary.symbol,
+      container: boundary.container,
+    })
+  })
+
+  return pieces.map(piece => trimPiece(text, piece)).filter((piece): piece is Piece => piece !== null)
+}
+
+/** Folds pieces under `minChunkSize` (one-line constants, imports) into a neighbour */
+function mergeSmallPieces(
+  text: string,
+  pieces: Piece[],
+  options: ChunkingOptions,
+  fits: (piece: Piece) => boolean
+): Piece[] {
+  const small = (piece: Piece) => countTokens(text.slice(piece.start, piece.end)) < options.minChunkSize
+  const result: Piece[] = []
+
+  for (const piece of pieces) {
+    const previous = result[result.length - 1]
+    const merged = previous && { start: previous.start, end: piece.end, symbol: joinSymbols(previous.symbol, piece.symbol) }
+
+    if (merged && (small(previous) || small(piece)) && fits(merged)) {
+      result[result.length - 1] = merged
+    } else {
+      result.push(piece)
+    }
+  }
+
+  return result
+}
+
+function joinSymbols(a: string | undefined, b: string | undefined): string | undefined {
+  if (!a || !b) return a || b
+  return `${a}, ${b}`
+}
+
+function trimPiece(text: string, piece: Piece): Piece | null {
+  let { start, end } = piece
+  while (start < end && /\s/.test(text[start]) && text[start] !== ' ' && text[start] !== '\t') start++
+  while (end > start && /\s/.test(text[end - 1])) end--
+  return start < end ? { ...piece, start, end } : null
+}
+
+function toChunk(chunkText: string, startIndex: number, symbol?: string): Chunk {
+  return {
+    id: '',
+    text: chunkText,
+    startIndex,
+    endIndex: startIndex + chunkText.length,
+    tokens: countTokens(chunkText),
+    symbol,
+  }
+}
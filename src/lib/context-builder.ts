@@ -0,0 +1,84 @@
+import { Document } from './types'
+import type { RetrievalResult, RetrievedPassage } from './retrieval-executor'
+import { countTokens, truncateToTokens } from './tokenizer'
+import { formatSectionPath } from './heading-outline'
+
+/**
+ * Context builder
+ * Turns a retrieval result into the numbered source list placed in LLM prompts. Sources
+ * are built from the matched passages rather than the start of each document, and filled
+ * within a token budget: every source first gets its best passage, then the remaining
+ * passages are added in score order until the budget runs out. Documents without passages
+ * (Azure or simulated retrieval) contribute the start of their content instead.
+ * Numbering follows `retrieval.documents`, so `[n]` citations resolve to the same document.
+ */
+
+export interface ContextBuildOptions {
+  /** Token budget for all passage text */
+  maxTokens: number
+  /** Append the retrieval score to each source header */
+  includeScores?: boolean
+}
+
+interface SourceBlock {
+  doc: Document
+  score: number
+  passages: Array<Pick<RetrievedPassage, 'text' | 'startIndex' | 'sectionPath'>>
+}
+
+// Below this, a truncated passage is more noise than help
+const MIN_PASSAGE_TOKENS = 32
+
+export function buildContext(retrieval: Pick<RetrievalResult, 'documents' | 'scores' | 'passages'>, options: ContextBuildOptions): string {
+  const blocks: SourceBlock[] = retrieval.documents.map((doc, i) => ({ doc, score: retrieval.scores[i] ?? 0, passages: [] }))
+  const byDocument = new Map(blocks.map(block => [block.doc.id, block]))
+
+  const candidates = (retrieval.passages || [])
+    .filter(passage => byDocument.has(passage.documentId))
+    .sort((a, b) => b.score - a.score)
+  const covered = new Set(candidates.map(passage => passage.documentId))
+
+  // Best passage of every source first, so a long top document cannot crowd out the rest
+  const firstRound: Array<{ block: SourceBlock; passage: Pick<RetrievedPassage, 'text' | 'startIndex' | 'sectionPath'> }> = []
+  const secondRound: typeof firstRound = []
+  const seen = new Set<string>()
+  for (const passage of candidates) {
+    const block = byDocument.get(passage.documentId)!
+    ;(seen.has(passage.documentId) ? secondRound : firstRound).push({ block, passage })
+    seen.add(passage.documentId)
+  }
+  for (const block of blocks) {
+    if (!covered.has(block.doc.id)) {
+      firstRound.push({ block, passage: { text: block.doc.content, startIndex: 0 } })
+    }
+  }
+  // Keep document order within the first round so higher-ranked sources are filled first
+  firstRound.sort((a, b) => blocks.indexOf(a.block) - blocks.indexOf(b.block))
+
+  let remaining = options.maxTokens
+  for (const { block, passage } of [...firstRound, ...secondRound]) {
+    if (remaining < MIN_PASSAGE_TOKENS) break
+    const tokens = countTokens(passage.text)
+    const text = tokens <= remaining ? passage.text : `${truncateToTokens(passage.text, remaining)}…`
+    block.passages.push({ ...passage, text })
+    remaining -= Math.min(tokens, remaining)
+  }
+
+  return blocks
+    .map((block, i) => ({ block, marker: i + 1 }))
+    .filter(({ block }) => block.passages.length > 0)
+    .map(({ block, marker }) => {
+      const header = options.includeScores
+        ? `[${marker}] ${block.doc.title} (relevance: ${block.score.toFixed(2)})`
+        : `[${marker}] ${block.doc.title}`
+      // Passages from the same document read best in document order
+      const body = [...block.passages]
+        .sort((a, b) => a.startIndex - b.startIndex)
+        .map(passage => passage.sectionPath?.length
+          ? `[Section: ${formatSectionPath(passage.sectionPath)}]\n${passage.text}`
+          : passage.text)
+        .join('\n\n...\n\n')
+      return `${header}\n${body}`
+    })
+    .join('\n\n---\n\n')
+}
@@ -0,0 +1,141 @@
+import { DocumentChunk } from './types'
+import { formatSectionPath } from './heading-outline'
+
+/**
+ * Context expansion (small-to-big retrieval)
+ * Chunks are kept small so they match queries precisely, but a single chunk is often too
+ * little for the model to answer from. Each hit is widened to its neighbouring chunks
+ * (`window`) or to the rest of its heading section (`section`) before it goes into the
+ * prompt, and overlapping passages from the same document are merged.
+ */
+
+export type ContextExpansionMode = 'none' | 'window' | 'section'
+
+export interface ContextExpansionOptions {
+  mode: ContextExpansionMode
+  /** Neighbouring chunks added on each side of a hit (`window` mode) */
+  window: number
+  /** Upper bound on the tokens of a single expanded passage */
+  maxTokens: number
+}
+
+export const DEFAULT_CONTEXT_EXPANSION: ContextExpansionOptions = {
+  mode: 'window',
+  window: 1,
+  maxTokens: 1024,
+}
+
+export interface ExpandedPassage {
+  text: string
+  startIndex: number
+  endIndex: number
+  score: number
+  sectionPath?: string[]
+  /** Ids of the chunks that matched the query, not the ones pulled in as context */
+  chunkIds: string[]
+}
+
+/**
+ * Expands the hits of one document into passages, best-scoring first.
+ * `siblings` are all chunks of the document; `content` is the document text the chunk
+ * offsets point into. Without usable offsets, chunk texts are joined instead.
+ */
+export function expandHits(
+  hits: Array<{ chunk: DocumentChunk; score: number }>,
+  siblings: DocumentChunk[],
+  content: string | undefined,
+  options: Partial<ContextExpansionOptions> = {}
+): ExpandedPassage[] {
+  const settings = { ...DEFAULT_CONTEXT_EXPANSION, ...options }
+  const ordered = [...siblings].sort((a, b) => a.chunkIndex - b.chunkIndex)
+
+  const spans = hits.map(hit => {
+    const position = ordered.findIndex(chunk => chunk.id === hit.chunk.id)
+    const members = settings.mode === 'none' || position === -1
+      ? [hit.chunk]
+      : expandAround(ordered, position, settings)
+    return { members, hits: [hit] }
+  })
+
+  // Merge passages whose chunk ranges overlap or touch
+  spans.sort((a, b) => a.members[0].chunkIndex - b.members[0].chunkIndex)
+  const merged: typeof spans = []
+  for (const span of spans) {
+    const previous = merged[merged.length - 1]
+    if (previous && span.members[0].chunkIndex <= previous.members[previous.members.length - 1].chunkIndex + 1) {
+      const seen = new Set(previous.members.map(chunk => chunk.id))
+      previous.members = [...previous.members, ...span.members.filter(chunk => !seen.has(chunk.id))]
+        .sort((a, b) => a.chunkIndex - b.chunkIndex)
+      previous.hits.push(...span.hits)
+    } else {
+      merged.push({ members: [...span.members], hits: [...span.hits] })
+    }
+  }
+
+  return merged
+    .map(({ members, hits: matched }) => {
+      const best = matched.reduce((a, b) => (b.score > a.score ? b : a))
+      const startIndex = Math.min(...members.map(chunk => chunk.startIndex))
+      const endIndex = Math.max(...members.map(chunk => chunk.endIndex))
+      return {
+        text: content !== undefined && hasValidOffsets(content, members)
+          ? content.slice(startIndex, endIndex)
+          : members.map(chunk => chunk.text).join('\n\n'),
+        startIndex,
+        endIndex,
+        score: best.score,
+        sectionPath: best.chunk.metadata.sectionPath,
+        chunkIds: matched.map(hit => hit.chunk.id),
+      }
+    })
+    .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Neighbours of `ordered[position]` to include, nearest first, within the token budget.
+ * In `section` mode only chunks under the same heading path qualify; a chunk outside any
+ * section falls back to the window.
+ */
+function expandAround(ordered: DocumentChunk[], position: number, options: ContextExpansionOptions): DocumentChunk[] {
+  const hit = ordered[position]
+  const section = hit.metadata.sectionPath?.length ? formatSectionPath(hit.metadata.sectionPath) : undefined
+  const bySection = options.mode === 'section' && section !== undefined
+  const reach = bySection ? ordered.length : Math.max(0, Math.floor(options.window))
+  const qualifies = (chunk: DocumentChunk) => !bySection
+    || (chunk.metadata.sectionPath?.length ? formatSectionPath(chunk.metadata.sectionPath) : undefined) === section
+
+  let first = position
+  let last = position
+  let tokens = hit.tokens
+  let canGrowBefore = true
+  let canGrowAfter = true
+
+  for (let distance = 1; distance <= reach && (canGrowBefore || canGrowAfter); distance++) {
+    for (const side of ['before', 'after'] as const) {
+      const index = side === 'before' ? position - distance : position + distance
+      const open = side === 'before' ? canGrowBefore : canGrowAfter
+      if (!open) continue
+
+      const candidate = ordered[index]
+      const fits = candidate && qualifies(candidate) && tokens + candidate.tokens <= options.maxTokens
+      if (!fits) {
+        // Keep the passage contiguous: once one side stops, it stays stopped
+        if (side === 'before') canGrowBefore = false
+        else canGrowAfter = false
+        continue
+      }
+
+      tokens += candidate.tokens
+      if (side === 'before') first = index
+      else last = index
+    }
+  }
+
+  return ordered.slice(first, last + 1)
+}
+
+/** Chunk offsets still point at the chunk text (the document was not edited since chunking) */
+function hasValidOffsets(content: string, chunks: DocumentChunk[]): boolean {
+  return chunks.every(chunk => chunk.endIndex <= content.length
+    && content.slice(chunk.startIndex, chunk.endIndex) === chunk.text)
+}
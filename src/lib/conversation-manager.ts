@@ -1,5 +1,7 @@
 import { QueryIntent } from './agentic-router'
 import { runtime } from './runtime/manager'
+import { updateWithRetry } from './runtime/versioning'
+import { kbStorage, LegacyStorageKeys, StorageKeys, getMany, listKeys, migrateOnce } from './kb-storage'
 
 export interface Message {
   id: string
@@ -29,11 +31,12 @@ export interface Conversation {
 }
 
 export class ConversationManager {
-  private static STORAGE_KEY = 'conversations'
   static readonly MAX_CONVERSATIONS = 100
   static readonly MAX_MESSAGES_PER_CONVERSATION = 50
 
   async createConversation(knowledgeBaseId: string, initialQuery?: string): Promise<Conversation> {
+    await this.migrateLegacyConversations()
+
     const conversation: Conversation = {
       id: this.generateId(),
       knowledgeBaseId,
@@ -47,15 +50,18 @@ export class ConversationManager {
       }
     }
 
-    const conversations = await this.getAllConversations()
-    conversations.unshift(conversation)
+    await runtime.kv.set(StorageKeys.conversation(conversation.id), conversation)
 
-    // Keep only last MAX_CONVERSATIONS
-    if (conversations.length > ConversationManager.MAX_CONVERSATIONS) {
-      conversations.splice(ConversationManager.MAX_CONVERSATIONS)
+    // Keep only the last MAX_CONVERSATIONS per knowledge base
+    let dropped: string[] = []
+    await kbStorage.updateIndex(knowledgeBaseId, index => {
+      index.conversationIds.unshift(conversation.id)
+      dropped = index.conversationIds.splice(ConversationManager.MAX_CONVERSATIONS)
+    })
+    for (const id of dropped) {
+      await runtime.kv.delete(StorageKeys.conversation(id))
     }
 
-    await runtime.kv.set(ConversationManager.STORAGE_KEY, conversations)
     return conversation
   }
 
@@ -65,14 +71,7 @@ export class ConversationManager {
     content: string,
     metadata?: Message['metadata']
   ): Promise<Conversation> {
-    const conversations = await this.getAllConversations()
-    const conversation = conversations.find(c => c.id === conversationId)
-
-    if (!conversation) {
-      throw new Error('Conversation not found')
-    }
-
-    const isFirstUserMessage = role === 'user' && conversation.metadata.totalQueries === 0
+    await this.migrateLegacyConversations()
 
     const message: Message = {
       id: this.generateId(),
@@ -82,68 +81,88 @@ export class ConversationManager {
       metadata
     }
 
-    conversation.messages.push(message)
-    conversation.updatedAt = Date.now()
+    // Compare-and-swap so concurrent tabs or requests never drop each other's messages
+    const updated = await updateWithRetry<Conversation>(runtime.kv, StorageKeys.conversation(conversationId), conversation => {
+      if (!conversation) {
+        throw new Error('Conversation not found')
+      }
+
+      const isFirstUserMessage = role === 'user' && conversation.metadata.totalQueries === 0
+
+      conversation.messages.push(message)
+      conversation.updatedAt = Date.now()
 
-    if (isFirstUserMessage) {
-      // Rename untitled conversations using the first user message
-      const suggestedTitle = content.trim().slice(0, 60)
-      if (suggestedTitle) {
-        conversation.title = suggestedTitle
+      if (isFirstUserMessage) {
+        // Rename untitled conversations using the first user message
+        const suggestedTitle = content.trim().slice(0, 60)
+        if (suggestedTitle) {
+          conversation.title = suggestedTitle
+        }
       }
-    }
 
-    // Update metadata
-    if (role === 'user') {
-      conversation.metadata.totalQueries++
-    }
-    if (metadata?.confidence) {
-      const { totalQueries, averageConfidence } = conversation.metadata
-      conversation.metadata.averageConfidence =
-        (averageConfidence * (totalQueries - 1) + metadata.confidence) / totalQueries
-    }
-    if (metadata?.intent) {
-      conversation.metadata.lastIntent = metadata.intent
-    }
+      // Update metadata
+      if (role === 'user') {
+        conversation.metadata.totalQueries++
+      }
+      if (metadata?.confidence) {
+        const { totalQueries, averageConfidence } = conversation.metadata
+        conversation.metadata.averageConfidence =
+          (averageConfidence * (totalQueries - 1) + metadata.confidence) / totalQueries
+      }
+      if (metadata?.intent) {
+        conversation.metadata.lastIntent = metadata.intent
+      }
 
-    // Keep only last MAX_MESSAGES
-    if (conversation.messages.length > ConversationManager.MAX_MESSAGES_PER_CONVERSATION) {
-      conversation.messages = conversation.messages.slice(-ConversationManager.MAX_MESSAGES_PER_CONVERSATION)
-    }
+      // Keep only last MAX_MESSAGES
+      if (conversation.messages.length > ConversationManager.MAX_MESSAGES_PER_CONVERSATION) {
+        conversation.messages = conversation.messages.slice(-ConversationManager.MAX_MESSAGES_PER_CONVERSATION)
+      }
 
-    await runtime.kv.set(ConversationManager.STORAGE_KEY, conversations)
-    return conversation
+      return conversation
+    })
+
+    return updated!
   }
 
   async getConversation(conversationId: string): Promise<Conversation | null> {
-    const conversations = await this.getAllConversations()
-    return conversations.find(c => c.id === conversationId) || null
+    await this.migrateLegacyConversations()
+    return await runtime.kv.get<Conversation>(StorageKeys.conversation(conversationId))
   }
 
+  /**
+   * Loads every conversation in the workspace, newest first. Prefer `getConversationsByKB`.
+   */
   async getAllConversations(): Promise<Conversation[]> {
-    return await runtime.kv.get<Conversation[]>(ConversationManager.STORAGE_KEY) || []
+    await this.migrateLegacyConversations()
+    const conversations = await getMany<Conversation>(await listKeys('conversation:'))
+    return conversations.sort((a, b) => b.createdAt - a.createdAt)
   }
 
   async getConversationsByKB(knowledgeBaseId: string): Promise<Conversation[]> {
-    const conversations = await this.getAllConversations()
-    return conversations.filter(c => c.knowledgeBaseId === knowledgeBaseId)
+    await this.migrateLegacyConversations()
+    const index = await kbStorage.getIndex(knowledgeBaseId)
+    return await getMany<Conversation>(index.conversationIds.map(id => StorageKeys.conversation(id)))
   }
 
   async deleteConversation(conversationId: string): Promise<void> {
-    const conversations = await this.getAllConversations()
-    const filtered = conversations.filter(c => c.id !== conversationId)
-    await runtime.kv.set(ConversationManager.STORAGE_KEY, filtered)
+    const conversation = await this.getConversation(conversationId)
+    if (!conversation) return
+
+    await runtime.kv.delete(StorageKeys.conversation(conversationId))
+    await kbStorage.updateIndex(conversation.knowledgeBaseId, index => {
+      index.conversationIds = index.conversationIds.filter(id => id !== conversationId)
+    })
   }
 
   async updateConversationTitle(conversationId: string, title: string): Promise<void> {
-    const conversations = await this.getAllConversations()
-    const conversation = conversations.find(c => c.id === conversationId)
+    await this.migrateLegacyConversations()
+    await updateWithRetry<Conversation>(runtime.kv, StorageKeys.conversation(conversationId), conversation => {
+      if (!conversation) return undefined
 
-    if (conversation) {
       conversation.title = title
       conversation.updatedAt = Date.now()
-      await runtime.kv.set(ConversationManager.STORAGE_KEY, conversations)
-    }
+      return conversation
+    })
   }
 
   getConversationHistory(conversation: Conversation): Array<{ query: string; response: string }> {
@@ -162,6 +181,27 @@ export class ConversationManager {
     return history
   }
 
+  // Splits the legacy `conversations` array (newest first) into per-conversation keys
+  private migrateLegacyConversations(): Promise<void> {
+    return migrateOnce(LegacyStorageKeys.conversations, async () => {
+      const legacy = await runtime.kv.get<Conversation[]>(LegacyStorageKeys.conversations)
+      if (!legacy) return
+
+      const byKB = new Map<string, string[]>()
+      for (const conversation of legacy) {
+        await runtime.kv.set(StorageKeys.conversation(conversation.id), conversation)
+        byKB.set(conversation.knowledgeBaseId, [...(byKB.get(conversation.knowledgeBaseId) || []), conversation.id])
+      }
+      for (const [knowledgeBaseId, ids] of byKB) {
+        await kbStorage.updateIndex(knowledgeBaseId, index => {
+          index.conversationIds = [...index.conversationIds, ...ids.filter(id => !index.conversationIds.includes(id))]
+        })
+      }
+
+      await runtime.kv.delete(LegacyStorageKeys.conversations)
+    })
+  }
+
   private generateId(): string {
     return `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
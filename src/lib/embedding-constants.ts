@@ -1,5 +1,33 @@
+import type { EmbeddingSettings } from './types'
+
 // Shared embedding configuration for the frontend runtime and Cloudflare Worker
 // Ensure the dimension matches the configured Cloudflare Vectorize index
 export const EMBEDDING_DIMENSION = 384
 export const DEFAULT_CF_EMBEDDING_MODEL = '@cf/baai/bge-small-en-v1.5'
 export const MAX_EMBEDDING_TEXT_LENGTH = 2000
+// Recorded on chunks embedded with the hash-based fallback, which has no semantic meaning
+export const SIMULATED_EMBEDDING_MODEL = 'simulated'
+// Input window of the default embedding model, including the [CLS]/[SEP] markers
+export const MAX_EMBEDDING_TOKENS = 512
+// Most texts Workers AI embeds in a single request
+export const MAX_EMBEDDING_BATCH_SIZE = 100
+
+/**
+ * Workers AI embedding models a knowledge base can use. Each dimension needs its own
+ * Vectorize index (see the Vectorize bindings in wrangler.toml).
+ */
+export const EMBEDDING_MODELS: Array<{ id: string; label: string; dimension: number }> = [
+  { id: DEFAULT_CF_EMBEDDING_MODEL, label: 'BGE Small (English)', dimension: EMBEDDING_DIMENSION },
+  { id: '@cf/baai/bge-base-en-v1.5', label: 'BGE Base (English)', dimension: 768 },
+  { id: '@cf/baai/bge-large-en-v1.5', label: 'BGE Large (English)', dimension: 1024 },
+  { id: '@cf/baai/bge-m3', label: 'BGE M3 (multilingual)', dimension: 1024 },
+]
+
+export const DEFAULT_EMBEDDING_SETTINGS: EmbeddingSettings = { model: DEFAULT_CF_EMBEDDING_MODEL, dimension: EMBEDDING_DIMENSION }
+
+/** A knowledge base's embedding settings, defaulting to the model every KB used before they were configurable */
+export function resolveEmbeddingSettings(settings?: Partial<EmbeddingSettings>): EmbeddingSettings {
+  if (!settings?.model) return { ...DEFAULT_EMBEDDING_SETTINGS }
+  const known = EMBEDDING_MODELS.find(m => m.id === settings.model)
+  return { model: settings.model, dimension: settings.dimension ?? known?.dimension ?? EMBEDDING_DIMENSION }
+}
@@ -0,0 +1,92 @@
+import { EmbeddingProvider } from './runtime/interfaces'
+import { runtime } from './runtime/manager'
+import { MAX_EMBEDDING_TEXT_LENGTH } from './embedding-constants'
+
+/**
+ * Embedding pipeline
+ * Embeds many texts without stampeding the provider: texts are sent in batches (one
+ * request per batch), at most `concurrency` batches are in flight, and a failed batch is
+ * retried with exponential backoff before the whole run fails. Progress is reported per
+ * completed batch so long ingestions can show it.
+ */
+
+export interface EmbeddingProgress {
+  completed: number
+  total: number
+}
+
+export interface EmbeddingPipelineOptions {
+  batchSize: number
+  concurrency: number
+  /** Attempts after the first before a batch is given up on */
+  maxRetries: number
+  /** Delay before the first retry; doubles with every attempt */
+  retryDelayMs: number
+  /** Model to ask the provider for; its own model when unset */
+  model?: string
+  onProgress?: (progress: EmbeddingProgress) => void
+}
+
+export const DEFAULT_EMBEDDING_PIPELINE_OPTIONS: EmbeddingPipelineOptions = {
+  batchSize: 32,
+  concurrency: 2,
+  maxRetries: 3,
+  retryDelayMs: 500,
+}
+
+export async function embedBatched(
+  texts: string[],
+  options: Partial<EmbeddingPipelineOptions> = {},
+  embedder: EmbeddingProvider | undefined = runtime.embedder
+): Promise<number[][]> {
+  if (!embedder) throw new Error('No embedding provider configured')
+
+  const settings = { ...DEFAULT_EMBEDDING_PIPELINE_OPTIONS, ...options }
+  const batchSize = Math.max(1, Math.floor(settings.batchSize))
+  const batches: string[][] = []
+  for (let i = 0; i < texts.length; i += batchSize) {
+    batches.push(texts.slice(i, i + batchSize).map(text => text.substring(0, MAX_EMBEDDING_TEXT_LENGTH)))
+  }
+
+  const results: number[][][] = new Array(batches.length)
+  let completed = 0
+  let next = 0
+  settings.onProgress?.({ completed, total: texts.length })
+
+  // Each worker takes the next pending batch until none are left
+  const worker = async () => {
+    while (next < batches.length) {
+      const index = next++
+      results[index] = await embedWithRetry(batches[index], embedder, settings)
+      completed += batches[index].length
+      settings.onProgress?.({ completed, total: texts.length })
+    }
+  }
+
+  const concurrency = Math.min(Math.max(1, Math.floor(settings.concurrency)), batches.length)
+  await Promise.all(Array.from({ length: concurrency }, worker))
+
+  return results.flat()
+}
+
+async function embedWithRetry(
+  batch: string[],
+  embedder: EmbeddingProvider,
+  options: EmbeddingPipelineOptions
+): Promise<number[][]> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const embeddings = await embedder.embed(batch, options.model)
+      if (embeddings.length !== batch.length || embeddings.some(vector => !Array.isArray(vector) || vector.length === 0)) {
+        throw new Error(`Expected ${batch.length} embeddings, got ${embeddings.length}`)
+      }
+      return embeddings
+    } catch (error) {
+      if (attempt >= options.maxRetries) throw error
+      // Jitter keeps concurrent batches from retrying in lockstep
+      const delay = options.retryDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5)
+      console.warn(`Embedding batch failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms`, error)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { FusionOptions } from './types'
+
+/**
+ * Rank fusion
+ * Combines rankings whose scores live on different scales (cosine similarities, BM25, Azure
+ * scores). Weighted fusion normalizes each list (min-max or z-score) and blends the results
+ * by weight; reciprocal rank fusion ignores scores and sums `weight / (k + rank)`. Either way
+ * the fused scores are rescaled so the best result scores 1.
+ */
+
+export interface RankedList {
+  ids: string[]
+  scores: number[]
+  /** Relative weight of this list; defaults to 1 */
+  weight?: number
+}
+
+export const DEFAULT_FUSION_OPTIONS: FusionOptions = {
+  method: 'weighted',
+  normalization: 'minmax',
+  semanticWeight: 0.6,
+  rrfK: 60,
+}
+
+/** Fills in defaults and clamps values to their valid ranges */
+export function resolveFusionOptions(options?: Partial<FusionOptions>): FusionOptions {
+  const merged = { ...DEFAULT_FUSION_OPTIONS, ...options }
+  const semanticWeight = Number.isFinite(merged.semanticWeight) ? merged.semanticWeight : DEFAULT_FUSION_OPTIONS.semanticWeight
+
+  return {
+    method: merged.method === 'rrf' ? 'rrf' : 'weighted',
+    normalization: merged.normalization === 'zscore' ? 'zscore' : 'minmax',
+    semanticWeight: Math.min(Math.max(semanticWeight, 0), 1),
+    rrfK: Math.max(Math.round(merged.rrfK) || DEFAULT_FUSION_OPTIONS.rrfK, 1),
+  }
+}
+
+/** Min-max to [0, 1] (all 1 when the scores are equal) or z-scores (all 0 when they are equal) */
+export function normalizeScores(scores: number[], method: FusionOptions['normalization']): number[] {
+  if (scores.length === 0) return []
+
+  if (method === 'zscore') {
+    const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length
+    const deviation = Math.sqrt(scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length)
+    return scores.map(s => deviation > 0 ? (s - mean) / deviation : 0)
+  }
+
+  const min = Math.min(...scores)
+  const max = Math.max(...scores)
+  return scores.map(s => max > min ? (s - min) / (max - min) : 1)
+}
+
+/**
+ * Fuses ranked lists into one ranking, best first. In weighted fusion an id missing from a
+ * list ranks below everything the list kept: it scores 0 under min-max, and one standard
+ * deviation below the list's lowest z-score. (A one-hit list normalizes to 1 or 0, so using
+ * the lowest kept score would let absent ids tie with the hit.)
+ */
+export function fuseRankings(
+  lists: RankedList[],
+  options: Pick<FusionOptions, 'method' | 'normalization' | 'rrfK'>
+): Array<{ id: string; score: number }> {
+  const fused = new Map<string, number>()
+  const ids = new Set(lists.flatMap(list => list.ids))
+
+  if (options.method === 'rrf') {
+    for (const list of lists) {
+      list.ids.forEach((id, rank) => {
+        fused.set(id, (fused.get(id) || 0) + (list.weight ?? 1) / (options.rrfK + rank + 1))
+      })
+    }
+  } else {
+    for (const list of lists) {
+      const normalized = normalizeScores(list.scores.slice(0, list.ids.length), options.normalization)
+      const floor = options.normalization === 'zscore' && normalized.length > 0 ? Math.min(...normalized) - 1 : 0
+      const byId = new Map(list.ids.map((id, i) => [id, normalized[i] ?? floor]))
+      for (const id of ids) {
+        fused.set(id, (fused.get(id) || 0) + (list.weight ?? 1) * (byId.get(id) ?? floor))
+      }
+    }
+  }
+
+  const ranked = Array.from(fused, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score)
+  return rescale(ranked)
+}
+
+/** Maps fused scores to [0, 1] with the best at 1; z-score blends can be negative */
+function rescale(ranked: Array<{ id: string; score: number }>): Array<{ id: string; score: number }> {
+  if (ranked.length === 0) return ranked
+
+  const max = ranked[0].score
+  const min = ranked[ranked.length - 1].score
+  if (min >= 0) {
+    return ranked.map(r => ({ id: r.id, score: max > 0 ? r.score / max : 0 }))
+  }
+  return ranked.map(r => ({ id: r.id, score: max > min ? (r.score - min) / (max - min) : 1 }))
+}
@@ -1,4 +1,5 @@
 import { Document as DocType } from './types'
+import { detectLanguage } from './code-chunker'
 
 export interface GitHubFile {
   path: string
@@ -190,8 +191,14 @@ function shouldIncludeFile(path: string): boolean {
   return SUPPORTED_EXTENSIONS.includes(extension)
 }
 
+/**
+ * One document per file, so each file keeps its own path, language and chunk boundaries.
+ * Source files in a supported language use the code chunker; prose and config files use
+ * the recursive one.
+ */
 export function convertRepoToDocuments(repoContent: RepoContent, repoUrl: string): Omit<DocType, 'id' | 'addedAt' | 'knowledgeBaseId'>[] {
   const documents: Omit<DocType, 'id' | 'addedAt' | 'knowledgeBaseId'>[] = []
+  const repo = parseGitHubUrl(repoUrl)
 
   if (repoContent.readme) {
     documents.push({
@@ -203,46 +210,29 @@ export function convertRepoToDocuments(repoContent: RepoContent, repoUrl: string
         size: repoContent.readme.length,
         lastModified: Date.now(),
       },
+      chunkStrategy: 'recursive',
     })
   }
 
-  const filesByDir = groupFilesByDirectory(repoContent.files)
-
-  for (const [dir, files] of Object.entries(filesByDir)) {
-    const combinedContent = files
-      .map((file) => {
-        const extension = file.path.substring(file.path.lastIndexOf('.'))
-        return `## ${file.path}\n\n\`\`\`${extension.substring(1)}\n${file.content}\n\`\`\``
-      })
-      .join('\n\n')
+  for (const file of repoContent.files) {
+    // The README was fetched above
+    if (repoContent.readme && /^readme(\.\w+)?$/i.test(file.path)) continue
 
+    const language = detectLanguage(file.path)
     documents.push({
-      title: dir === '.' ? 'Root Files' : dir,
-      content: combinedContent,
+      title: file.path,
+      content: file.content,
       sourceType: 'github',
-      sourceUrl: repoUrl,
+      sourceUrl: repo ? `https://github.com/${repo.owner}/${repo.repo}/blob/${repo.branch || 'main'}/${file.path}` : repoUrl,
       metadata: {
-        size: combinedContent.length,
+        size: file.size,
         lastModified: Date.now(),
+        filePath: file.path,
+        language,
       },
+      chunkStrategy: language ? 'code' : 'recursive',
     })
   }
 
   return documents
 }
-
-function groupFilesByDirectory(files: GitHubFile[]): Record<string, GitHubFile[]> {
-  const groups: Record<string, GitHubFile[]> = {}
-
-  for (const file of files) {
-    const parts = file.path.split('/')
-    const dir = parts.length > 1 ? parts.slice(0, -1).join('/') : '.'
-
-    if (!groups[dir]) {
-      groups[dir] = []
-    }
-    groups[dir].push(file)
-  }
-
-  return groups
-}
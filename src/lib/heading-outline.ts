@@ -0,0 +1,67 @@
+/**
+ * Heading outline
+ * Locates markdown (ATX) headings in a document so any character offset can be mapped to
+ * its section breadcrumb, e.g. ["Configuration", "Networking"]. Headings inside fenced code
+ * blocks are ignored.
+ */
+
+export interface Heading {
+  level: number
+  title: string
+  /** Offset of the heading line in the document */
+  index: number
+}
+
+// Keeps the breadcrumb prepended to embedded text short next to the chunk itself
+const MAX_CONTEXT_PREFIX_LENGTH = 200
+
+export function parseHeadings(text: string): Heading[] {
+  const headings: Heading[] = []
+  let inFence = false
+  let offset = 0
+
+  for (const line of text.split('\n')) {
+    if (/^\s{0,3}(```|~~~)/.test(line)) {
+      inFence = !inFence
+    } else if (!inFence) {
+      const match = line.match(/^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/)
+      if (match) {
+        headings.push({ level: match[1].length, title: match[2].trim(), index: offset })
+      }
+    }
+    offset += line.length + 1
+  }
+
+  return headings
+}
+
+/** Titles of the headings that enclose `offset`, outermost first */
+export function sectionPathAt(headings: Heading[], offset: number): string[] {
+  const stack: Heading[] = []
+
+  for (const heading of headings) {
+    if (heading.index > offset) break
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop()
+    stack.push(heading)
+  }
+
+  return stack.map(heading => heading.title)
+}
+
+export function formatSectionPath(sectionPath: string[]): string {
+  return sectionPath.join(' > ')
+}
+
+/**
+ * Document title plus section breadcrumb, embedded in front of the chunk text so a chunk
+ * such as "Set the timeout to 30s" is still found by queries about networking configuration.
+ */
+export function buildContextPrefix(documentTitle: string | undefined, sectionPath: string[]): string | undefined {
+  const parts = [documentTitle, ...sectionPath].filter((part): part is string => Boolean(part && part.trim()))
+  // Skip a leading H1 that just repeats the title
+  if (parts.length > 1 && parts[0].toLowerCase() === parts[1].toLowerCase()) parts.shift()
+  if (parts.length === 0) return undefined
+
+  const prefix = formatSectionPath(parts)
+  return prefix.length > MAX_CONTEXT_PREFIX_LENGTH ? `${prefix.substring(0, MAX_CONTEXT_PREFIX_LENGTH - 1)}…` : prefix
+}
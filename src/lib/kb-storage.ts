@@ -0,0 +1,365 @@
+import { Document, DocumentChunk, EmbeddingSettings, KnowledgeBase } from './types'
+import { KeyValueStore } from './runtime/interfaces'
+import { runtime } from './runtime/manager'
+import { updateWithRetry } from './runtime/versioning'
+import { resolveEmbeddingSettings } from './embedding-constants'
+
+/**
+ * Per-knowledge-base storage layout
+ * Documents, chunks and conversations live under their own keys instead of one JSON array per
+ * collection, so a write touches a single item and no value grows with the size of the KB:
+ *
+ *   kb:<kbId>:index            KnowledgeBaseIndex (document/conversation ids, chunk counts)
+ *   kb:<kbId>:doc:<docId>      Document
+ *   kb:<kbId>:chunks:<docId>   DocumentChunk[] for one document
+ *   kb:<kbId>:models           ModelConfig (see model-registry)
+ *   kb:<kbId>:bm25             BM25Stats, kb:<kbId>:bm25:<docId> BM25Segment and
+ *                              kb:<kbId>:bm25:terms:<n> BM25TermShard (see bm25-index)
+ *   conversation:<id>          Conversation
+ *   unified-query:<kbId>:<timestamp>:<id>   UnifiedQueryRecord
+ *   unified-query-index        keys of all query records, oldest first
+ *   unified-query-summary[:<kbId>]   QuerySummary over all records, or those of one KB
+ *
+ * Documents, chunks and queries are listed with `KeyValueStore.keys(prefix)` merged with the
+ * keys in the index records, which cover stores that cannot list keys (Spark) and writes a
+ * listing does not show yet. Conversations are listed from the
+ * KB index, which keeps them in creation order for the per-KB cap. Legacy arrays (`documents`, `conversations`, `chunks-<kbId>`,
+ * `unified-query-history`) are split into this layout the first time they are read.
+ */
+
+export const StorageKeys = {
+  index: (knowledgeBaseId: string) => `kb:${knowledgeBaseId}:index`,
+  document: (knowledgeBaseId: string, documentId: string) => `kb:${knowledgeBaseId}:doc:${documentId}`,
+  documentPrefix: (knowledgeBaseId: string) => `kb:${knowledgeBaseId}:doc:`,
+  chunks: (knowledgeBaseId: string, documentId: string) => `kb:${knowledgeBaseId}:chunks:${documentId}`,
+  chunksPrefix: (knowledgeBaseId: string) => `kb:${knowledgeBaseId}:chunks:`,
+  modelConfig: (knowledgeBaseId: string) => `kb:${knowledgeBaseId}:models`,
+  bm25Stats: (knowledgeBaseId: string) => `kb:${knowledgeBaseId}:bm25`,
+  bm25Segment: (knowledgeBaseId: string, documentId: string) => `kb:${knowledgeBaseId}:bm25:${documentId}`,
+  bm25SegmentPrefix: (knowledgeBaseId: string) => `kb:${knowledgeBaseId}:bm25:`,
+  bm25TermShard: (knowledgeBaseId: string, shard: number) => `kb:${knowledgeBaseId}:bm25:terms:${shard}`,
+  conversation: (conversationId: string) => `conversation:${conversationId}`,
+  query: (knowledgeBaseId: string, timestamp: number, queryId: string) =>
+    `unified-query:${knowledgeBaseId}:${String(timestamp).padStart(13, '0')}:${queryId}`,
+  queryPrefix: (knowledgeBaseId?: string) => knowledgeBaseId ? `unified-query:${knowledgeBaseId}:` : 'unified-query:',
+  queryIndex: 'unified-query-index',
+  querySummary: (knowledgeBaseId?: string) => knowledgeBaseId ? `unified-query-summary:${knowledgeBaseId}` : 'unified-query-summary',
+}
+
+export const LegacyStorageKeys = {
+  documents: 'documents',
+  conversations: 'conversations',
+  chunks: (knowledgeBaseId: string) => `chunks-${knowledgeBaseId}`,
+  queryHistory: 'unified-query-history',
+}
+
+export type KnowledgeBaseIndex = {
+  knowledgeBaseId: string
+  documentIds: string[]
+  /** Newest first */
+  conversationIds: string[]
+  chunkCounts: Record<string, number>
+  updatedAt: number
+}
+
+export type PageOptions = {
+  /** Last key of the previous page */
+  cursor?: string
+  limit?: number
+}
+
+export type Page<T> = {
+  items: T[]
+  /** Pass back as `cursor` to fetch the next page; undefined on the last page */
+  cursor?: string
+}
+
+const DEFAULT_PAGE_SIZE = 50
+
+// Parallel reads per listing; keeps the Cloudflare adapter from opening hundreds of requests at once
+const READ_CONCURRENCY = 8
+
+// One migration per legacy key per store instance (each Worker request gets its own scoped store)
+const migrations = new WeakMap<KeyValueStore, Map<string, Promise<void>>>()
+
+function emptyIndex(knowledgeBaseId: string): KnowledgeBaseIndex {
+  return { knowledgeBaseId, documentIds: [], conversationIds: [], chunkCounts: {}, updatedAt: Date.now() }
+}
+
+/**
+ * Reads many keys with bounded concurrency, preserving order and skipping missing values.
+ */
+export async function getMany<T>(keys: string[], kv: KeyValueStore = runtime.kv): Promise<T[]> {
+  const values: Array<T | null> = new Array(keys.length).fill(null)
+  let next = 0
+
+  const worker = async () => {
+    while (next < keys.length) {
+      const i = next++
+      values[i] = await kv.get<T>(keys[i])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(READ_CONCURRENCY, keys.length) }, worker))
+  return values.filter((value): value is T => value !== null)
+}
+
+/**
+ * Lists keys under `prefix` in lexicographic order, together with `fallbackKeys` (usually
+ * derived from an index record). The index covers stores that cannot list keys (Spark) and
+ * keys written too recently to be listed yet (Workers KV listings are eventually consistent);
+ * keys that no longer exist are skipped by `getMany`.
+ */
+export async function listKeys(prefix: string, fallbackKeys: string[] = []): Promise<string[]> {
+  const keys = await runtime.kv.keys(prefix)
+  return Array.from(new Set([...keys, ...fallbackKeys])).sort()
+}
+
+export function paginateKeys(keys: string[], options: PageOptions = {}): { keys: string[]; cursor?: string } {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE
+  const start = options.cursor ? keys.findIndex(key => key > options.cursor!) : 0
+  if (start === -1) {
+    return { keys: [] }
+  }
+
+  const page = keys.slice(start, start + limit)
+  const hasMore = start + limit < keys.length
+  return { keys: page, cursor: hasMore ? page[page.length - 1] : undefined }
+}
+
+/**
+ * Runs `migrate` once per legacy key for the active KV store.
+ */
+export function migrateOnce(legacyKey: string, migrate: () => Promise<void>): Promise<void> {
+  const kv = runtime.kv
+  let started = migrations.get(kv)
+  if (!started) {
+    started = new Map()
+    migrations.set(kv, started)
+  }
+
+  let migration = started.get(legacyKey)
+  if (!migration) {
+    migration = migrate().catch(error => {
+      // Allow a retry on the next access
+      started!.delete(legacyKey)
+      throw error
+    })
+    started.set(legacyKey, migration)
+  }
+  return migration
+}
+
+export class KnowledgeBaseStorage {
+  async getIndex(knowledgeBaseId: string): Promise<KnowledgeBaseIndex> {
+    const index = await runtime.kv.get<KnowledgeBaseIndex>(StorageKeys.index(knowledgeBaseId))
+    return { ...emptyIndex(knowledgeBaseId), ...index }
+  }
+
+  /**
+   * Read-modify-write of the index with compare-and-swap; `update` is re-applied on conflict.
+   */
+  async updateIndex(knowledgeBaseId: string, update: (index: KnowledgeBaseIndex) => void): Promise<KnowledgeBaseIndex> {
+    const written = await updateWithRetry<KnowledgeBaseIndex>(runtime.kv, StorageKeys.index(knowledgeBaseId), current => {
+      const index = { ...emptyIndex(knowledgeBaseId), ...current }
+      update(index)
+      index.updatedAt = Date.now()
+      return index
+    })
+    return written!
+  }
+
+  // Documents
+
+  async getDocument(knowledgeBaseId: string, documentId: string): Promise<Document | null> {
+    await this.migrateLegacyDocuments()
+    return await runtime.kv.get<Document>(StorageKeys.document(knowledgeBaseId, documentId))
+  }
+
+  async saveDocument(document: Document): Promise<void> {
+    await this.migrateLegacyDocuments()
+    await runtime.kv.set(StorageKeys.document(document.knowledgeBaseId, document.id), document)
+    await this.updateIndex(document.knowledgeBaseId, index => {
+      if (!index.documentIds.includes(document.id)) {
+        index.documentIds.push(document.id)
+      }
+    })
+  }
+
+  async deleteDocument(knowledgeBaseId: string, documentId: string): Promise<void> {
+    await this.migrateLegacyDocuments()
+    await runtime.kv.delete(StorageKeys.document(knowledgeBaseId, documentId))
+    await this.updateIndex(knowledgeBaseId, index => {
+      index.documentIds = index.documentIds.filter(id => id !== documentId)
+    })
+  }
+
+  async listDocuments(knowledgeBaseId: string, options: PageOptions = {}): Promise<Page<Document>> {
+    await this.migrateLegacyDocuments()
+    const keys = await this.documentKeys(knowledgeBaseId)
+    const page = paginateKeys(keys, options)
+    return { items: await getMany<Document>(page.keys), cursor: page.cursor }
+  }
+
+  /**
+   * Loads every document of one knowledge base, or of all knowledge bases when no id is given.
+   */
+  async getAllDocuments(knowledgeBaseId?: string): Promise<Document[]> {
+    await this.migrateLegacyDocuments()
+
+    if (knowledgeBaseId) {
+      return await getMany<Document>(await this.documentKeys(knowledgeBaseId))
+    }
+
+    const knowledgeBases = await runtime.kv.get<KnowledgeBase[]>('knowledge-bases') || []
+    const keys: string[] = []
+    for (const kb of knowledgeBases) {
+      keys.push(...await this.documentKeys(kb.id))
+    }
+    return await getMany<Document>(keys)
+  }
+
+  private async documentKeys(knowledgeBaseId: string): Promise<string[]> {
+    const index = await this.getIndex(knowledgeBaseId)
+    return listKeys(
+      StorageKeys.documentPrefix(knowledgeBaseId),
+      index.documentIds.map(id => StorageKeys.document(knowledgeBaseId, id))
+    )
+  }
+
+  private migrateLegacyDocuments(): Promise<void> {
+    return migrateOnce(LegacyStorageKeys.documents, async () => {
+      const legacy = await runtime.kv.get<Document[]>(LegacyStorageKeys.documents)
+      if (!legacy) return
+
+      const byKB = new Map<string, Document[]>()
+      for (const document of legacy) {
+        await runtime.kv.set(StorageKeys.document(document.knowledgeBaseId, document.id), document)
+        byKB.set(document.knowledgeBaseId, [...(byKB.get(document.knowledgeBaseId) || []), document])
+      }
+      for (const [knowledgeBaseId, documents] of byKB) {
+        await this.updateIndex(knowledgeBaseId, index => {
+          const ids = new Set(index.documentIds)
+          documents.forEach(d => ids.add(d.id))
+          index.documentIds = [...ids]
+        })
+      }
+
+      await runtime.kv.delete(LegacyStorageKeys.documents)
+    })
+  }
+
+  async getKnowledgeBase(knowledgeBaseId: string): Promise<KnowledgeBase | null> {
+    const knowledgeBases = await runtime.kv.get<KnowledgeBase[]>('knowledge-bases') || []
+    return knowledgeBases.find(kb => kb.id === knowledgeBaseId) || null
+  }
+
+  /** Embedding model and dimension the knowledge base's chunks and queries use */
+  async getEmbeddingSettings(knowledgeBaseId: string): Promise<EmbeddingSettings> {
+    return resolveEmbeddingSettings((await this.getKnowledgeBase(knowledgeBaseId))?.embedding)
+  }
+
+  /** Stores the embedding settings, resolving once documents ingested afterwards will use them */
+  /**
+   * Resolves with the stored knowledge base list so callers can refresh from it.
+   */
+  async saveEmbeddingSettings(knowledgeBaseId: string, embedding: EmbeddingSettings): Promise<KnowledgeBase[]> {
+    const written = await updateWithRetry<KnowledgeBase[]>(runtime.kv, 'knowledge-bases', current => {
+      if (!current?.some(kb => kb.id === knowledgeBaseId)) return undefined
+      return current.map(kb => kb.id === knowledgeBaseId ? { ...kb, embedding, updatedAt: Date.now() } : kb)
+    })
+    return written || []
+  }
+
+  // Chunks
+
+  async getDocumentChunks(knowledgeBaseId: string, documentId: string): Promise<DocumentChunk[]> {
+    await this.migrateLegacyChunks(knowledgeBaseId)
+    return await runtime.kv.get<DocumentChunk[]>(StorageKeys.chunks(knowledgeBaseId, documentId)) || []
+  }
+
+  async saveDocumentChunks(knowledgeBaseId: string, documentId: string, chunks: DocumentChunk[]): Promise<void> {
+    await this.migrateLegacyChunks(knowledgeBaseId)
+    await this.writeDocumentChunks(knowledgeBaseId, documentId, chunks)
+  }
+
+  /**
+   * Appends to a document's chunk list without losing chunks appended concurrently.
+   */
+  async appendDocumentChunks(knowledgeBaseId: string, documentId: string, chunks: DocumentChunk[]): Promise<void> {
+    await this.migrateLegacyChunks(knowledgeBaseId)
+    const written = await updateWithRetry<DocumentChunk[]>(
+      runtime.kv,
+      StorageKeys.chunks(knowledgeBaseId, documentId),
+      current => [...(current || []), ...chunks]
+    )
+    await this.updateIndex(knowledgeBaseId, index => {
+      index.chunkCounts[documentId] = written!.length
+    })
+  }
+
+  async deleteDocumentChunks(knowledgeBaseId: string, documentId: string): Promise<void> {
+    await this.migrateLegacyChunks(knowledgeBaseId)
+    await runtime.kv.delete(StorageKeys.chunks(knowledgeBaseId, documentId))
+    await this.updateIndex(knowledgeBaseId, index => {
+      delete index.chunkCounts[documentId]
+    })
+  }
+
+  async getKnowledgeBaseChunks(knowledgeBaseId: string): Promise<DocumentChunk[]> {
+    await this.migrateLegacyChunks(knowledgeBaseId)
+    const index = await this.getIndex(knowledgeBaseId)
+    const keys = await listKeys(
+      StorageKeys.chunksPrefix(knowledgeBaseId),
+      Object.keys(index.chunkCounts).map(id => StorageKeys.chunks(knowledgeBaseId, id))
+    )
+    const perDocument = await getMany<DocumentChunk[]>(keys)
+    return perDocument.flat()
+  }
+
+  /**
+   * Removes every chunk key and the index record of a knowledge base. Conversations and
+   * query history are kept, as they were before this layout.
+   */
+  async deleteKnowledgeBaseChunks(knowledgeBaseId: string): Promise<void> {
+    await this.migrateLegacyChunks(knowledgeBaseId)
+    const index = await this.getIndex(knowledgeBaseId)
+    const keys = await listKeys(
+      StorageKeys.chunksPrefix(knowledgeBaseId),
+      Object.keys(index.chunkCounts).map(id => StorageKeys.chunks(knowledgeBaseId, id))
+    )
+    for (const key of keys) {
+      await runtime.kv.delete(key)
+    }
+    await this.updateIndex(knowledgeBaseId, index => {
+      index.chunkCounts = {}
+    })
+  }
+
+  private async writeDocumentChunks(knowledgeBaseId: string, documentId: string, chunks: DocumentChunk[]): Promise<void> {
+    await runtime.kv.set(StorageKeys.chunks(knowledgeBaseId, documentId), chunks)
+    await this.updateIndex(knowledgeBaseId, index => {
+      index.chunkCounts[documentId] = chunks.length
+    })
+  }
+
+  private migrateLegacyChunks(knowledgeBaseId: string): Promise<void> {
+    const legacyKey = LegacyStorageKeys.chunks(knowledgeBaseId)
+    return migrateOnce(legacyKey, async () => {
+      const legacy = await runtime.kv.get<DocumentChunk[]>(legacyKey)
+      if (!legacy) return
+
+      const byDocument = new Map<string, DocumentChunk[]>()
+      for (const chunk of legacy) {
+        byDocument.set(chunk.documentId, [...(byDocument.get(chunk.documentId) || []), chunk])
+      }
+      for (const [documentId, chunks] of byDocument) {
+        await this.writeDocumentChunks(knowledgeBaseId, documentId, chunks)
+      }
+
+      await runtime.kv.delete(legacyKey)
+    })
+  }
+}
+
+export const kbStorage = new KnowledgeBaseStorage()
@@ -0,0 +1,209 @@
+import { Document, SourceType } from './types'
+
+/**
+ * Metadata filters
+ * Restricts a query to documents by source type, date added, author, id, tag or path. The
+ * filter is applied to the knowledge base's documents as a local predicate, and translated
+ * for each backend:
+ * - Vectorize: vectors only carry `kbId` and `docId`, so the filter is resolved to the ids of
+ *   the matching documents and sent as `docId: { $in: [...] }`. Beyond
+ *   `MAX_VECTORIZE_FILTER_IDS` ids the vector query is left unfiltered and its matches are
+ *   filtered afterwards.
+ * - Azure AI Search: OData over the indexed fields (`sourceType`, `addedAt`); author, tag and
+ *   path are not indexed and are resolved to `documentId` values the same way.
+ * Each field narrows the result; multiple values within a field match any of them.
+ */
+
+export interface MetadataFilter {
+  sourceTypes?: SourceType[]
+  /** Inclusive range on `Document.addedAt`, in epoch milliseconds */
+  addedAfter?: number
+  addedBefore?: number
+  /** Compared case-insensitively with `metadata.author` */
+  authors?: string[]
+  documentIds?: string[]
+  /** Documents carrying any of these tags */
+  tags?: string[]
+  /** Prefix of the repository path, or of the source URL for documents without one */
+  pathPrefix?: string
+}
+
+export type MetadataFilterField = keyof MetadataFilter
+
+export type MetadataFilterChip = {
+  field: MetadataFilterField
+  /** Value removed with the chip; unset for single-valued fields */
+  value?: string
+  label: string
+}
+
+// Keeps the JSON filter within Vectorize's size limit
+export const MAX_VECTORIZE_FILTER_IDS = 50
+
+export function hasMetadataFilter(filter?: MetadataFilter): filter is MetadataFilter {
+  if (!filter) return false
+  return Boolean(
+    filter.sourceTypes?.length ||
+    filter.authors?.length ||
+    filter.documentIds?.length ||
+    filter.tags?.length ||
+    filter.pathPrefix ||
+    filter.addedAfter !== undefined ||
+    filter.addedBefore !== undefined
+  )
+}
+
+export function documentPath(doc: Document): string {
+  return doc.metadata.filePath || doc.sourceUrl
+}
+
+export function matchesMetadataFilter(doc: Document, filter: MetadataFilter): boolean {
+  if (filter.sourceTypes?.length && !filter.sourceTypes.includes(doc.sourceType)) return false
+  if (filter.addedAfter !== undefined && doc.addedAt < filter.addedAfter) return false
+  if (filter.addedBefore !== undefined && doc.addedAt > filter.addedBefore) return false
+  if (filter.documentIds?.length && !filter.documentIds.includes(doc.id)) return false
+  if (filter.pathPrefix && !documentPath(doc).startsWith(filter.pathPrefix)) return false
+
+  if (filter.authors?.length) {
+    const author = doc.metadata.author?.toLowerCase()
+    if (!author || !filter.authors.some(a => a.toLowerCase() === author)) return false
+  }
+
+  if (filter.tags?.length) {
+    const tags = doc.metadata.tags || []
+    if (!filter.tags.some(tag => tags.includes(tag))) return false
+  }
+
+  return true
+}
+
+/** The documents a filter allows; all of them when the filter is empty */
+export function applyMetadataFilter(documents: Document[], filter?: MetadataFilter): Document[] {
+  return hasMetadataFilter(filter) ? documents.filter(doc => matchesMetadataFilter(doc, filter)) : documents
+}
+
+/** Checks a filter received over the API; returns an error message, or null when it is usable */
+export function validateMetadataFilter(value: unknown): string | null {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return 'filters must be an object'
+  }
+
+  const filter = value as Record<string, unknown>
+  for (const field of ['sourceTypes', 'authors', 'documentIds', 'tags'] as const) {
+    const list = filter[field]
+    if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== 'string'))) {
+      return `filters.${field} must be an array of strings`
+    }
+  }
+  for (const field of ['addedAfter', 'addedBefore'] as const) {
+    if (filter[field] !== undefined && !Number.isFinite(filter[field])) {
+      return `filters.${field} must be a timestamp in milliseconds`
+    }
+  }
+  if (filter.pathPrefix !== undefined && typeof filter.pathPrefix !== 'string') {
+    return 'filters.pathPrefix must be a string'
+  }
+
+  return null
+}
+
+/**
+ * Vectorize filter for the documents a filter allows, to merge with the `kbId` filter.
+ * Undefined when the filter is empty or allows too many documents to list.
+ */
+export function toVectorizeFilter(filter: MetadataFilter | undefined, documents: Document[]): Record<string, any> | undefined {
+  if (!hasMetadataFilter(filter)) return undefined
+
+  const ids = applyMetadataFilter(documents, filter).map(doc => doc.id)
+  return ids.length <= MAX_VECTORIZE_FILTER_IDS ? { docId: { $in: ids } } : undefined
+}
+
+/** OData `$filter` expression for Azure AI Search; undefined when the filter is empty */
+export function toODataFilter(filter: MetadataFilter | undefined, documents: Document[]): string | undefined {
+  if (!hasMetadataFilter(filter)) return undefined
+
+  const clauses: string[] = []
+  if (filter.sourceTypes?.length) {
+    clauses.push(`search.in(sourceType, '${filter.sourceTypes.map(escapeOData).join('|')}', '|')`)
+  }
+  if (filter.addedAfter !== undefined) {
+    clauses.push(`addedAt ge ${Math.floor(filter.addedAfter)}`)
+  }
+  if (filter.addedBefore !== undefined) {
+    clauses.push(`addedAt le ${Math.floor(filter.addedBefore)}`)
+  }
+
+  // Fields missing from the index are resolved to the ids of the local documents they allow
+  const { documentIds, authors, tags, pathPrefix } = filter
+  if (documentIds?.length || authors?.length || tags?.length || pathPrefix) {
+    const ids = applyMetadataFilter(documents, { documentIds, authors, tags, pathPrefix }).map(doc => escapeOData(doc.id)).join('|')
+    // Whole-document entries have no documentId; their key is the document id
+    clauses.push(`(search.in(documentId, '${ids}', '|') or search.in(id, '${ids}', '|'))`)
+  }
+
+  return clauses.join(' and ')
+}
+
+/**
+ * Matches vector metadata against a Vectorize-style filter: plain values are equality
+ * matches; `$eq`, `$ne`, `$in`, `$nin`, `$lt`, `$lte`, `$gt` and `$gte` are supported.
+ * Used by the in-process vector stores.
+ */
+export function matchesVectorMetadata(metadata: Record<string, any> | undefined, filter?: Record<string, any>): boolean {
+  if (!filter) return true
+
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = metadata?.[key]
+    if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+      return value === condition
+    }
+
+    return Object.entries(condition).every(([operator, operand]) => {
+      switch (operator) {
+        case '$eq': return value === operand
+        case '$ne': return value !== operand
+        case '$in': return Array.isArray(operand) && operand.includes(value)
+        case '$nin': return Array.isArray(operand) && !operand.includes(value)
+        case '$lt': return value !== undefined && value < (operand as number | string)
+        case '$lte': return value !== undefined && value <= (operand as number | string)
+        case '$gt': return value !== undefined && value > (operand as number | string)
+        case '$gte': return value !== undefined && value >= (operand as number | string)
+        default: return false
+      }
+    })
+  })
+}
+
+/** One chip per active value, in field order */
+export function describeMetadataFilter(filter: MetadataFilter, documents: Document[] = []): MetadataFilterChip[] {
+  const titles = new Map(documents.map(doc => [doc.id, doc.title]))
+  const day = (time: number) => new Date(time).toISOString().slice(0, 10)
+
+  return [
+    ...(filter.sourceTypes || []).map(value => ({ field: 'sourceTypes' as const, value, label: `Source: ${value}` })),
+    ...(filter.addedAfter !== undefined ? [{ field: 'addedAfter' as const, label: `Added from ${day(filter.addedAfter)}` }] : []),
+    ...(filter.addedBefore !== undefined ? [{ field: 'addedBefore' as const, label: `Added until ${day(filter.addedBefore)}` }] : []),
+    ...(filter.authors || []).map(value => ({ field: 'authors' as const, value, label: `Author: ${value}` })),
+    ...(filter.documentIds || []).map(value => ({ field: 'documentIds' as const, value, label: `Document: ${titles.get(value) || value}` })),
+    ...(filter.tags || []).map(value => ({ field: 'tags' as const, value, label: `Tag: ${value}` })),
+    ...(filter.pathPrefix ? [{ field: 'pathPrefix' as const, label: `Path: ${filter.pathPrefix}*` }] : []),
+  ]
+}
+
+/** The filter without the value of a chip */
+export function removeMetadataFilterChip(filter: MetadataFilter, chip: Pick<MetadataFilterChip, 'field' | 'value'>): MetadataFilter {
+  const next: MetadataFilter = { ...filter }
+  const current = filter[chip.field]
+  const remaining = Array.isArray(current) ? (current as string[]).filter(value => value !== chip.value) : []
+
+  if (chip.value !== undefined && remaining.length > 0) {
+    Object.assign(next, { [chip.field]: remaining })
+  } else {
+    delete next[chip.field]
+  }
+  return next
+}
+
+function escapeOData(value: string): string {
+  return value.replace(/'/g, "''")
+}
@@ -0,0 +1,101 @@
+import { DocumentChunk } from './types'
+import { cosineSimilarity } from './chunking'
+import { tokenize } from './bm25-index'
+import { normalizeScores } from './fusion'
+
+/**
+ * Maximal Marginal Relevance
+ * Picks chunk hits one at a time, trading relevance against similarity to the hits already
+ * picked: `lambda * relevance - (1 - lambda) * maxSimilarity`. Near-duplicate chunks of one
+ * document then stop crowding other sources out of the top-K. Relevance is min-max normalized
+ * so keyword and vector scores behave alike; similarity is the cosine of the chunk embeddings,
+ * or term overlap for chunks without comparable ones. `maxPerDocument` caps the hits taken
+ * from any one document.
+ */
+
+export type DiversificationOptions = {
+  /** 1 ranks by relevance alone, 0 by novelty alone; unset turns MMR off */
+  mmrLambda?: number
+  /** Most chunk hits kept per document; unset means no cap */
+  maxChunksPerDocument?: number
+}
+
+/** Cap applied when MMR is on and no cap is given */
+export const DEFAULT_MAX_CHUNKS_PER_DOCUMENT = 2
+
+export function isDiversificationEnabled(options: DiversificationOptions): boolean {
+  return options.mmrLambda !== undefined || options.maxChunksPerDocument !== undefined
+}
+
+/**
+ * Selects up to `k` hits from `candidates`, in selection order. Without `mmrLambda` the hits are
+ * taken by score, subject only to the per-document cap.
+ */
+export function selectDiverseChunks<T extends { chunk: DocumentChunk; score: number }>(
+  candidates: T[],
+  k: number,
+  options: DiversificationOptions
+): T[] {
+  const lambda = options.mmrLambda === undefined ? 1 : Math.min(Math.max(options.mmrLambda, 0), 1)
+  const cap = options.maxChunksPerDocument
+    ?? (options.mmrLambda !== undefined ? DEFAULT_MAX_CHUNKS_PER_DOCUMENT : Infinity)
+  const relevance = normalizeScores(candidates.map(c => c.score), 'minmax')
+  const terms = new Map<T, Set<string>>()
+  const termsOf = (candidate: T) => {
+    if (!terms.has(candidate)) terms.set(candidate, new Set(tokenize(candidate.chunk.text)))
+    return terms.get(candidate)!
+  }
+
+  const selected: T[] = []
+  const perDocument = new Map<string, number>()
+  const remaining = new Set(candidates.map((_, i) => i))
+
+  while (selected.length < k && remaining.size > 0) {
+    let bestIndex = -1
+    let bestValue = -Infinity
+
+    for (const i of remaining) {
+      const candidate = candidates[i]
+      if ((perDocument.get(candidate.chunk.documentId) ?? 0) >= cap) continue
+
+      let maxSimilarity = 0
+      if (lambda < 1) {
+        for (const picked of selected) {
+          maxSimilarity = Math.max(maxSimilarity, chunkSimilarity(candidate, picked, termsOf))
+        }
+      }
+
+      const value = lambda * relevance[i] - (1 - lambda) * maxSimilarity
+      if (value > bestValue) {
+        bestValue = value
+        bestIndex = i
+      }
+    }
+
+    if (bestIndex === -1) break // Every remaining candidate belongs to a capped document
+    const picked = candidates[bestIndex]
+    selected.push(picked)
+    remaining.delete(bestIndex)
+    perDocument.set(picked.chunk.documentId, (perDocument.get(picked.chunk.documentId) ?? 0) + 1)
+  }
+
+  return selected
+}
+
+function chunkSimilarity<T extends { chunk: DocumentChunk }>(a: T, b: T, termsOf: (candidate: T) => Set<string>): number {
+  const x = a.chunk.embedding
+  const y = b.chunk.embedding
+  if (x?.length && x.length === y?.length && a.chunk.embeddingModel === b.chunk.embeddingModel) {
+    return cosineSimilarity(x, y)
+  }
+
+  // Jaccard overlap of the chunks' terms
+  const termsA = termsOf(a)
+  const termsB = termsOf(b)
+  if (termsA.size === 0 || termsB.size === 0) return 0
+  let shared = 0
+  for (const term of termsA) {
+    if (termsB.has(term)) shared++
+  }
+  return shared / (termsA.size + termsB.size - shared)
+}
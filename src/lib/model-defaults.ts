@@ -0,0 +1,7 @@
+// Default Workers AI text-generation model, shared by the runtime adapters, the Worker and
+// the model registry. Kept dependency-free so adapters can import it without cycles.
+export const DEFAULT_LLM_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast'
+// Workers AI cross-encoder used by the reranking stage
+export const DEFAULT_RERANK_MODEL = '@cf/baai/bge-reranker-base'
+// Longest passage, in characters, sent to the rerank model
+export const MAX_RERANK_TEXT_LENGTH = 2000
@@ -0,0 +1,106 @@
+import { runtime } from './runtime/manager'
+import { StorageKeys } from './kb-storage'
+import { DEFAULT_LLM_MODEL } from './model-defaults'
+
+/**
+ * Model registry
+ * Every LLM call names the task it performs; the registry maps tasks to model ids, with
+ * per-knowledge-base overrides stored in KV (`kb:<kbId>:models`). Cheap tasks such as intent
+ * classification can run on a small model while answers use a strong one.
+ */
+
+export type ModelTask =
+  | 'intentClassification'
+  | 'queryAnalysis'
+  | 'routing'
+  | 'generation'
+  | 'evaluation'
+  | 'critique'
+  | 'reformulation'
+  | 'reranking'
+
+export type ModelConfig = Partial<Record<ModelTask, string>>
+
+export { DEFAULT_LLM_MODEL }
+
+export const DEFAULT_TASK_MODELS: Record<ModelTask, string> = {
+  intentClassification: DEFAULT_LLM_MODEL,
+  queryAnalysis: DEFAULT_LLM_MODEL,
+  routing: DEFAULT_LLM_MODEL,
+  generation: DEFAULT_LLM_MODEL,
+  evaluation: DEFAULT_LLM_MODEL,
+  critique: DEFAULT_LLM_MODEL,
+  reformulation: DEFAULT_LLM_MODEL,
+  reranking: DEFAULT_LLM_MODEL,
+}
+
+export const MODEL_TASKS: Array<{ task: ModelTask; label: string; description: string }> = [
+  { task: 'intentClassification', label: 'Intent classification', description: 'Labels each query (factual, procedural, chitchat...)' },
+  { task: 'queryAnalysis', label: 'Query analysis', description: 'Complexity, specificity and clarification questions' },
+  { task: 'routing', label: 'Routing', description: 'Picks the retrieval strategy' },
+  { task: 'reformulation', label: 'Reformulation', description: 'Sub-queries, RAG-fusion variations and rewrites' },
+  { task: 'reranking', label: 'Reranking', description: 'Grades or orders retrieved passages when LLM reranking is on' },
+  { task: 'generation', label: 'Answer generation', description: 'Writes the final answer' },
+  { task: 'evaluation', label: 'Evaluation', description: 'Scores support and utility of answers' },
+  { task: 'critique', label: 'Critique', description: 'Reviews answers for errors and missing information' },
+]
+
+/** Workers AI text-generation models offered in the settings dialog; any id can be typed in */
+export const AVAILABLE_MODELS: Array<{ id: string; label: string }> = [
+  { id: '@cf/meta/llama-3.3-70b-instruct-fp8-fast', label: 'Llama 3.3 70B (fast)' },
+  { id: '@cf/meta/llama-3.1-8b-instruct-fast', label: 'Llama 3.1 8B (fast)' },
+  { id: '@cf/meta/llama-3.1-8b-instruct', label: 'Llama 3.1 8B' },
+  { id: '@cf/meta/llama-3.2-3b-instruct', label: 'Llama 3.2 3B' },
+  { id: '@cf/mistralai/mistral-small-3.1-24b-instruct', label: 'Mistral Small 3.1 24B' },
+  { id: '@cf/qwen/qwq-32b', label: 'QwQ 32B' },
+]
+
+// Overrides are read on every LLM call, so keep them briefly per workspace and KB
+const CACHE_TTL_MS = 30000
+
+export class ModelRegistry {
+  private cache = new Map<string, { config: ModelConfig; timestamp: number }>()
+
+  async getModel(task: ModelTask, knowledgeBaseId?: string): Promise<string> {
+    if (!knowledgeBaseId) {
+      return DEFAULT_TASK_MODELS[task]
+    }
+
+    try {
+      const config = await this.getConfig(knowledgeBaseId)
+      return config[task] || DEFAULT_TASK_MODELS[task]
+    } catch (error) {
+      console.warn('Model config lookup failed; using default model', error)
+      return DEFAULT_TASK_MODELS[task]
+    }
+  }
+
+  /** Stored overrides only; tasks without one use `DEFAULT_TASK_MODELS` */
+  async getConfig(knowledgeBaseId: string): Promise<ModelConfig> {
+    const cacheKey = this.cacheKey(knowledgeBaseId)
+    const cached = this.cache.get(cacheKey)
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+      return cached.config
+    }
+
+    const config = await runtime.kv.get<ModelConfig>(StorageKeys.modelConfig(knowledgeBaseId)) || {}
+    this.cache.set(cacheKey, { config, timestamp: Date.now() })
+    return config
+  }
+
+  async saveConfig(knowledgeBaseId: string, config: ModelConfig): Promise<void> {
+    // Drop empty entries so cleared fields fall back to the defaults
+    const cleaned = Object.fromEntries(
+      Object.entries(config).filter(([, model]) => typeof model === 'string' && model.trim().length > 0)
+    ) as ModelConfig
+
+    await runtime.kv.set(StorageKeys.modelConfig(knowledgeBaseId), cleaned)
+    this.cache.set(this.cacheKey(knowledgeBaseId), { config: cleaned, timestamp: Date.now() })
+  }
+
+  private cacheKey(knowledgeBaseId: string): string {
+    return `${runtime.getWorkspaceId()}:${knowledgeBaseId}`
+  }
+}
+
+export const modelRegistry = new ModelRegistry()
@@ -0,0 +1,118 @@
+import { AgenticRAGConfig, AgenticRAGResponse, AnswerCitation, ProgressStep } from './agentic-rag-orchestrator'
+import { parseSSEStream } from './sse'
+import { runtime } from './runtime/manager'
+import { CloudflareRuntimeAdapter } from './runtime/cloudflare-adapter'
+
+/**
+ * Client for the Worker's server-side agentic RAG endpoints
+ */
+
+export type RAGQueryRequest = {
+  knowledgeBaseId: string
+  query: string
+  conversationId?: string
+  config?: Omit<AgenticRAGConfig, 'onProgress' | 'onToken' | 'onPartialAnswer'>
+}
+
+export type RAGQueryResponse = AgenticRAGResponse & {
+  conversationId: string
+}
+
+/**
+ * Events sent by `POST /api/rag/query/stream`. `token` deltas belong to one generation
+ * iteration; a new iteration starts a fresh answer.
+ */
+export type RAGStreamEvent =
+  | { event: 'progress'; data: ProgressStep }
+  | { event: 'token'; data: { delta: string; iteration: number; citations?: AnswerCitation[] } }
+  | { event: 'result'; data: RAGQueryResponse }
+  | { event: 'error'; data: { error: string; status?: number } }
+
+export type RAGStreamHandlers = {
+  onProgress?: (step: ProgressStep) => void
+  onToken?: (delta: string, iteration: number, citations: AnswerCitation[]) => void
+}
+
+export type RAGApiOptions = {
+  apiBase?: string
+  headers?: Record<string, string>
+  signal?: AbortSignal
+}
+
+function resolveApiBase(apiBase?: string): string {
+  return apiBase || (typeof window !== 'undefined' ? window.location.origin : '')
+}
+
+// Reuse the active Cloudflare runtime's API key unless the caller supplies headers
+function resolveHeaders(headers?: Record<string, string>): Record<string, string> {
+  if (headers) return headers
+  const adapter = runtime.getRuntime()
+  return adapter instanceof CloudflareRuntimeAdapter ? adapter.getAuthHeaders() : {}
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const data = await response.json() as { error?: string }
+    return data.error || response.statusText
+  } catch {
+    return response.statusText
+  }
+}
+
+export async function queryAgentic(request: RAGQueryRequest, options: RAGApiOptions = {}): Promise<RAGQueryResponse> {
+  const response = await fetch(`${resolveApiBase(options.apiBase)}/api/rag/query`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...resolveHeaders(options.headers) },
+    body: JSON.stringify(request),
+    signal: options.signal
+  })
+
+  if (!response.ok) {
+    throw new Error(`Agentic query failed: ${await readErrorMessage(response)}`)
+  }
+
+  return await response.json() as RAGQueryResponse
+}
+
+/**
+ * Runs an agentic query on the Worker and relays progress and answer tokens as they arrive.
+ * Resolves with the final response once the `result` event is received.
+ */
+export async function streamAgenticQuery(
+  request: RAGQueryRequest,
+  handlers: RAGStreamHandlers = {},
+  options: RAGApiOptions = {}
+): Promise<RAGQueryResponse> {
+  const response = await fetch(`${resolveApiBase(options.apiBase)}/api/rag/query/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream', ...resolveHeaders(options.headers) },
+    body: JSON.stringify(request),
+    signal: options.signal
+  })
+
+  if (!response.ok) {
+    throw new Error(`Agentic query stream failed: ${await readErrorMessage(response)}`)
+  }
+  if (!response.body) {
+    throw new Error('No readable stream available')
+  }
+
+  for await (const frame of parseSSEStream(response.body)) {
+    const message = { event: frame.event, data: JSON.parse(frame.data) } as RAGStreamEvent
+
+    switch (message.event) {
+      case 'progress':
+        handlers.onProgress?.(message.data)
+        break
+      case 'token':
+        handlers.onToken?.(message.data.delta, message.data.iteration, message.data.citations || [])
+        break
+      case 'result':
+        return message.data
+      case 'error':
+        throw new Error(`Agentic query stream failed: ${message.data.error}`)
+    }
+  }
+
+  throw new Error('Agentic query stream ended without a result')
+}
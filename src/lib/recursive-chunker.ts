@@ -0,0 +1,216 @@
+import type { Chunk } from './chunking'
+import { ChunkingOptions } from './types'
+import { countTokens } from './tokenizer'
+import { MAX_EMBEDDING_TEXT_LENGTH, MAX_EMBEDDING_TOKENS } from './embedding-constants'
+
+/**
+ * Recursive chunker
+ * Splits on the coarsest boundary that works: markdown headings, then paragraphs, lines,
+ * sentences and finally words. Pieces are packed greedily up to `chunkSize` tokens, so a
+ * section that fits stays whole. Every chunk is an exact slice of the source text, which
+ * keeps `startIndex`/`endIndex` accurate.
+ */
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  chunkSize: 256,
+  overlap: 32,
+  minChunkSize: 32,
+}
+
+// Room for the [CLS]/[SEP] markers the embedding model adds
+const MAX_CHUNK_TOKENS = MAX_EMBEDDING_TOKENS - 2
+const MIN_CHUNK_TOKENS = 16
+const MIN_CHUNK_LENGTH = 200
+
+interface Span {
+  start: number
+  end: number
+}
+
+const SEPARATORS: RegExp[] = [
+  /\n(?=#{1,6}\s)/g, // before markdown headings, so a heading opens its section
+  /\n\s*\n/g, // paragraphs
+  /\n/g, // lines
+  /(?<=[.!?])\s+/g, // sentences
+  /\s+/g, // words
+]
+
+/** Fills in defaults and clamps values to what the embedding model accepts */
+export function resolveChunkingOptions(options?: Partial<ChunkingOptions>): ChunkingOptions {
+  const merged = { ...DEFAULT_CHUNKING_OPTIONS, ...options }
+  const chunkSize = Math.min(Math.max(Math.round(merged.chunkSize) || DEFAULT_CHUNKING_OPTIONS.chunkSize, MIN_CHUNK_TOKENS), MAX_CHUNK_TOKENS)
+
+  return {
+    chunkSize,
+    overlap: Math.min(Math.max(Math.round(merged.overlap) || 0, 0), Math.floor(chunkSize / 2)),
+    minChunkSize: Math.min(Math.max(Math.round(merged.minChunkSize) || 0, 0), chunkSize),
+    ...(merged.contextualPrefix !== undefined ? { contextualPrefix: merged.contextualPrefix } : {}),
+    ...(merged.maxLength !== undefined ? { maxLength: Math.min(Math.max(Math.round(merged.maxLength) || 0, MIN_CHUNK_LENGTH), MAX_EMBEDDING_TEXT_LENGTH) } : {}),
+  }
+}
+
+/** Most characters a chunk may have under `options` */
+export function maxChunkLength(options: Pick<ChunkingOptions, 'maxLength'>): number {
+  return options.maxLength ?? MAX_EMBEDDING_TEXT_LENGTH
+}
+
+/**
+ * Options for chunks that are embedded behind one of `prefixes` (and the blank line after
+ * it): chunks give up the most tokens and characters a prefix takes, so chunk and prefix
+ * still fit the model's input together.
+ */
+export function reserveForPrefixes(options: Partial<ChunkingOptions> | undefined, prefixes: Array<string | undefined>): ChunkingOptions {
+  const resolved = resolveChunkingOptions(options)
+  const present = prefixes.filter((prefix): prefix is string => Boolean(prefix))
+  if (present.length === 0) return resolved
+
+  const tokens = Math.max(...present.map(prefix => countTokens(prefix)))
+  const characters = Math.max(...present.map(prefix => prefix.length)) + 2
+  return resolveChunkingOptions({
+    ...resolved,
+    chunkSize: Math.min(resolved.chunkSize, MAX_CHUNK_TOKENS - tokens),
+    maxLength: maxChunkLength(resolved) - characters,
+  })
+}
+
+export function chunkRecursive(text: string, options?: Partial<ChunkingOptions>): Chunk[] {
+  const resolved = resolveChunkingOptions(options)
+  const splitter = new RecursiveSplitter(text, resolved)
+  const spans = splitter.mergeSmall(splitter.split(trimSpan(text, { start: 0, end: text.length }), 0))
+
+  return spans.map((span, index) => {
+    const chunkText = text.slice(span.start, span.end)
+    return {
+      id: `chunk-${index}`,
+      text: chunkText,
+      startIndex: span.start,
+      endIndex: span.end,
+      tokens: countTokens(chunkText),
+    }
+  })
+}
+
+function trimSpan(text: string, span: Span): Span | null {
+  let { start, end } = span
+  while (start < end && /\s/.test(text[start])) start++
+  while (end > start && /\s/.test(text[end - 1])) end--
+  return start < end ? { start, end } : null
+}
+
+class RecursiveSplitter {
+  constructor(private text: string, private options: ChunkingOptions) {}
+
+  split(span: Span | null, level: number): Span[] {
+    if (!span) return []
+    if (this.fits(span)) return [span]
+    if (level >= SEPARATORS.length) return this.splitByCharacters(span)
+
+    const segments = this.segment(span, SEPARATORS[level])
+    if (segments.length <= 1) return this.split(span, level + 1)
+
+    const pieces = segments.flatMap(segment => this.fits(segment) ? [segment] : this.split(segment, level + 1))
+    return this.pack(pieces)
+  }
+
+  /** Folds chunks under `minChunkSize` into the previous (or else the next) chunk */
+  mergeSmall(spans: Span[]): Span[] {
+    const result: Span[] = []
+
+    for (const span of spans) {
+      const previous = result[result.length - 1]
+      const small = this.tokens(span) < this.options.minChunkSize
+      const previousSmall = previous && this.tokens(previous) < this.options.minChunkSize
+
+      if (previous && (small || previousSmall) && this.fits({ start: previous.start, end: span.end })) {
+        result[result.length - 1] = { start: previous.start, end: span.end }
+      } else {
+        result.push(span)
+      }
+    }
+
+    return result
+  }
+
+  private segment(span: Span, separator: RegExp): Span[] {
+    const segments: Span[] = []
+    let cursor = span.start
+    const region = this.text.slice(span.start, span.end)
+
+    for (const match of region.matchAll(separator)) {
+      const matchStart = span.start + match.index!
+      const segment = trimSpan(this.text, { start: cursor, end: matchStart })
+      if (segment) segments.push(segment)
+      cursor = matchStart + match[0].length
+    }
+
+    const last = trimSpan(this.text, { start: cursor, end: span.end })
+    if (last) segments.push(last)
+    return segments
+  }
+
+  /**
+   * Greedily packs consecutive pieces into chunks. When a chunk closes, its trailing pieces
+   * (up to `overlap` tokens) open the next one, so overlap follows the current split level.
+   * Separators are whitespace, so piece counts add up to (at most) the joined count.
+   */
+  private pack(pieces: Span[]): Span[] {
+    const counts = pieces.map(piece => this.tokens(piece))
+    const chunks: Span[] = []
+    let first = 0
+    let total = 0
+
+    for (let i = 0; i < pieces.length; i++) {
+      if (i > first && !this.withinBudget({ start: pieces[first].start, end: pieces[i].end }, total + counts[i])) {
+        chunks.push({ start: pieces[first].start, end: pieces[i - 1].end })
+
+        // Never carry the whole previous chunk over
+        let keepFrom = i
+        let overlapTokens = 0
+        while (keepFrom > first + 1) {
+          const carried = overlapTokens + counts[keepFrom - 1]
+          const span = { start: pieces[keepFrom - 1].start, end: pieces[i].end }
+          if (carried > this.options.overlap || !this.withinBudget(span, carried + counts[i])) break
+          overlapTokens = carried
+          keepFrom--
+        }
+        first = keepFrom
+        total = overlapTokens
+      }
+      total += counts[i]
+    }
+
+    if (pieces.length > 0) {
+      chunks.push({ start: pieces[first].start, end: pieces[pieces.length - 1].end })
+    }
+    return chunks
+  }
+
+  // Last resort for unbroken runs such as long URLs or base64 blobs
+  private splitByCharacters(span: Span): Span[] {
+    const spans: Span[] = []
+    let start = span.start
+
+    while (start < span.end) {
+      let end = Math.min(start + maxChunkLength(this.options), span.end)
+      while (end - start > 1 && !this.fits({ start, end })) {
+        end = start + Math.floor((end - start) * 0.9)
+      }
+      spans.push({ start, end })
+      start = end
+    }
+
+    return spans
+  }
+
+  private fits(span: Span): boolean {
+    return span.end - span.start <= maxChunkLength(this.options) && this.tokens(span) <= this.options.chunkSize
+  }
+
+  private withinBudget(span: Span, tokens: number): boolean {
+    return span.end - span.start <= maxChunkLength(this.options) && tokens <= this.options.chunkSize
+  }
+
+  private tokens(span: Span): number {
+    return countTokens(this.text.slice(span.start, span.end))
+  }
+}
@@ -0,0 +1,123 @@
+import { DocumentChunk, EmbeddingSettings } from './types'
+import { kbStorage } from './kb-storage'
+import { runtime } from './runtime/manager'
+import { currentEmbeddingModel, embeddingInput } from './chunking'
+import { embedBatched } from './embedding-pipeline'
+import { SIMULATED_EMBEDDING_MODEL } from './embedding-constants'
+
+/**
+ * Re-embed job
+ * Brings a knowledge base's chunks into the vector space of its embedding model: chunks
+ * embedded with the simulated fallback, another model, or before the model was recorded are
+ * embedded again and their vectors replaced. Switching a knowledge base to a new model is
+ * done the same way: save the new `KnowledgeBase.embedding`, then run the job. Documents are
+ * processed one at a time, so an interrupted run can simply be started again. Unlike
+ * ingestion, the job never falls back to simulated embeddings; if the provider fails, the
+ * run stops.
+ */
+
+export interface ReembedProgress {
+  completed: number
+  total: number
+  message: string
+}
+
+export interface ReembedResult {
+  model: string
+  reembedded: number
+  documents: number
+}
+
+export function isOutdatedChunk(chunk: DocumentChunk, model: string): boolean {
+  return !chunk.embedding?.length || chunk.embeddingModel !== model
+}
+
+/**
+ * Chunks of the knowledge base that its embedding model did not produce, per document.
+ * `embedding` overrides the stored setting, e.g. to preview a switch to another model.
+ */
+export async function findOutdatedChunks(
+  knowledgeBaseId: string,
+  embedding?: EmbeddingSettings
+): Promise<Map<string, DocumentChunk[]>> {
+  const model = currentEmbeddingModel((embedding ?? await kbStorage.getEmbeddingSettings(knowledgeBaseId)).model)
+  const index = await kbStorage.getIndex(knowledgeBaseId)
+  const outdated = new Map<string, DocumentChunk[]>()
+
+  for (const documentId of Object.keys(index.chunkCounts)) {
+    const chunks = await kbStorage.getDocumentChunks(knowledgeBaseId, documentId)
+    const stale = chunks.filter(chunk => isOutdatedChunk(chunk, model))
+    if (stale.length > 0) outdated.set(documentId, stale)
+  }
+
+  return outdated
+}
+
+export async function countOutdatedChunks(knowledgeBaseId: string, embedding?: EmbeddingSettings): Promise<number> {
+  const outdated = await findOutdatedChunks(knowledgeBaseId, embedding)
+  return Array.from(outdated.values()).reduce((sum, chunks) => sum + chunks.length, 0)
+}
+
+export async function reembedKnowledgeBase(
+  knowledgeBaseId: string,
+  onProgress?: (progress: ReembedProgress) => void,
+  embedding?: EmbeddingSettings
+): Promise<ReembedResult> {
+  const settings = embedding ?? await kbStorage.getEmbeddingSettings(knowledgeBaseId)
+  const model = currentEmbeddingModel(settings.model)
+  if (!runtime.embedder || model === SIMULATED_EMBEDDING_MODEL) {
+    throw new Error('No embedding provider configured; nothing to re-embed with')
+  }
+
+  const outdated = await findOutdatedChunks(knowledgeBaseId, settings)
+  const total = Array.from(outdated.values()).reduce((sum, chunks) => sum + chunks.length, 0)
+  let completed = 0
+
+  for (const [documentId, stale] of outdated) {
+    const title = stale[0].metadata.parentDocument.title
+    onProgress?.({ completed, total, message: `Re-embedding ${title}` })
+
+    const embeddings = await embedBatched(stale.map(chunk => embeddingInput({ text: chunk.text, contextPrefix: chunk.metadata.contextPrefix })), {
+      model,
+      onProgress: progress => onProgress?.({ completed: completed + progress.completed, total, message: `Re-embedding ${title}` })
+    })
+    const updated = new Map(stale.map((chunk, i) => [chunk.id, embeddings[i]]))
+
+    // Re-read so chunks written since the scan are not overwritten with stale copies
+    const chunks = await kbStorage.getDocumentChunks(knowledgeBaseId, documentId)
+    const refreshed = chunks.map(chunk => {
+      const embedding = updated.get(chunk.id)
+      return embedding ? { ...chunk, embedding, embeddingModel: model, embeddingDimension: embedding.length } : chunk
+    })
+    await kbStorage.saveDocumentChunks(knowledgeBaseId, documentId, refreshed)
+
+    if (runtime.vectorStore) {
+      // Vectors of another size live in another index; remove them there before the upsert
+      const resizedIds = stale
+        .filter(chunk => chunk.embedding?.length && chunk.embedding.length !== updated.get(chunk.id)!.length)
+        .map(chunk => chunk.id)
+      if (resizedIds.length > 0) {
+        await runtime.vectorStore.delete(resizedIds)
+      }
+      await runtime.vectorStore.upsert(
+        refreshed
+          .filter(chunk => updated.has(chunk.id))
+          .map(chunk => ({
+            id: chunk.id,
+            values: chunk.embedding!,
+            metadata: {
+              kbId: knowledgeBaseId,
+              docId: documentId,
+              chunkIndex: chunk.chunkIndex,
+              embeddingModel: model,
+            }
+          }))
+      )
+    }
+
+    completed += stale.length
+  }
+
+  onProgress?.({ completed, total, message: 'Re-embedding complete' })
+  return { model, reembedded: total, documents: outdated.size }
+}
@@ -0,0 +1,223 @@
+import type { RetrievalResult } from './retrieval-executor'
+import { runtime } from './runtime/manager'
+import { modelRegistry } from './model-registry'
+import { DEFAULT_RERANK_MODEL } from './model-defaults'
+import { truncateToTokens } from './tokenizer'
+
+/**
+ * Reranking
+ * Reorders the top candidates of a retrieval before generation. First-stage retrieval scores
+ * the query and each chunk separately; a reranker reads them together, which is slower but
+ * more precise, so it only sees the best `topN` candidates.
+ * - `model`: a cross-encoder through `runtime.reranker` (Workers AI `bge-reranker-base`)
+ * - `llm_pointwise`: the LLM grades every candidate from 0 to 10, one call each
+ * - `llm_listwise`: the LLM orders all candidates in a single call
+ * Candidates past `topN` keep their order behind the reranked ones, and `scores` stay the
+ * first-stage scores of their documents. A failed rerank leaves the retrieval order unchanged.
+ */
+
+export type RerankMode = 'model' | 'llm_pointwise' | 'llm_listwise'
+
+export const RERANK_MODES: RerankMode[] = ['model', 'llm_pointwise', 'llm_listwise']
+
+export type RerankOptions = {
+  mode: RerankMode
+  /** Candidates passed to the reranker */
+  topN: number
+  /** Rerank model for `model` mode; LLM modes use the `reranking` model task */
+  model?: string
+}
+
+export type RerankedRank = {
+  documentId: string
+  title: string
+  /** 1-based positions in the retrieval before and after reranking */
+  before: number
+  after: number
+  /** Reranker relevance; 0-1 for the LLM modes, model-specific for `model` */
+  score: number
+}
+
+export type RerankReport = {
+  mode: RerankMode
+  model: string
+  candidates: number
+  ranks: RerankedRank[]
+  durationMs: number
+  /** Set when reranking failed and the retrieval order was kept */
+  error?: string
+}
+
+export const DEFAULT_RERANK_OPTIONS: RerankOptions = { mode: 'llm_listwise', topN: 10 }
+
+// Each candidate is cut to its best passage, and that passage to this many tokens
+const MAX_CANDIDATE_TOKENS = 256
+
+export function resolveRerankOptions(options?: Partial<RerankOptions>): RerankOptions {
+  const topN = Math.round(options?.topN ?? DEFAULT_RERANK_OPTIONS.topN)
+  return {
+    ...options,
+    // Callers pass fields they have not set as undefined, which must not replace the defaults
+    mode: options?.mode ?? DEFAULT_RERANK_OPTIONS.mode,
+    topN: Math.min(Math.max(topN, 2), 50)
+  }
+}
+
+/**
+ * Reranks the first `topN` documents of `retrieval` and records the move of each one in
+ * `metadata.reranking`. Passages stay attached to their documents.
+ */
+export async function rerankRetrieval(
+  query: string,
+  retrieval: RetrievalResult,
+  options?: Partial<RerankOptions>,
+  knowledgeBaseId?: string
+): Promise<RetrievalResult> {
+  const settings = resolveRerankOptions(options)
+  const startTime = Date.now()
+  const count = Math.min(settings.topN, retrieval.documents.length)
+  if (count < 2) {
+    return retrieval
+  }
+
+  const model = settings.mode === 'model'
+    ? settings.model || DEFAULT_RERANK_MODEL
+    : await modelRegistry.getModel('reranking', knowledgeBaseId)
+
+  const texts = candidateTexts(retrieval, count)
+
+  try {
+    let scores: number[]
+    if (settings.mode === 'model') {
+      if (!runtime.reranker) {
+        throw new Error('No rerank model available in this runtime')
+      }
+      scores = await runtime.reranker.rerank(query, texts, model)
+    } else if (settings.mode === 'llm_pointwise') {
+      scores = await Promise.all(texts.map(text => gradeCandidate(query, text, model)))
+    } else {
+      scores = await orderCandidates(query, texts, model)
+    }
+
+    const order = texts.map((_, i) => i).sort((a, b) => (scores[b] ?? 0) - (scores[a] ?? 0) || a - b)
+    const reranked = applyRanking(retrieval, order)
+    const ranks = order.map((before, after) => ({
+      documentId: retrieval.documents[before].id,
+      title: retrieval.documents[before].title,
+      before: before + 1,
+      after: after + 1,
+      score: scores[before] ?? 0
+    }))
+
+    return {
+      ...reranked,
+      metadata: {
+        ...reranked.metadata,
+        reranking: { mode: settings.mode, model, candidates: count, ranks, durationMs: Date.now() - startTime }
+      }
+    }
+  } catch (error) {
+    console.warn('Reranking failed; keeping the retrieval order', error)
+    return {
+      ...retrieval,
+      metadata: {
+        ...retrieval.metadata,
+        reranking: {
+          mode: settings.mode,
+          model,
+          candidates: count,
+          ranks: [],
+          durationMs: Date.now() - startTime,
+          error: error instanceof Error ? error.message : 'Reranking failed'
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Moves the documents listed in `order` (indices into `retrieval.documents`) to the front,
+ * in that order; documents not listed follow in their original order.
+ */
+export function applyRanking(retrieval: RetrievalResult, order: number[]): RetrievalResult {
+  const listed = new Set(order)
+  const positions = [...order, ...retrieval.documents.map((_, i) => i).filter(i => !listed.has(i))]
+
+  return {
+    ...retrieval,
+    documents: positions.map(i => retrieval.documents[i]),
+    scores: positions.map(i => retrieval.scores[i] ?? 0)
+  }
+}
+
+/** Keeps the first `limit` documents, with their scores and passages */
+export function truncateRetrieval(retrieval: RetrievalResult, limit: number): RetrievalResult {
+  if (retrieval.documents.length <= limit) return retrieval
+
+  const documents = retrieval.documents.slice(0, limit)
+  const kept = new Set(documents.map(doc => doc.id))
+  return {
+    ...retrieval,
+    documents,
+    scores: retrieval.scores.slice(0, limit),
+    passages: retrieval.passages?.filter(passage => kept.has(passage.documentId))
+  }
+}
+
+/**
+ * Reads a listwise answer such as "3 > 1 > 2" into 0-based candidate indices. Unknown and
+ * repeated numbers are skipped; candidates the model left out follow in their original order.
+ */
+export function parseListwiseRanking(text: string, count: number): number[] {
+  const order: number[] = []
+  for (const match of text.matchAll(/\d+/g)) {
+    const index = parseInt(match[0], 10) - 1
+    if (index >= 0 && index < count && !order.includes(index)) order.push(index)
+  }
+  for (let i = 0; i < count; i++) {
+    if (!order.includes(i)) order.push(i)
+  }
+  return order
+}
+
+function candidateTexts(retrieval: RetrievalResult, count: number): string[] {
+  return retrieval.documents.slice(0, count).map(doc => {
+    const best = (retrieval.passages || [])
+      .filter(passage => passage.documentId === doc.id)
+      .sort((a, b) => b.score - a.score)[0]
+    return truncateToTokens(`${doc.title}\n${best?.text ?? doc.content}`, MAX_CANDIDATE_TOKENS)
+  })
+}
+
+async function gradeCandidate(query: string, text: string, model: string): Promise<number> {
+  const prompt = `Rate how well the passage answers the question, from 0 (unrelated) to 10 (answers it fully).
+
+Question: ${query}
+
+Passage:
+${text}
+
+Respond with ONLY the number.`
+
+  const response = await runtime.llm.generate(prompt, model)
+  const grade = parseFloat(response.match(/\d+(\.\d+)?/)?.[0] ?? '')
+  // An unreadable grade ranks the candidate last without failing the whole rerank
+  return Number.isFinite(grade) ? Math.min(Math.max(grade, 0), 10) / 10 : 0
+}
+
+async function orderCandidates(query: string, texts: string[], model: string): Promise<number[]> {
+  const prompt = `Rank the passages by how well they answer the question, most relevant first.
+
+Question: ${query}
+
+${texts.map((text, i) => `[${i + 1}]\n${text}`).join('\n\n')}
+
+Respond with ONLY the passage numbers in order, separated by ">", for example: 2 > 1 > 3`
+
+  const order = parseListwiseRanking(await runtime.llm.generate(prompt, model), texts.length)
+  const scores = new Array<number>(texts.length)
+  order.forEach((index, position) => {
+    scores[index] = (texts.length - position) / texts.length
+  })
+  return scores
+}
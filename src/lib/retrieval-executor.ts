@@ -1,13 +1,30 @@
-import { Document, DocumentChunk } from './types'
+import { Document, DocumentChunk, EmbeddingSettings, FusionOptions, KnowledgeBase } from './types'
 import { RetrievalStrategy } from './agentic-router'
-import { AzureSearchService, SearchResult } from './azure-search'
+import { AzureSearchConfig, AzureSearchService, SearchResult } from './azure-search'
 import { ChunkManager } from './chunk-manager'
-import { generateEmbedding } from './chunking'
+import { embedQuery, isComparableEmbedding } from './chunking'
 import { runtime } from './runtime/manager'
+import { kbStorage } from './kb-storage'
+import { resolveEmbeddingSettings } from './embedding-constants'
+import { modelRegistry } from './model-registry'
+import { formatSectionPath } from './heading-outline'
+import { rankBM25 } from './bm25-index'
+import { fuseRankings, resolveFusionOptions } from './fusion'
+import { ContextExpansionOptions, DEFAULT_CONTEXT_EXPANSION, ExpandedPassage, expandHits } from './context-expansion'
+import type { RerankReport } from './reranker'
+import { DiversificationOptions, isDiversificationEnabled, selectDiverseChunks } from './mmr'
+import { MetadataFilter, applyMetadataFilter, hasMetadataFilter, toODataFilter, toVectorizeFilter } from './metadata-filters'
+
+/** A matched span of a retrieved document; offsets point into the document content */
+export type RetrievedPassage = ExpandedPassage & {
+  documentId: string
+}
 
 export type RetrievalResult = {
   documents: Document[]
   scores: number[]
+  /** Matched passages of `documents`, when retrieval ran on chunks */
+  passages?: RetrievedPassage[]
   method: RetrievalStrategy
   queryUsed: string
   metadata?: {
@@ -20,6 +37,16 @@ export type RetrievalResult = {
     fallbackReason?: string
     retrievalBackend?: 'azure' | 'local'
     cacheHit?: boolean
+    /** Chunks left out because their embeddings come from a different model than the query's */
+    embeddingMismatch?: { queryModel: string; skippedChunks: number }
+    /** How the rankings were combined, for hybrid and RAG-fusion results */
+    fusion?: FusionOptions
+    /** Set when the reranking stage ran on this result */
+    reranking?: RerankReport
+    /** MMR and per-document cap applied to the chunk hits */
+    diversification?: DiversificationOptions
+    /** Metadata filter the documents were restricted to */
+    filter?: MetadataFilter
   }
 }
 
@@ -31,18 +58,26 @@ export type RetrievalResult = {
  *
  * Supported Strategies:
  * - Semantic: Embedding-based vector search
- * - Keyword: Token-matching (BM25-style)
+ * - Keyword: BM25 over a persisted per-KB inverted index
  * - Hybrid: Weighted combination of Semantic and Keyword
  * - Multi-Query: Parallel execution of decomposed sub-queries
  * - RAG Fusion: Query expansion with Reciprocal Rank Fusion (RRF)
  */
 export class RetrievalExecutor {
+  private azureConfig?: AzureSearchConfig
   private azureService?: AzureSearchService
   private chunkManager: ChunkManager
   private knowledgeBaseId?: string
-  private chunkSearchCache = new Map<string, { timestamp: number; results: Array<{ chunk: DocumentChunk; score: number }> }>()
+  private chunkSearchCache = new Map<string, {
+    timestamp: number
+    results: Array<{ chunk: DocumentChunk; score: number }>
+    embeddingMismatch?: { queryModel: string; skippedChunks: number }
+  }>()
   private chunkCacheTtlMs = 20000
   private azureTimeoutMs = 5000
+  private contextExpansion: ContextExpansionOptions = DEFAULT_CONTEXT_EXPANSION
+  private diversification: DiversificationOptions = {}
+  private knowledgeBase?: { timestamp: number; value: KnowledgeBase | null }
 
   constructor(
     azureEndpoint?: string,
@@ -51,38 +86,100 @@ export class RetrievalExecutor {
     knowledgeBaseId?: string
   ) {
     if (azureEndpoint && azureApiKey && azureIndexName) {
-      this.azureService = new AzureSearchService({
+      this.azureConfig = {
         endpoint: azureEndpoint,
         apiKey: azureApiKey,
         indexName: azureIndexName,
-      })
+      }
     }
     this.chunkManager = new ChunkManager()
     this.knowledgeBaseId = knowledgeBaseId
   }
 
+  /** How chunk hits are widened into the passages returned as document content */
+  setContextExpansion(options: Partial<ContextExpansionOptions>) {
+    this.contextExpansion = { ...DEFAULT_CONTEXT_EXPANSION, ...options }
+  }
+
+  /** MMR and per-document cap for chunk hits; an empty object keeps plain score order */
+  setDiversification(options: DiversificationOptions) {
+    this.diversification = { ...options }
+  }
+
+  /** Per-KB retrieval settings, re-read at most every `chunkCacheTtlMs` */
+  private async getKnowledgeBase(): Promise<KnowledgeBase | null> {
+    if (!this.knowledgeBaseId) return null
+
+    const now = Date.now()
+    if (!this.knowledgeBase || now - this.knowledgeBase.timestamp >= this.chunkCacheTtlMs) {
+      this.knowledgeBase = { timestamp: now, value: await kbStorage.getKnowledgeBase(this.knowledgeBaseId) }
+    }
+    return this.knowledgeBase.value
+  }
+
+  /** The knowledge base's embedding model; queries must be embedded with it to match its chunks */
+  private async getEmbeddingSettings(): Promise<EmbeddingSettings> {
+    return resolveEmbeddingSettings((await this.getKnowledgeBase())?.embedding)
+  }
+
+  /** Azure service expecting query vectors of the knowledge base's dimension */
+  private async getAzureService(): Promise<AzureSearchService | undefined> {
+    if (!this.azureConfig) return undefined
+
+    const { dimension } = await this.getEmbeddingSettings()
+    if (this.azureService?.embeddingDimension !== dimension) {
+      this.azureService = new AzureSearchService({ ...this.azureConfig, embeddingDimension: dimension })
+    }
+    return this.azureService
+  }
+
+  /**
+   * Runs `strategy` over `documents`. With a metadata `filter`, only matching documents can be
+   * returned: backends receive the filter in their own syntax, and every result is mapped back
+   * through the filtered document list.
+   */
   async executeRetrieval(
     query: string,
     documents: Document[],
     strategy: RetrievalStrategy,
     topK: number = 5,
-    subQueries?: string[]
+    subQueries?: string[],
+    filter?: MetadataFilter
+  ): Promise<RetrievalResult> {
+    if (!hasMetadataFilter(filter)) {
+      return this.runStrategy(query, documents, strategy, topK, subQueries)
+    }
+
+    const allowed = applyMetadataFilter(documents, filter)
+    const result = allowed.length > 0
+      ? await this.runStrategy(query, allowed, strategy, topK, subQueries, filter)
+      : { documents: [], scores: [], method: strategy, queryUsed: query }
+    return { ...result, metadata: { ...result.metadata, filter } }
+  }
+
+  private async runStrategy(
+    query: string,
+    documents: Document[],
+    strategy: RetrievalStrategy,
+    topK: number,
+    subQueries?: string[],
+    filter?: MetadataFilter
   ): Promise<RetrievalResult> {
     switch (strategy) {
       case 'semantic':
-        return this.semanticRetrieval(query, documents, topK)
+        return this.semanticRetrieval(query, documents, topK, filter)
 
       case 'keyword':
-        return this.keywordRetrieval(query, documents, topK)
+        return this.keywordRetrieval(query, documents, topK, filter)
 
       case 'hybrid':
-        return this.hybridRetrieval(query, documents, topK)
+        return this.hybridRetrieval(query, documents, topK, filter)
 
       case 'multi_query':
-        return this.multiQueryRetrieval(query, documents, topK, subQueries)
+        return this.multiQueryRetrieval(query, documents, topK, subQueries, filter)
 
       case 'rag_fusion':
-        return this.ragFusionRetrieval(query, documents, topK)
+        return this.ragFusionRetrieval(query, documents, topK, filter)
 
       case 'direct_answer':
         return {
@@ -93,27 +190,29 @@ export class RetrievalExecutor {
         }
 
       default:
-        return this.hybridRetrieval(query, documents, topK)
+        return this.hybridRetrieval(query, documents, topK, filter)
     }
   }
 
   private async semanticRetrieval(
     query: string,
     documents: Document[],
-    topK: number
+    topK: number,
+    filter?: MetadataFilter
   ): Promise<RetrievalResult> {
     // Azure vector search first when configured
     let fallbackReason: string | undefined
-    if (this.azureService) {
+    const azureService = await this.getAzureService()
+    if (azureService) {
       try {
         // Generate query embedding for vector search
-        const queryEmbedding = await generateEmbedding(query)
+        const { embedding: queryEmbedding } = await embedQuery(query, await this.getEmbeddingSettings())
 
-        // Use Azure's native vector search with embeddings aligned to the configured dimension
-        const results = await this.azureService.vectorSearch(
+        // Use Azure's native vector search with embeddings aligned to the knowledge base's dimension
+        const results = await azureService.vectorSearch(
           queryEmbedding,
           topK,
-          undefined,
+          toODataFilter(filter, documents),
           { timeoutMs: this.azureTimeoutMs }
         )
 
@@ -141,7 +240,7 @@ export class RetrievalExecutor {
     }
 
     if (this.knowledgeBaseId) {
-      const fallback = await this.chunkBasedRetrieval(query, documents, 'semantic', topK)
+      const fallback = await this.chunkBasedRetrieval(query, documents, 'semantic', topK, filter)
       return {
         ...fallback,
         metadata: { ...fallback.metadata, fallbackReason }
@@ -159,49 +258,78 @@ export class RetrievalExecutor {
     query: string,
     documents: Document[],
     strategy: RetrievalStrategy,
-    topK: number
+    topK: number,
+    filter?: MetadataFilter
   ): Promise<RetrievalResult> {
     if (!this.knowledgeBaseId) {
       return this.simulatedSemanticSearch(query, documents, topK)
     }
     // Generate query embedding for semantic search
-    const queryEmbedding = strategy === 'semantic' ? await generateEmbedding(query) : null
+    const queryVector = strategy === 'semantic' ? await embedQuery(query, await this.getEmbeddingSettings()) : null
+    // Diversification needs a wider pool to pick from than the hits it keeps
+    const diversify = isDiversificationEnabled(this.diversification)
+    const poolSize = diversify ? topK * 6 : topK * 3
+
+    // Chunks of documents outside the filter are dropped before they are ranked or cached
+    const allowedIds = hasMetadataFilter(filter) ? new Set(documents.map(d => d.id)) : undefined
 
-    const cacheKey = `${this.knowledgeBaseId}:${strategy}:${query}:${topK}`
+    const cacheKey = `${this.knowledgeBaseId}:${strategy}:${query}:${poolSize}${allowedIds ? `:${JSON.stringify(filter)}` : ''}`
     const cached = this.chunkSearchCache.get(cacheKey)
     const now = Date.now()
 
     let chunkResults: Array<{ chunk: DocumentChunk; score: number }> = []
+    let embeddingMismatch: { queryModel: string; skippedChunks: number } | undefined
 
     if (cached && now - cached.timestamp < this.chunkCacheTtlMs) {
       chunkResults = cached.results
+      embeddingMismatch = cached.embeddingMismatch
     } else {
-      if (queryEmbedding && runtime.vectorStore) {
-        try {
-          const matches = await runtime.vectorStore.query(queryEmbedding, topK * 3, { kbId: this.knowledgeBaseId })
-          const allChunks = await this.chunkManager.getChunksByKB(this.knowledgeBaseId)
-          const chunkMap = new Map(allChunks.map(c => [c.id, c]))
-          chunkResults = matches
-            .map(m => {
-              const chunk = chunkMap.get(m.id)
-              return chunk ? { chunk, score: m.score } : null
+      if (queryVector) {
+        const allChunks = await this.chunkManager.getChunksByKB(this.knowledgeBaseId)
+        // Scores between vectors of different models are meaningless, so those chunks are skipped
+        const comparable = allChunks.filter(c => isComparableEmbedding(c, queryVector.model, queryVector.embedding.length))
+        const skippedChunks = allChunks.filter(c => c.embedding?.length).length - comparable.length
+        if (skippedChunks > 0) {
+          embeddingMismatch = { queryModel: queryVector.model, skippedChunks }
+          console.warn(`Skipped ${skippedChunks} chunk(s) embedded with a model other than ${queryVector.model}; re-embed the knowledge base to search them`)
+        }
+        const searchable = allowedIds ? comparable.filter(c => allowedIds.has(c.documentId)) : comparable
+
+        if (runtime.vectorStore) {
+          try {
+            const matches = await runtime.vectorStore.query(queryVector.embedding, poolSize, {
+              kbId: this.knowledgeBaseId,
+              ...toVectorizeFilter(filter, documents)
             })
-            .filter((v): v is { chunk: DocumentChunk; score: number } => Boolean(v))
-        } catch (error) {
-          console.warn('Vector query failed; falling back to KV chunk search', error)
+            const chunkMap = new Map(searchable.map(c => [c.id, c]))
+            chunkResults = matches
+              .map(m => {
+                const chunk = chunkMap.get(m.id)
+                return chunk ? { chunk, score: m.score } : null
+              })
+              .filter((v): v is { chunk: DocumentChunk; score: number } => Boolean(v))
+          } catch (error) {
+            console.warn('Vector query failed; falling back to KV chunk search', error)
+          }
         }
-      }
 
-      if (chunkResults.length === 0) {
-        // Fallback to KV-based search
-        chunkResults = queryEmbedding
-          ? await this.chunkManager.searchChunksWithEmbedding(queryEmbedding, this.knowledgeBaseId!, topK * 3)
-          : await this.chunkManager.searchChunks(query, this.knowledgeBaseId!, topK * 3)
+        if (chunkResults.length === 0) {
+          // Fallback to KV-based search
+          chunkResults = this.chunkManager.rankChunksByEmbedding(queryVector.embedding, searchable, poolSize)
+        }
+      } else {
+        // The BM25 index cannot be filtered, so draw a wider pool to filter from
+        chunkResults = await this.chunkManager.searchChunks(query, this.knowledgeBaseId!, allowedIds ? poolSize * 4 : poolSize)
+        if (allowedIds) {
+          chunkResults = chunkResults.filter(r => allowedIds.has(r.chunk.documentId))
+        }
       }
 
-      this.chunkSearchCache.set(cacheKey, { timestamp: now, results: chunkResults })
+      this.chunkSearchCache.set(cacheKey, { timestamp: now, results: chunkResults, embeddingMismatch })
     }
 
+    const hits = diversify ? selectDiverseChunks(chunkResults, topK * 3, this.diversification) : chunkResults
+
     // Map chunks back to documents with context
     const documentMap = new Map<string, {
       doc: Document
@@ -209,7 +337,7 @@ export class RetrievalExecutor {
       maxScore: number
     }>()
 
-    for (const result of chunkResults) {
+    for (const result of hits) {
       const doc = documents.find(d => d.id === result.chunk.documentId)
       if (!doc) continue
 
@@ -226,28 +354,40 @@ export class RetrievalExecutor {
       entry.maxScore = Math.max(entry.maxScore, result.score)
     }
 
-    // Sort by max chunk score and take topK documents
-    const sortedDocs = Array.from(documentMap.values())
-      .sort((a, b) => b.maxScore - a.maxScore)
+    // Sort by max chunk score and take topK documents; diversified hits keep their selection order
+    const entries = Array.from(documentMap.values())
+    const sortedDocs = (diversify ? entries : entries.sort((a, b) => b.maxScore - a.maxScore))
       .slice(0, topK)
 
-    // Create enhanced documents with chunk context
-    const retrievedDocs = sortedDocs.map(entry => {
-      // Combine top 3 chunks for this document
-      const topChunks = entry.chunks
-        .slice(0, 3)
-        .map(c => c.chunk.text)
+    // Widen the matched chunks into passages and use those as the document content
+    const retrievedDocs = await Promise.all(sortedDocs.map(async entry => {
+      const siblings = this.contextExpansion.mode === 'none'
+        ? []
+        : await this.chunkManager.getChunksByDocument(entry.doc.id, this.knowledgeBaseId!)
+      const passages = expandHits(entry.chunks.slice(0, 3), siblings, entry.doc.content, this.contextExpansion)
+
+      const content = passages
+        .map(p => p.sectionPath?.length ? `[Section: ${formatSectionPath(p.sectionPath)}]\n${p.text}` : p.text)
         .join('\n\n---\n\n')
+      const matchedSections = passages
+        .map(p => p.sectionPath)
+        .filter((path): path is string[] => Boolean(path?.length))
+        .map(formatSectionPath)
 
       return {
-        ...entry.doc,
-        content: topChunks // Use chunk content instead of full document
+        doc: {
+          ...entry.doc,
+          content,
+          matchedSections: matchedSections.length > 0 ? [...new Set(matchedSections)] : undefined
+        },
+        passages: passages.map(p => ({ ...p, documentId: entry.doc.id }))
       }
-    })
+    }))
 
     return {
-      documents: retrievedDocs,
+      documents: retrievedDocs.map(r => r.doc),
       scores: sortedDocs.map(e => e.maxScore),
+      passages: retrievedDocs.flatMap(r => r.passages),
       method: strategy,
       queryUsed: query,
       metadata: {
@@ -255,7 +395,9 @@ export class RetrievalExecutor {
         totalChunks: chunkResults.length,
         uniqueDocuments: documentMap.size,
         retrievalBackend: 'local',
-        cacheHit: Boolean(cached)
+        cacheHit: Boolean(cached),
+        embeddingMismatch,
+        diversification: diversify ? { ...this.diversification } : undefined
       }
     }
   }
@@ -274,7 +416,7 @@ export class RetrievalExecutor {
 
       queryTerms.forEach(term => {
         if (term.length > 2) {
-          const termCount = (text.match(new RegExp(term, 'g')) || []).length
+          const termCount = text.split(term).length - 1
           score += termCount * (term.length / 10)
         }
       })
@@ -300,12 +442,14 @@ export class RetrievalExecutor {
   private async keywordRetrieval(
     query: string,
     documents: Document[],
-    topK: number
+    topK: number,
+    filter?: MetadataFilter
   ): Promise<RetrievalResult> {
-    if (this.azureService) {
+    const azureService = await this.getAzureService()
+    if (azureService) {
       let fallbackReason: string | undefined
       try {
-        const results = await this.azureService.search(query, topK, undefined, 'keyword', {
+        const results = await azureService.search(query, topK, toODataFilter(filter, documents), 'keyword', {
           timeoutMs: this.azureTimeoutMs
         })
         const docMap = new Map(documents.map(d => [d.id, d]))
@@ -335,7 +479,7 @@ export class RetrievalExecutor {
         console.error('Azure keyword search failed, falling back to simulated', error)
       }
       if (this.knowledgeBaseId) {
-        const fallback = await this.chunkBasedRetrieval(query, documents, 'keyword', topK)
+        const fallback = await this.chunkBasedRetrieval(query, documents, 'keyword', topK, filter)
         return {
           ...fallback,
           metadata: { ...fallback.metadata, fallbackReason }
@@ -350,62 +494,52 @@ export class RetrievalExecutor {
     }
 
     if (this.knowledgeBaseId) {
-      return this.chunkBasedRetrieval(query, documents, 'keyword', topK)
+      return this.chunkBasedRetrieval(query, documents, 'keyword', topK, filter)
     }
 
     return this.simulatedKeywordRetrieval(query, documents, topK)
   }
 
+  /** BM25 over whole documents (title and content), for retrieval without a knowledge base index */
   private async simulatedKeywordRetrieval(
     query: string,
     documents: Document[],
     topK: number
   ): Promise<RetrievalResult> {
-    const queryTerms = query.toLowerCase().split(/\s+/).filter(t => t.length > 2)
-
-    const scored = documents.map(doc => {
-      const text = (doc.title + ' ' + doc.content).toLowerCase()
-      const words = text.split(/\s+/)
+    const docMap = new Map(documents.map(d => [d.id, d]))
+    const ranked = rankBM25(query, documents.map(doc => ({ id: doc.id, title: doc.title, body: doc.content })))
+    const topResults = ranked.slice(0, topK)
+    const best = topResults[0]?.score || 1
 
-      let exactMatches = 0
-      queryTerms.forEach(term => {
-        exactMatches += words.filter(w => w === term).length
-      })
-
-      const score = exactMatches / (queryTerms.length * 5)
-      return { doc, score: Math.min(score, 1) }
-    })
-
-    scored.sort((a, b) => b.score - a.score)
-    const topResults = scored.slice(0, topK)
-
-    return Promise.resolve({
-      documents: topResults.map(r => r.doc),
-      scores: topResults.map(r => r.score),
+    return {
+      documents: topResults.map(r => docMap.get(r.id)!),
+      scores: topResults.map(r => r.score / best),
       method: 'keyword',
       queryUsed: query
-    })
+    }
   }
 
   private async hybridRetrieval(
     query: string,
     documents: Document[],
-    topK: number
+    topK: number,
+    filter?: MetadataFilter
   ): Promise<RetrievalResult> {
     // Azure hybrid search with semantic reranking first when configured
     let fallbackReason: string | undefined
-    if (this.azureService) {
+    const azureService = await this.getAzureService()
+    if (azureService) {
       try {
         // Generate query embedding for hybrid search
-        const queryEmbedding = await generateEmbedding(query)
+        const { embedding: queryEmbedding } = await embedQuery(query, await this.getEmbeddingSettings())
 
         // Use Azure's native hybrid search with vector + keyword + L2 semantic reranking
-        const results = await this.azureService.hybridSearch(
+        const results = await azureService.hybridSearch(
           query,
           queryEmbedding,
           topK,
           true,  // Enable semantic reranking
-          undefined,
+          toODataFilter(filter, documents),
           { timeoutMs: this.azureTimeoutMs }
         )
 
@@ -434,40 +568,17 @@ export class RetrievalExecutor {
 
     // Fallback to manual hybrid retrieval (semantic + keyword fusion)
     const [semanticResult, keywordResult] = await Promise.all([
-      this.semanticRetrieval(query, documents, topK * 2),
-      this.keywordRetrieval(query, documents, topK * 2)
+      this.semanticRetrieval(query, documents, topK * 2, filter),
+      this.keywordRetrieval(query, documents, topK * 2, filter)
     ])
 
-    const scoreMap = new Map<string, { doc: Document; semanticScore: number; keywordScore: number }>()
-
-    semanticResult.documents.forEach((doc, i) => {
-      scoreMap.set(doc.id, {
-        doc,
-        semanticScore: semanticResult.scores[i] || 0,
-        keywordScore: 0
-      })
-    })
-
-    keywordResult.documents.forEach((doc, i) => {
-      const existing = scoreMap.get(doc.id)
-      if (existing) {
-        existing.keywordScore = keywordResult.scores[i] || 0
-      } else {
-        scoreMap.set(doc.id, {
-          doc,
-          semanticScore: 0,
-          keywordScore: keywordResult.scores[i] || 0
-        })
-      }
-    })
-
-    const hybridScored = Array.from(scoreMap.values()).map(item => ({
-      doc: item.doc,
-      score: (item.semanticScore * 0.6) + (item.keywordScore * 0.4)
-    }))
-
-    hybridScored.sort((a, b) => b.score - a.score)
-    const topResults = hybridScored.slice(0, topK)
+    const fusion = resolveFusionOptions((await this.getKnowledgeBase())?.fusion)
+    const docMap = new Map([...semanticResult.documents, ...keywordResult.documents].map(d => [d.id, d]))
+    const fused = fuseRankings([
+      { ids: semanticResult.documents.map(d => d.id), scores: semanticResult.scores, weight: fusion.semanticWeight },
+      { ids: keywordResult.documents.map(d => d.id), scores: keywordResult.scores, weight: 1 - fusion.semanticWeight },
+    ], fusion)
+    const topResults = fused.slice(0, topK).map(r => ({ doc: docMap.get(r.id)!, score: r.score }))
 
     const combinedFallbackReason = fallbackReason || semanticResult.metadata?.fallbackReason || keywordResult.metadata?.fallbackReason
     const chunkBased = semanticResult.metadata?.chunkBased || keywordResult.metadata?.chunkBased
@@ -475,13 +586,16 @@ export class RetrievalExecutor {
     return {
       documents: topResults.map(r => r.doc),
       scores: topResults.map(r => r.score),
+      passages: collectPassages([semanticResult, keywordResult], topResults.map(r => r.doc)),
       method: 'hybrid',
       queryUsed: query,
-      metadata: combinedFallbackReason || chunkBased ? {
+      metadata: {
         fallbackReason: combinedFallbackReason,
         chunkBased,
-        retrievalBackend: semanticResult.metadata?.retrievalBackend || keywordResult.metadata?.retrievalBackend || 'local'
-      } : undefined
+        retrievalBackend: semanticResult.metadata?.retrievalBackend || keywordResult.metadata?.retrievalBackend || 'local',
+        embeddingMismatch: semanticResult.metadata?.embeddingMismatch,
+        fusion
+      }
     }
   }
 
@@ -489,14 +603,15 @@ export class RetrievalExecutor {
     query: string,
     documents: Document[],
     topK: number,
-    subQueries?: string[]
+    subQueries?: string[],
+    filter?: MetadataFilter
   ): Promise<RetrievalResult> {
     if (!subQueries || subQueries.length === 0) {
-      return this.hybridRetrieval(query, documents, topK)
+      return this.hybridRetrieval(query, documents, topK, filter)
     }
 
     const results = await Promise.all(
-      subQueries.map(sq => this.hybridRetrieval(sq, documents, topK))
+      subQueries.map(sq => this.hybridRetrieval(sq, documents, topK, filter))
     )
 
     const scoreMap = new Map<string, { doc: Document; totalScore: number; appearances: number }>()
@@ -535,6 +650,7 @@ export class RetrievalExecutor {
     return {
       documents: topResults.map(r => r.doc),
       scores: topResults.map(r => r.score),
+      passages: collectPassages(results, topResults.map(r => r.doc)),
       method: 'multi_query',
       queryUsed: query,
       metadata: { subQueryResults: subQueryResultsMap }
@@ -544,22 +660,29 @@ export class RetrievalExecutor {
   private async ragFusionRetrieval(
     query: string,
     documents: Document[],
-    topK: number
+    topK: number,
+    filter?: MetadataFilter
   ): Promise<RetrievalResult> {
     const variations = await this.generateQueryVariations(query)
 
     const results = await Promise.all(
-      variations.map(v => this.hybridRetrieval(v, documents, topK * 2))
+      variations.map(v => this.hybridRetrieval(v, documents, topK * 2, filter))
     )
 
-    const rrfScores = this.reciprocalRankFusion(results, topK)
+    // RAG-fusion always fuses by rank; the knowledge base tunes k
+    const fusion: FusionOptions = { ...resolveFusionOptions((await this.getKnowledgeBase())?.fusion), method: 'rrf' }
+    const docMap = new Map(results.flatMap(r => r.documents).map(d => [d.id, d]))
+    const rrfScores = fuseRankings(results.map(r => ({ ids: r.documents.map(d => d.id), scores: r.scores })), fusion)
+      .slice(0, topK)
+      .map(r => ({ doc: docMap.get(r.id)!, score: r.score }))
 
     return {
       documents: rrfScores.map(r => r.doc),
       scores: rrfScores.map(r => r.score),
+      passages: collectPassages(results, rrfScores.map(r => r.doc)),
       method: 'rag_fusion',
       queryUsed: query,
-      metadata: { ragFusionVariations: variations }
+      metadata: { ragFusionVariations: variations, fusion }
     }
   }
 
@@ -573,42 +696,33 @@ Provide JSON array: ["variation 1", "variation 2", "variation 3"]
 Respond with ONLY valid JSON array.`
 
     try {
-      const result = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast', true)
+      const result = await runtime.llm.generate(prompt, await modelRegistry.getModel('reformulation', this.knowledgeBaseId), true)
       const parsed = JSON.parse(result)
       return Array.isArray(parsed) ? [query, ...parsed] : [query]
     } catch {
       return [query]
     }
   }
+}
 
-  private reciprocalRankFusion(
-    results: RetrievalResult[],
-    topK: number,
-    k: number = 60
-  ): Array<{ doc: Document; score: number }> {
-    const rrfScores = new Map<string, { doc: Document; score: number }>()
-
-    results.forEach(result => {
-      result.documents.forEach((doc, rank) => {
-        const rrfScore = 1 / (k + rank + 1)
-        const existing = rrfScores.get(doc.id)
-
-        if (existing) {
-          existing.score += rrfScore
-        } else {
-          rrfScores.set(doc.id, { doc, score: rrfScore })
-        }
-      })
-    })
-
-    const sorted = Array.from(rrfScores.values())
-      .sort((a, b) => b.score - a.score)
-      .slice(0, topK)
-
-    const maxScore = sorted[0]?.score || 1
-    return sorted.map(item => ({
-      doc: item.doc,
-      score: item.score / maxScore
-    }))
+/**
+ * Passages of the kept documents across several result sets. Where passages found by
+ * different queries or strategies overlap, only the best-scoring one is kept.
+ */
+function collectPassages(results: RetrievalResult[], documents: Document[]): RetrievedPassage[] | undefined {
+  const kept = new Set(documents.map(d => d.id))
+  const collected: RetrievedPassage[] = []
+
+  const candidates = results
+    .flatMap(r => r.passages || [])
+    .filter(p => kept.has(p.documentId))
+    .sort((a, b) => b.score - a.score)
+
+  for (const passage of candidates) {
+    const overlaps = collected.some(p => p.documentId === passage.documentId
+      && p.startIndex < passage.endIndex && passage.startIndex < p.endIndex)
+    if (!overlaps) collected.push(passage)
   }
+
+  return collected.length > 0 ? collected : undefined
 }
@@ -1,5 +1,7 @@
-import { RuntimeAdapter, LLMProvider, KeyValueStore, EmbeddingProvider, VectorStore } from './interfaces'
-import { DEFAULT_CF_EMBEDDING_MODEL, MAX_EMBEDDING_TEXT_LENGTH } from '../embedding-constants'
+import { RuntimeAdapter, LLMProvider, KeyValueStore, EmbeddingProvider, VectorStore, RerankProvider, VersionedValue } from './interfaces'
+import { DEFAULT_CF_EMBEDDING_MODEL, EMBEDDING_MODELS, MAX_EMBEDDING_TEXT_LENGTH } from '../embedding-constants'
+import { DEFAULT_LLM_MODEL, DEFAULT_RERANK_MODEL, MAX_RERANK_TEXT_LENGTH } from '../model-defaults'
+import { parseSSEStream } from '../sse'
 
 /**
  * Cloudflare Workers Runtime Adapter
@@ -7,12 +9,12 @@ import { DEFAULT_CF_EMBEDDING_MODEL, MAX_EMBEDDING_TEXT_LENGTH } from '../embedd
  */
 
 class CloudflareLLMProvider implements LLMProvider {
-  constructor(private apiBase: string) {}
+  constructor(private apiBase: string, private authHeaders: () => Record<string, string>) {}
 
-  async generate(prompt: string, model: string = '@cf/meta/llama-3.3-70b-instruct-fp8-fast', jsonMode: boolean = false): Promise<string> {
+  async generate(prompt: string, model: string = DEFAULT_LLM_MODEL, jsonMode: boolean = false): Promise<string> {
     const response = await fetch(`${this.apiBase}/api/llm`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
       body: JSON.stringify({ prompt, model, jsonMode })
     })
 
@@ -24,10 +26,10 @@ class CloudflareLLMProvider implements LLMProvider {
     return data.response
   }
 
-  async *generateStream(prompt: string, model: string = '@cf/meta/llama-3.3-70b-instruct-fp8-fast'): AsyncGenerator<string, void, unknown> {
+  async *generateStream(prompt: string, model: string = DEFAULT_LLM_MODEL): AsyncGenerator<string, void, unknown> {
     const response = await fetch(`${this.apiBase}/api/llm/stream`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
       body: JSON.stringify({ prompt, model })
     })
 
@@ -35,32 +37,31 @@ class CloudflareLLMProvider implements LLMProvider {
       throw new Error(`Cloudflare Workers AI stream error: ${response.statusText}`)
     }
 
-    const reader = response.body?.getReader()
-    if (!reader) {
+    if (!response.body) {
       throw new Error('No readable stream available')
     }
 
-    const decoder = new TextDecoder()
+    // Workers AI streams SSE frames of the form `data: {"response":"..."}`, ending with `data: [DONE]`
+    for await (const event of parseSSEStream(response.body)) {
+      if (event.data === '[DONE]') break
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        const chunk = decoder.decode(value)
-        yield chunk
+      try {
+        const parsed = JSON.parse(event.data) as { response?: string }
+        if (parsed.response) yield parsed.response
+      } catch {
+        // Ignore keep-alive or partial frames
       }
-    } finally {
-      reader.releaseLock()
     }
   }
 }
 
 class CloudflareKeyValueStore implements KeyValueStore {
-  constructor(private apiBase: string) {}
+  constructor(private apiBase: string, private authHeaders: () => Record<string, string>) {}
 
   async get<T>(key: string): Promise<T | null> {
-    const response = await fetch(`${this.apiBase}/api/kv/${encodeURIComponent(key)}`)
+    const response = await fetch(`${this.apiBase}/api/kv/${encodeURIComponent(key)}`, {
+      headers: this.authHeaders()
+    })
 
     if (!response.ok) {
       if (response.status === 404) return null
@@ -74,7 +75,7 @@ class CloudflareKeyValueStore implements KeyValueStore {
   async set<T>(key: string, value: T): Promise<void> {
     const response = await fetch(`${this.apiBase}/api/kv/${encodeURIComponent(key)}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
       body: JSON.stringify({ value })
     })
 
@@ -85,7 +86,8 @@ class CloudflareKeyValueStore implements KeyValueStore {
 
   async delete(key: string): Promise<void> {
     const response = await fetch(`${this.apiBase}/api/kv/${encodeURIComponent(key)}`, {
-      method: 'DELETE'
+      method: 'DELETE',
+      headers: this.authHeaders()
     })
 
     if (!response.ok) {
@@ -98,12 +100,41 @@ class CloudflareKeyValueStore implements KeyValueStore {
     return value !== null
   }
 
+  async getWithVersion<T>(key: string): Promise<VersionedValue<T>> {
+    const response = await fetch(`${this.apiBase}/api/kv/${encodeURIComponent(key)}`, {
+      headers: this.authHeaders()
+    })
+
+    if (!response.ok) {
+      if (response.status === 404) return { value: null, version: null }
+      throw new Error(`Cloudflare KV error: ${response.statusText}`)
+    }
+
+    const data = await response.json() as { value: T | null; version?: string | null }
+    return { value: data.value, version: data.version ?? null }
+  }
+
+  async setIfVersion<T>(key: string, value: T, version: string | null): Promise<boolean> {
+    const response = await fetch(`${this.apiBase}/api/kv/${encodeURIComponent(key)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      body: JSON.stringify({ value, ifVersion: version })
+    })
+
+    // 409: someone else wrote the key since it was read
+    if (response.status === 409) return false
+    if (!response.ok) {
+      throw new Error(`Cloudflare KV error: ${response.statusText}`)
+    }
+    return true
+  }
+
   async keys(prefix?: string): Promise<string[]> {
     const url = prefix
       ? `${this.apiBase}/api/kv?prefix=${encodeURIComponent(prefix)}`
       : `${this.apiBase}/api/kv`
 
-    const response = await fetch(url)
+    const response = await fetch(url, { headers: this.authHeaders() })
 
     if (!response.ok) {
       throw new Error(`Cloudflare KV error: ${response.statusText}`)
@@ -115,15 +146,18 @@ class CloudflareKeyValueStore implements KeyValueStore {
 }
 
 class CloudflareEmbeddingProvider implements EmbeddingProvider {
-  constructor(private apiBase: string) {}
+  readonly model = DEFAULT_CF_EMBEDDING_MODEL
+  readonly models = EMBEDDING_MODELS.map(m => m.id)
+
+  constructor(private apiBase: string, private authHeaders: () => Record<string, string>) {}
 
-  async embed(texts: string[]): Promise<number[][]> {
+  async embed(texts: string[], model: string = DEFAULT_CF_EMBEDDING_MODEL): Promise<number[][]> {
     const response = await fetch(`${this.apiBase}/api/embed`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
       body: JSON.stringify({
         texts: texts.map(text => text.substring(0, MAX_EMBEDDING_TEXT_LENGTH)),
-        model: DEFAULT_CF_EMBEDDING_MODEL
+        model
       })
     })
 
@@ -137,12 +171,12 @@ class CloudflareEmbeddingProvider implements EmbeddingProvider {
 }
 
 class CloudflareVectorStore implements VectorStore {
-  constructor(private apiBase: string) {}
+  constructor(private apiBase: string, private authHeaders: () => Record<string, string>) {}
 
   async upsert(vectors: Array<{ id: string; values: number[]; metadata?: Record<string, any> }>): Promise<void> {
     const response = await fetch(`${this.apiBase}/api/vector/upsert`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
       body: JSON.stringify({ vectors })
     })
 
@@ -158,7 +192,7 @@ class CloudflareVectorStore implements VectorStore {
   ): Promise<Array<{ id: string; score: number; metadata?: Record<string, any> }>> {
     const response = await fetch(`${this.apiBase}/api/vector/query`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
       body: JSON.stringify({ vector, topK, filter })
     })
 
@@ -174,7 +208,7 @@ class CloudflareVectorStore implements VectorStore {
     if (ids.length === 0) return
     const response = await fetch(`${this.apiBase}/api/vector/delete`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
       body: JSON.stringify({ ids })
     })
 
@@ -184,22 +218,120 @@ class CloudflareVectorStore implements VectorStore {
   }
 }
 
+class CloudflareRerankProvider implements RerankProvider {
+  constructor(private apiBase: string, private authHeaders: () => Record<string, string>) {}
+
+  async rerank(query: string, texts: string[], model: string = DEFAULT_RERANK_MODEL): Promise<number[]> {
+    const response = await fetch(`${this.apiBase}/api/rerank`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+      body: JSON.stringify({
+        query,
+        texts: texts.map(text => text.substring(0, MAX_RERANK_TEXT_LENGTH)),
+        model
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Cloudflare AI rerank error: ${response.statusText}`)
+    }
+
+    const data = await response.json() as { scores: number[] }
+    return data.scores
+  }
+}
+
+/** localStorage key holding the API key used to authenticate against the Worker */
+export const API_KEY_STORAGE_KEY = 'cloudrag:api-key'
+
+export function loadStoredApiKey(): string | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage.getItem(API_KEY_STORAGE_KEY) : null
+  } catch {
+    return null
+  }
+}
+
+export function buildAuthHeaders(apiKey: string | null | undefined): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+}
+
+export type CloudflareAuthStatus = {
+  authRequired: boolean
+  key: { id: string; name: string; scopes: Array<'query' | 'ingest' | 'admin'>; createdAt: number } | null
+}
+
+export type CloudflareRuntimeOptions = {
+  apiKey?: string
+  headers?: Record<string, string>
+}
+
 export class CloudflareRuntimeAdapter implements RuntimeAdapter {
   llm: LLMProvider
   kv: KeyValueStore
   embedder?: EmbeddingProvider
   vectorStore?: VectorStore
+  reranker?: RerankProvider
   name = 'cloudflare'
   version = '1.0.0'
   private apiBase: string
+  private apiKey: string | null
+  private extraHeaders: Record<string, string>
 
-  constructor(apiBase?: string) {
+  constructor(apiBase?: string, options: CloudflareRuntimeOptions = {}) {
     // Use same origin by default (Worker serves the app)
     this.apiBase = apiBase || (typeof window !== 'undefined' ? window.location.origin : '')
-    this.llm = new CloudflareLLMProvider(this.apiBase)
-    this.kv = new CloudflareKeyValueStore(this.apiBase)
-    this.embedder = new CloudflareEmbeddingProvider(this.apiBase)
-    this.vectorStore = new CloudflareVectorStore(this.apiBase)
+    this.apiKey = options.apiKey ?? loadStoredApiKey()
+    this.extraHeaders = options.headers || {}
+
+    const authHeaders = () => this.getAuthHeaders()
+    this.llm = new CloudflareLLMProvider(this.apiBase, authHeaders)
+    this.kv = new CloudflareKeyValueStore(this.apiBase, authHeaders)
+    this.embedder = new CloudflareEmbeddingProvider(this.apiBase, authHeaders)
+    this.vectorStore = new CloudflareVectorStore(this.apiBase, authHeaders)
+    this.reranker = new CloudflareRerankProvider(this.apiBase, authHeaders)
+  }
+
+  /**
+   * Sets the bearer key sent with every request. Pass `persist` to remember it in localStorage
+   * for future sessions; `null` clears it.
+   */
+  setApiKey(apiKey: string | null, persist: boolean = true) {
+    this.apiKey = apiKey || null
+
+    if (persist && typeof localStorage !== 'undefined') {
+      if (this.apiKey) {
+        localStorage.setItem(API_KEY_STORAGE_KEY, this.apiKey)
+      } else {
+        localStorage.removeItem(API_KEY_STORAGE_KEY)
+      }
+    }
+  }
+
+  getAuthHeaders(): Record<string, string> {
+    return { ...this.extraHeaders, ...buildAuthHeaders(this.apiKey) }
+  }
+
+  hasApiKey(): boolean {
+    return this.apiKey !== null
+  }
+
+  /**
+   * Asks the Worker which key a request authenticates as. Pass `apiKey` to check a key
+   * before switching to it.
+   */
+  async getAuthStatus(apiKey?: string): Promise<CloudflareAuthStatus> {
+    const headers = apiKey !== undefined
+      ? { ...this.extraHeaders, ...buildAuthHeaders(apiKey) }
+      : this.getAuthHeaders()
+    const response = await fetch(`${this.apiBase}/api/auth/me`, { headers })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({})) as { error?: string }
+      throw new Error(`Cloudflare auth error: ${data.error || response.statusText}`)
+    }
+
+    return await response.json() as CloudflareAuthStatus
   }
 
   static isAvailable(): boolean {
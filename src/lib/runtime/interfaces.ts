@@ -4,7 +4,16 @@ export interface LLMProvider {
 }
 
 export interface EmbeddingProvider {
-  embed(texts: string[]): Promise<number[][]>
+  /** Model id recorded on stored embeddings; vectors from different models are not comparable */
+  readonly model?: string
+  /** Other models `embed` can be asked for; providers without the list always embed with `model` */
+  readonly models?: readonly string[]
+  embed(texts: string[], model?: string): Promise<number[][]>
+}
+
+export interface RerankProvider {
+  /** Relevance of each text to the query, in input order; higher is more relevant */
+  rerank(query: string, texts: string[], model?: string): Promise<number[]>
 }
 
 export interface VectorStore {
@@ -15,6 +24,14 @@ export interface VectorStore {
     filter?: Record<string, any>
   ): Promise<Array<{ id: string; score: number; metadata?: Record<string, any> }>>
   delete(ids: string[]): Promise<void>
+  /** Stored vectors among `ids`, with their metadata; stores that cannot look up ids omit it */
+  getByIds?(ids: string[]): Promise<Array<{ id: string; metadata?: Record<string, any> }>>
+}
+
+export type VersionedValue<T> = {
+  value: T | null
+  /** Opaque version of the stored value; null when the key does not exist */
+  version: string | null
 }
 
 export interface KeyValueStore {
@@ -23,6 +40,12 @@ export interface KeyValueStore {
   delete(key: string): Promise<void>
   has(key: string): Promise<boolean>
   keys(prefix?: string): Promise<string[]>
+  getWithVersion<T>(key: string): Promise<VersionedValue<T>>
+  /**
+   * Compare-and-swap: writes only if the stored version still equals `version`
+   * (null means the key must not exist yet). Returns false on a conflict.
+   */
+  setIfVersion<T>(key: string, value: T, version: string | null): Promise<boolean>
 }
 
 export interface RuntimeAdapter {
@@ -30,6 +53,15 @@ export interface RuntimeAdapter {
   kv: KeyValueStore
   embedder?: EmbeddingProvider
   vectorStore?: VectorStore
+  /** Cross-encoder for the optional reranking stage; runtimes without one rerank with the LLM */
+  reranker?: RerankProvider
   name: string
   version: string
+  /** Set when the adapter's KV and vectors are scoped to a workspace (see `withWorkspace`) */
+  workspaceId?: string
+  /**
+   * Keeps background work running after the response is sent (the Worker's `ctx.waitUntil`).
+   * Runtimes without a request lifetime leave it unset.
+   */
+  waitUntil?: (promise: Promise<unknown>) => void
 }
@@ -1,10 +1,13 @@
 import { RuntimeAdapter } from './interfaces'
 import { CloudflareRuntimeAdapter } from './cloudflare-adapter'
 import { MockRuntimeAdapter } from './mock-adapter'
+import { applyOpenAIProviders, loadOpenAIConfigFromEnv } from './openai-adapter'
+import { DEFAULT_WORKSPACE_ID } from './namespaced'
 
 class RuntimeManager {
   private static instance: RuntimeManager
   private adapter: RuntimeAdapter
+  private resolver: (() => RuntimeAdapter | undefined) | null = null
 
   private constructor() {
     // Auto-detect best available runtime
@@ -15,6 +18,15 @@ class RuntimeManager {
       console.warn('⚠ Cloudflare Workers not available, using Mock Runtime')
       this.adapter = new MockRuntimeAdapter()
     }
+
+    // Optional OpenAI-compatible LLM/embeddings on top of the detected storage backend.
+    // `import.meta.env` only exists under Vite, not in the Worker or plain Node.
+    const env = (import.meta as { env?: Record<string, string | undefined> }).env ?? {}
+    const openAIConfig = loadOpenAIConfigFromEnv(env)
+    if (openAIConfig.llm) {
+      applyOpenAIProviders(this.adapter, openAIConfig)
+      console.log(`✓ Using OpenAI-compatible endpoint ${openAIConfig.llm.baseUrl}`)
+    }
   }
 
   static getInstance(): RuntimeManager {
@@ -25,7 +37,7 @@ class RuntimeManager {
   }
 
   getRuntime(): RuntimeAdapter {
-    return this.adapter
+    return this.resolver?.() ?? this.adapter
   }
 
   setRuntime(adapter: RuntimeAdapter) {
@@ -33,21 +45,42 @@ class RuntimeManager {
     console.log(`✓ Switched to ${adapter.name} runtime`)
   }
 
+  /**
+   * Installs a hook that can supply a different adapter per call context (e.g. one per
+   * Worker request and workspace). Falls back to the adapter set by `setRuntime`.
+   */
+  setRuntimeResolver(resolver: (() => RuntimeAdapter | undefined) | null) {
+    this.resolver = resolver
+  }
+
+  getWorkspaceId(): string {
+    return this.getRuntime().workspaceId ?? DEFAULT_WORKSPACE_ID
+  }
+
+  /** Hands background work to the runtime, so it is not cancelled once the current request ends */
+  waitUntil(promise: Promise<unknown>): void {
+    this.getRuntime().waitUntil?.(promise)
+  }
+
   // Convenience methods
   get llm() {
-    return this.adapter.llm
+    return this.getRuntime().llm
   }
 
   get kv() {
-    return this.adapter.kv
+    return this.getRuntime().kv
   }
 
   get embedder() {
-    return this.adapter.embedder
+    return this.getRuntime().embedder
   }
 
   get vectorStore() {
-    return this.adapter.vectorStore
+    return this.getRuntime().vectorStore
+  }
+
+  get reranker() {
+    return this.getRuntime().reranker
   }
 }
 
@@ -1,4 +1,6 @@
-import { RuntimeAdapter, LLMProvider, KeyValueStore, EmbeddingProvider, VectorStore } from './interfaces'
+import { RuntimeAdapter, LLMProvider, KeyValueStore, EmbeddingProvider, VectorStore, VersionedValue } from './interfaces'
+import { matchesVectorMetadata } from '../metadata-filters'
+import { contentVersion } from './versioning'
 
 export class MockLLMProvider implements LLMProvider {
   private responses: Map<string, string> = new Map()
@@ -67,6 +69,37 @@ export class MockKeyValueStore implements KeyValueStore {
     return localStorage.getItem(this.storagePrefix + key) !== null
   }
 
+  async getWithVersion<T>(key: string): Promise<VersionedValue<T>> {
+    const stored = this.readRaw(key)
+    return stored
+      ? { value: JSON.parse(stored), version: contentVersion(stored) }
+      : { value: null, version: null }
+  }
+
+  // Synchronous read-compare-write, so it is atomic within one JS context
+  async setIfVersion<T>(key: string, value: T, version: string | null): Promise<boolean> {
+    const stored = this.readRaw(key)
+    const current = stored ? contentVersion(stored) : null
+    if (current !== version) {
+      return false
+    }
+
+    const serialized = JSON.stringify(value)
+    if (this.memoryStore) {
+      this.memoryStore.set(this.storagePrefix + key, serialized)
+    } else {
+      localStorage.setItem(this.storagePrefix + key, serialized)
+    }
+    return true
+  }
+
+  private readRaw(key: string): string | null {
+    if (this.memoryStore) {
+      return this.memoryStore.get(this.storagePrefix + key) ?? null
+    }
+    return localStorage.getItem(this.storagePrefix + key)
+  }
+
   async keys(prefix?: string): Promise<string[]> {
     const allKeys: string[] = []
     if (this.memoryStore) {
@@ -113,7 +146,8 @@ export class MockKeyValueStore implements KeyValueStore {
 export class MockRuntimeAdapter implements RuntimeAdapter {
   llm: MockLLMProvider = new MockLLMProvider()
   kv: MockKeyValueStore = new MockKeyValueStore()
-  embedder: EmbeddingProvider = {
+  embedder?: EmbeddingProvider = {
+    model: 'mock/deterministic',
     embed: async (texts: string[]) => texts.map(t => generateDeterministicEmbedding(t))
   }
   vectorStore: VectorStore = new InMemoryVectorStore()
@@ -156,7 +190,7 @@ class InMemoryVectorStore implements VectorStore {
   async query(vector: number[], topK: number = 5, filter?: Record<string, any>): Promise<Array<{ id: string; score: number; metadata?: Record<string, any> }>> {
     const results: Array<{ id: string; score: number; metadata?: Record<string, any> }> = []
     for (const [id, entry] of this.store.entries()) {
-      if (filter && filter.kbId && entry.metadata?.kbId !== filter.kbId) continue
+      if (!matchesVectorMetadata(entry.metadata, filter)) continue
       const score = cosineSimilarity(vector, entry.values)
       results.push({ id, score, metadata: entry.metadata })
     }
@@ -166,6 +200,10 @@ class InMemoryVectorStore implements VectorStore {
   async delete(ids: string[]): Promise<void> {
     ids.forEach(id => this.store.delete(id))
   }
+
+  async getByIds(ids: string[]): Promise<Array<{ id: string; metadata?: Record<string, any> }>> {
+    return ids.filter(id => this.store.has(id)).map(id => ({ id, metadata: this.store.get(id)!.metadata }))
+  }
 }
 
 function cosineSimilarity(a: number[], b: number[]): number {
@@ -0,0 +1,150 @@
+import { RuntimeAdapter, KeyValueStore, VectorStore, VersionedValue } from './interfaces'
+
+/**
+ * Workspace (tenant) scoping for runtime adapters
+ * Wraps an adapter's KV store and vector store so several teams can share one deployment.
+ * The default workspace keeps the legacy unprefixed keys, so existing data stays where it is.
+ */
+
+export const DEFAULT_WORKSPACE_ID = 'default'
+
+/** Prefix under which every non-default workspace stores its keys */
+export const WORKSPACE_KEY_PREFIX = 'ws:'
+
+const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i
+
+export function isValidWorkspaceId(workspaceId: string): boolean {
+  return WORKSPACE_ID_PATTERN.test(workspaceId)
+}
+
+export function workspaceKeyPrefix(workspaceId: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? '' : `${WORKSPACE_KEY_PREFIX}${workspaceId}:`
+}
+
+export class NamespacedKeyValueStore implements KeyValueStore {
+  private prefix: string
+
+  constructor(private inner: KeyValueStore, private workspaceId: string) {
+    if (!isValidWorkspaceId(workspaceId)) {
+      throw new Error(`Invalid workspace id: ${workspaceId}`)
+    }
+    this.prefix = workspaceKeyPrefix(workspaceId)
+  }
+
+  private scoped(key: string): string {
+    // The default workspace shares the raw key space, so it must not reach into other workspaces
+    if (!this.prefix && key.startsWith(WORKSPACE_KEY_PREFIX)) {
+      throw new Error(`Key is reserved for workspace data: ${key}`)
+    }
+    return this.prefix + key
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.inner.get<T>(this.scoped(key))
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.inner.set(this.scoped(key), value)
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.inner.delete(this.scoped(key))
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.inner.has(this.scoped(key))
+  }
+
+  async getWithVersion<T>(key: string): Promise<VersionedValue<T>> {
+    return this.inner.getWithVersion<T>(this.scoped(key))
+  }
+
+  async setIfVersion<T>(key: string, value: T, version: string | null): Promise<boolean> {
+    return this.inner.setIfVersion(this.scoped(key), value, version)
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    if (!this.prefix && prefix.startsWith(WORKSPACE_KEY_PREFIX)) {
+      return []
+    }
+
+    const keys = await this.inner.keys(this.prefix + prefix)
+    if (!this.prefix) {
+      return keys.filter(key => !key.startsWith(WORKSPACE_KEY_PREFIX))
+    }
+    return keys.map(key => key.slice(this.prefix.length))
+  }
+}
+
+export class ForeignVectorError extends Error {
+  constructor(public ids: string[]) {
+    super(`Vector ids belong to another workspace: ${ids.join(', ')}`)
+    this.name = 'ForeignVectorError'
+  }
+}
+
+/**
+ * Tags every vector with its workspace and restricts queries to that workspace.
+ * Vectors written before workspaces existed have no `workspaceId` and belong to the default workspace.
+ */
+export class TenantScopedVectorStore implements VectorStore {
+  constructor(private inner: VectorStore, private workspaceId: string) {}
+
+  private belongsToWorkspace(metadata?: Record<string, any>): boolean {
+    const owner = metadata?.workspaceId
+    return owner === this.workspaceId || (owner === undefined && this.workspaceId === DEFAULT_WORKSPACE_ID)
+  }
+
+  async upsert(vectors: Array<{ id: string; values: number[]; metadata?: Record<string, any> }>): Promise<void> {
+    // An upsert replaces the vector and its workspace tag, so ids owned elsewhere are refused
+    if (this.inner.getByIds) {
+      const existing = await this.inner.getByIds(vectors.map(v => v.id))
+      const foreignIds = existing.filter(v => !this.belongsToWorkspace(v.metadata)).map(v => v.id)
+      if (foreignIds.length > 0) {
+        throw new ForeignVectorError(foreignIds)
+      }
+    }
+
+    await this.inner.upsert(vectors.map(v => ({
+      ...v,
+      metadata: { ...v.metadata, workspaceId: this.workspaceId }
+    })))
+  }
+
+  async query(
+    vector: number[],
+    topK?: number,
+    filter?: Record<string, any>
+  ): Promise<Array<{ id: string; score: number; metadata?: Record<string, any> }>> {
+    // Legacy default-workspace vectors carry no workspaceId, so the default workspace can only filter afterwards
+    const scopedFilter = this.workspaceId === DEFAULT_WORKSPACE_ID
+      ? filter
+      : { ...filter, workspaceId: this.workspaceId }
+
+    const matches = await this.inner.query(vector, topK, scopedFilter)
+    return matches.filter(match => this.belongsToWorkspace(match.metadata))
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    // Ids are only learned through scoped queries and upserts; the HTTP layer verifies ownership
+    await this.inner.delete(ids)
+  }
+}
+
+/**
+ * Returns a view of `adapter` whose KV and vector store are confined to one workspace.
+ * LLM and embedding providers are shared.
+ */
+export function withWorkspace(adapter: RuntimeAdapter, workspaceId: string): RuntimeAdapter {
+  return {
+    llm: adapter.llm,
+    kv: new NamespacedKeyValueStore(adapter.kv, workspaceId),
+    embedder: adapter.embedder,
+    vectorStore: adapter.vectorStore ? new TenantScopedVectorStore(adapter.vectorStore, workspaceId) : undefined,
+    reranker: adapter.reranker,
+    name: adapter.name,
+    version: adapter.version,
+    workspaceId,
+    waitUntil: adapter.waitUntil
+  }
+}
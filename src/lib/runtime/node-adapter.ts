@@ -0,0 +1,286 @@
+import { RuntimeAdapter, LLMProvider, KeyValueStore, EmbeddingProvider, VectorStore, VersionedValue } from './interfaces'
+import { matchesVectorMetadata } from '../metadata-filters'
+import { OpenAICompatibleLLMProvider, OpenAICompatibleOptions } from './openai-adapter'
+import { EMBEDDING_DIMENSION } from '../embedding-constants'
+
+/**
+ * Node Runtime Adapter
+ * Runs the whole pipeline in one Node process for CI and air-gapped machines:
+ * KV and vectors live in a SQLite file (`node:sqlite`, Node 22.5+), embeddings come from an
+ * in-process hashing embedder, and generation goes to any OpenAI-compatible endpoint.
+ * Never imported by the browser bundle.
+ */
+
+type SqliteValue = string | number | bigint | Uint8Array | null
+
+type SqliteStatement = {
+  run(...params: SqliteValue[]): { changes: number | bigint }
+  get(...params: SqliteValue[]): Record<string, unknown> | undefined
+  all(...params: SqliteValue[]): Record<string, unknown>[]
+}
+
+type SqliteDatabase = {
+  exec(sql: string): void
+  prepare(sql: string): SqliteStatement
+  close(): void
+}
+
+type SqliteModule = {
+  DatabaseSync: new (path: string) => SqliteDatabase
+}
+
+// Held in a variable so bundlers and vite-node do not try to resolve it
+const SQLITE_MODULE = 'node:sqlite'
+
+async function loadSqlite(): Promise<SqliteModule> {
+  return await import(/* @vite-ignore */ SQLITE_MODULE) as SqliteModule
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS kv (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    version INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS vectors (
+    id TEXT PRIMARY KEY,
+    embedding BLOB NOT NULL,
+    metadata TEXT
+  );
+`
+
+class SqliteKeyValueStore implements KeyValueStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const row = this.db.prepare('SELECT value FROM kv WHERE key = ?').get(key)
+    return row ? JSON.parse(row.value as string) as T : null
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO kv (key, value, version) VALUES (?, ?, 1)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, version = kv.version + 1
+    `).run(key, JSON.stringify(value))
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare('DELETE FROM kv WHERE key = ?').run(key)
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.db.prepare('SELECT 1 FROM kv WHERE key = ?').get(key) !== undefined
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    const rows = this.db.prepare('SELECT key FROM kv WHERE substr(key, 1, ?) = ? ORDER BY key').all(prefix.length, prefix)
+    return rows.map(row => row.key as string)
+  }
+
+  async getWithVersion<T>(key: string): Promise<VersionedValue<T>> {
+    const row = this.db.prepare('SELECT value, version FROM kv WHERE key = ?').get(key)
+    return row
+      ? { value: JSON.parse(row.value as string) as T, version: String(row.version) }
+      : { value: null, version: null }
+  }
+
+  // A single conditional statement, so the check and the write are atomic
+  async setIfVersion<T>(key: string, value: T, version: string | null): Promise<boolean> {
+    const result = version === null
+      ? this.db.prepare('INSERT INTO kv (key, value, version) VALUES (?, ?, 1) ON CONFLICT (key) DO NOTHING')
+        .run(key, JSON.stringify(value))
+      : this.db.prepare('UPDATE kv SET value = ?, version = version + 1 WHERE key = ? AND version = ?')
+        .run(JSON.stringify(value), key, Number(version))
+    return Number(result.changes) === 1
+  }
+}
+
+function toBlob(values: number[]): Uint8Array {
+  return new Uint8Array(new Float32Array(values).buffer)
+}
+
+function fromBlob(blob: Uint8Array): Float32Array {
+  // Copy first: the blob's byte offset is not guaranteed to be 4-byte aligned
+  return new Float32Array(blob.slice().buffer)
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB)
+  return denominator === 0 ? 0 : dot / denominator
+}
+
+/**
+ * Brute-force cosine search over every stored vector. Fine for CI-sized corpora
+ * (tens of thousands of chunks); metadata filters use the Vectorize operators (see `matchesVectorMetadata`).
+ */
+class SqliteVectorStore implements VectorStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async upsert(vectors: Array<{ id: string; values: number[]; metadata?: Record<string, any> }>): Promise<void> {
+    const statement = this.db.prepare(`
+      INSERT INTO vectors (id, embedding, metadata) VALUES (?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET embedding = excluded.embedding, metadata = excluded.metadata
+    `)
+
+    this.db.exec('BEGIN')
+    try {
+      for (const vector of vectors) {
+        statement.run(vector.id, toBlob(vector.values), vector.metadata ? JSON.stringify(vector.metadata) : null)
+      }
+      this.db.exec('COMMIT')
+    } catch (error) {
+      this.db.exec('ROLLBACK')
+      throw error
+    }
+  }
+
+  async query(
+    vector: number[],
+    topK: number = 5,
+    filter?: Record<string, any>
+  ): Promise<Array<{ id: string; score: number; metadata?: Record<string, any> }>> {
+    const results: Array<{ id: string; score: number; metadata?: Record<string, any> }> = []
+
+    for (const row of this.db.prepare('SELECT id, embedding, metadata FROM vectors').all()) {
+      const metadata = row.metadata ? JSON.parse(row.metadata as string) as Record<string, any> : undefined
+      if (!matchesVectorMetadata(metadata, filter)) continue
+
+      results.push({
+        id: row.id as string,
+        score: cosineSimilarity(vector, fromBlob(row.embedding as Uint8Array)),
+        metadata
+      })
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK)
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    const statement = this.db.prepare('DELETE FROM vectors WHERE id = ?')
+    for (const id of ids) {
+      statement.run(id)
+    }
+  }
+
+  async getByIds(ids: string[]): Promise<Array<{ id: string; metadata?: Record<string, any> }>> {
+    const statement = this.db.prepare('SELECT id, metadata FROM vectors WHERE id = ?')
+    return ids.flatMap(id => statement.all(id)).map(row => ({
+      id: row.id as string,
+      metadata: row.metadata ? JSON.parse(row.metadata as string) as Record<string, any> : undefined
+    }))
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Stand-in for a neural embedding model: signed feature hashing of words and word bigrams.
+ * Deterministic and offline; similarity reflects shared vocabulary rather than meaning.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string
+
+  constructor(private dimension: number = EMBEDDING_DIMENSION) {
+    this.model = `local/feature-hashing-${dimension}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text))
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0)
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature)
+      // The top bit picks the sign so collisions tend to cancel out
+      vector[hash % this.dimension] += hash & 0x80000000 ? -weight : weight
+    }
+
+    words.forEach((word, i) => {
+      add(word, 1)
+      if (i > 0) add(`${words[i - 1]} ${word}`, 0.5)
+    })
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+    return norm === 0 ? vector : vector.map(v => v / norm)
+  }
+}
+
+class UnconfiguredLLMProvider implements LLMProvider {
+  async generate(): Promise<string> {
+    throw new Error('NodeRuntimeAdapter has no LLM endpoint; pass `llm` with an OpenAI-compatible baseUrl')
+  }
+
+  async *generateStream(): AsyncGenerator<string, void, unknown> {
+    yield await this.generate()
+  }
+}
+
+export type NodeRuntimeOptions = {
+  /** SQLite database file; defaults to an in-memory database */
+  path?: string
+  /** OpenAI-compatible endpoint settings, or any provider. Without it, generation throws. */
+  llm?: OpenAICompatibleOptions | LLMProvider
+  embedder?: EmbeddingProvider
+}
+
+export class NodeRuntimeAdapter implements RuntimeAdapter {
+  llm: LLMProvider
+  kv: KeyValueStore
+  embedder: EmbeddingProvider
+  vectorStore: VectorStore
+  name = 'node'
+  version = '1.0.0'
+
+  private constructor(private db: SqliteDatabase, options: NodeRuntimeOptions) {
+    this.db.exec(SCHEMA)
+    this.kv = new SqliteKeyValueStore(db)
+    this.vectorStore = new SqliteVectorStore(db)
+    this.embedder = options.embedder || new HashingEmbeddingProvider()
+
+    if (!options.llm) {
+      this.llm = new UnconfiguredLLMProvider()
+    } else if ('generate' in options.llm) {
+      this.llm = options.llm
+    } else {
+      this.llm = new OpenAICompatibleLLMProvider(options.llm)
+    }
+  }
+
+  static async create(options: NodeRuntimeOptions = {}): Promise<NodeRuntimeAdapter> {
+    const { DatabaseSync } = await loadSqlite()
+    return new NodeRuntimeAdapter(new DatabaseSync(options.path || ':memory:'), options)
+  }
+
+  static async isAvailable(): Promise<boolean> {
+    try {
+      await loadSqlite()
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
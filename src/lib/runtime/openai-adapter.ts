@@ -0,0 +1,189 @@
+import { RuntimeAdapter, LLMProvider, EmbeddingProvider } from './interfaces'
+import { MAX_EMBEDDING_TEXT_LENGTH } from '../embedding-constants'
+import { parseSSEStream } from '../sse'
+
+/**
+ * OpenAI-compatible HTTP providers
+ * Speak the `/chat/completions` and `/embeddings` wire formats, so they work against OpenAI
+ * itself or local servers such as llama.cpp, vLLM or Ollama.
+ */
+
+export type OpenAICompatibleOptions = {
+  /** Base URL including the version segment, e.g. `http://localhost:8080/v1` */
+  baseUrl: string
+  apiKey?: string
+  /** Model used when callers pass none or a Workers AI (`@cf/...`) model id */
+  model: string
+  headers?: Record<string, string>
+}
+
+export type OpenAICompatibleEmbeddingOptions = Omit<OpenAICompatibleOptions, 'model'> & {
+  model: string
+  /**
+   * Requested vector size (OpenAI `text-embedding-3-*` only). Must match the vector index,
+   * e.g. `EMBEDDING_DIMENSION` when vectors go to the Cloudflare Vectorize index.
+   */
+  dimensions?: number
+}
+
+export type OpenAIProvidersConfig = {
+  llm?: OpenAICompatibleOptions
+  embeddings?: OpenAICompatibleEmbeddingOptions
+}
+
+type ChatCompletionResponse = {
+  choices: Array<{ message: { content: string | null } }>
+}
+
+type ChatCompletionChunk = {
+  choices: Array<{ delta?: { content?: string | null } }>
+}
+
+type EmbeddingResponse = {
+  data: Array<{ embedding: number[]; index: number }>
+}
+
+function trimBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '')
+}
+
+function buildHeaders(options: { apiKey?: string; headers?: Record<string, string> }): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+    ...options.headers
+  }
+}
+
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  constructor(private options: OpenAICompatibleOptions) {}
+
+  async generate(prompt: string, model?: string, jsonMode: boolean = false): Promise<string> {
+    const response = await fetch(`${this.baseUrl()}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.resolveModel(model),
+        messages: [{ role: 'user', content: prompt }],
+        ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible LLM error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json() as ChatCompletionResponse
+    return data.choices[0]?.message.content ?? ''
+  }
+
+  async *generateStream(prompt: string, model?: string): AsyncGenerator<string, void, unknown> {
+    const response = await fetch(`${this.baseUrl()}/chat/completions`, {
+      method: 'POST',
+      headers: { ...this.headers(), 'Accept': 'text/event-stream' },
+      body: JSON.stringify({
+        model: this.resolveModel(model),
+        messages: [{ role: 'user', content: prompt }],
+        stream: true
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible LLM stream error: ${response.status} ${response.statusText}`)
+    }
+
+    if (!response.body) {
+      throw new Error('No readable stream available')
+    }
+
+    // Frames are `data: {"choices":[{"delta":{"content":"..."}}]}`, ending with `data: [DONE]`
+    for await (const event of parseSSEStream(response.body)) {
+      if (event.data === '[DONE]') break
+
+      try {
+        const parsed = JSON.parse(event.data) as ChatCompletionChunk
+        const delta = parsed.choices[0]?.delta?.content
+        if (delta) yield delta
+      } catch {
+        // Ignore keep-alive or partial frames
+      }
+    }
+  }
+
+  private baseUrl(): string {
+    return trimBaseUrl(this.options.baseUrl)
+  }
+
+  private headers(): Record<string, string> {
+    return buildHeaders(this.options)
+  }
+
+  // Call sites still name Workers AI models; those mean "the default model" here
+  private resolveModel(model?: string): string {
+    return !model || model.startsWith('@cf/') ? this.options.model : model
+  }
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string
+
+  constructor(private options: OpenAICompatibleEmbeddingOptions) {
+    this.model = options.dimensions ? `${options.model}@${options.dimensions}` : options.model
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return []
+
+    const response = await fetch(`${trimBaseUrl(this.options.baseUrl)}/embeddings`, {
+      method: 'POST',
+      headers: buildHeaders(this.options),
+      body: JSON.stringify({
+        model: this.options.model,
+        input: texts.map(text => text.substring(0, MAX_EMBEDDING_TEXT_LENGTH)),
+        ...(this.options.dimensions ? { dimensions: this.options.dimensions } : {})
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible embedding error: ${response.status} ${response.statusText}`)
+    }
+
+    // Results carry their input index; don't rely on response order
+    const data = await response.json() as EmbeddingResponse
+    return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding)
+  }
+}
+
+/**
+ * Swaps the adapter's LLM and/or embedder for OpenAI-compatible providers, in place, so
+ * adapter-specific features (e.g. the Cloudflare API key) keep working. KV and vector
+ * storage stay with the adapter.
+ */
+export function applyOpenAIProviders<T extends RuntimeAdapter>(adapter: T, config: OpenAIProvidersConfig): T {
+  if (config.llm) {
+    adapter.llm = new OpenAICompatibleLLMProvider(config.llm)
+  }
+  if (config.embeddings) {
+    adapter.embedder = new OpenAICompatibleEmbeddingProvider(config.embeddings)
+  }
+  return adapter
+}
+
+/**
+ * Reads provider settings from Vite env vars. `VITE_OPENAI_BASE_URL` enables the LLM;
+ * `VITE_OPENAI_EMBEDDING_MODEL` additionally routes embeddings to the same server.
+ */
+export function loadOpenAIConfigFromEnv(env: Record<string, string | undefined>): OpenAIProvidersConfig {
+  const baseUrl = env.VITE_OPENAI_BASE_URL
+  if (!baseUrl) return {}
+
+  const shared = { baseUrl, apiKey: env.VITE_OPENAI_API_KEY || undefined }
+  const dimensions = Number(env.VITE_OPENAI_EMBEDDING_DIMENSIONS)
+
+  return {
+    llm: { ...shared, model: env.VITE_OPENAI_MODEL || 'gpt-4o-mini' },
+    embeddings: env.VITE_OPENAI_EMBEDDING_MODEL
+      ? { ...shared, model: env.VITE_OPENAI_EMBEDDING_MODEL, dimensions: dimensions > 0 ? dimensions : undefined }
+      : undefined
+  }
+}
@@ -1,15 +1,17 @@
-import { RuntimeAdapter, LLMProvider, KeyValueStore, EmbeddingProvider } from './interfaces'
-import { DEFAULT_CF_EMBEDDING_MODEL, EMBEDDING_DIMENSION, MAX_EMBEDDING_TEXT_LENGTH } from '../embedding-constants'
+import { RuntimeAdapter, LLMProvider, KeyValueStore, EmbeddingProvider, VersionedValue } from './interfaces'
+import { contentVersion } from './versioning'
+import { DEFAULT_CF_EMBEDDING_MODEL, EMBEDDING_MODELS, MAX_EMBEDDING_TEXT_LENGTH } from '../embedding-constants'
+import { DEFAULT_LLM_MODEL } from '../model-defaults'
 
 class SparkLLMProvider implements LLMProvider {
-  async generate(prompt: string, model: string = '@cf/meta/llama-3.3-70b-instruct-fp8-fast', jsonMode: boolean = false): Promise<string> {
+  async generate(prompt: string, model: string = DEFAULT_LLM_MODEL, jsonMode: boolean = false): Promise<string> {
     if (typeof window === 'undefined' || !window.spark?.llm) {
       throw new Error('Spark LLM not available')
     }
     return await window.spark.llm(prompt, model, jsonMode)
   }
 
-  async *generateStream(prompt: string, model: string = '@cf/meta/llama-3.3-70b-instruct-fp8-fast'): AsyncGenerator<string, void, unknown> {
+  async *generateStream(prompt: string, model: string = DEFAULT_LLM_MODEL): AsyncGenerator<string, void, unknown> {
     // Spark doesn't support streaming yet, simulate it
     const result = await this.generate(prompt, model)
     const words = result.split(' ')
@@ -22,59 +24,32 @@ class SparkLLMProvider implements LLMProvider {
 }
 
 class SparkEmbeddingProvider implements EmbeddingProvider {
-  async embed(texts: string[]): Promise<number[][]> {
+  // Cloudflare's embedding model, aligned with the Vectorize dimensions
+  readonly model = DEFAULT_CF_EMBEDDING_MODEL
+  readonly models = EMBEDDING_MODELS.map(m => m.id)
+
+  async embed(texts: string[], model: string = DEFAULT_CF_EMBEDDING_MODEL): Promise<number[][]> {
     if (typeof window === 'undefined' || !window.spark?.ai) {
       throw new Error('Spark AI not available for embeddings')
     }
 
-    // Use Cloudflare's DEFAULT_CF_EMBEDDING_MODEL embedding (aligned with Vectorize dimensions)
     const embeddings: number[][] = []
 
     for (const text of texts) {
-      try {
-        const response = await window.spark.ai.run(DEFAULT_CF_EMBEDDING_MODEL, {
-          text: text.substring(0, MAX_EMBEDDING_TEXT_LENGTH) // Limit to model's token limit
-        })
-
-        // Response format: { shape: [1, EMBEDDING_DIMENSION], data: [[...embedding...]] }
-        if (response.data && Array.isArray(response.data) && response.data.length > 0) {
-          embeddings.push(response.data[0])
-        } else {
-          // Fallback to simulated embedding
-          embeddings.push(this.generateFallbackEmbedding(text))
-        }
-      } catch (error) {
-        console.warn(`Failed to generate embedding for text, using fallback:`, error)
-        embeddings.push(this.generateFallbackEmbedding(text))
+      const response = await window.spark.ai.run(model, {
+        text: text.substring(0, MAX_EMBEDDING_TEXT_LENGTH) // Limit to model's token limit
+      })
+
+      // Response format: { shape: [1, EMBEDDING_DIMENSION], data: [[...embedding...]] }
+      // Fail the batch rather than substitute a simulated vector from a different space
+      if (!response.data || !Array.isArray(response.data) || response.data.length === 0) {
+        throw new Error('Spark AI returned no embedding')
       }
+      embeddings.push(response.data[0])
     }
 
     return embeddings
   }
-
-  private generateFallbackEmbedding(text: string): number[] {
-    // Simple hash-based embedding aligned with EMBEDDING_DIMENSION
-    const hash = this.simpleHash(text)
-    const embedding: number[] = []
-
-    for (let i = 0; i < EMBEDDING_DIMENSION; i++) {
-      const value = Math.sin(hash * (i + 1)) * Math.cos(hash * (i + 1) * 0.5)
-      embedding.push(value)
-    }
-
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0))
-    return embedding.map((val) => val / magnitude)
-  }
-
-  private simpleHash(str: string): number {
-    let hash = 0
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i)
-      hash = (hash << 5) - hash + char
-      hash = hash & hash
-    }
-    return hash
-  }
 }
 
 class SparkKeyValueStore implements KeyValueStore {
@@ -104,6 +79,21 @@ class SparkKeyValueStore implements KeyValueStore {
     return value !== null
   }
 
+  async getWithVersion<T>(key: string): Promise<VersionedValue<T>> {
+    const value = await this.get<T>(key)
+    return { value, version: value === null ? null : contentVersion(JSON.stringify(value)) }
+  }
+
+  // Spark KV has no conditional write; re-checking just before the write narrows the race to one round trip
+  async setIfVersion<T>(key: string, value: T, version: string | null): Promise<boolean> {
+    const current = await this.getWithVersion<T>(key)
+    if (current.version !== version) {
+      return false
+    }
+    await this.set(key, value)
+    return true
+  }
+
   async keys(prefix?: string): Promise<string[]> {
     // Spark KV doesn't support key listing, return empty array
     console.warn('Spark KV does not support key listing')
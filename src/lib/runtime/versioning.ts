@@ -0,0 +1,58 @@
+import { KeyValueStore } from './interfaces'
+
+/**
+ * Optimistic concurrency helpers for KeyValueStore
+ * Read-modify-write callers use `updateWithRetry` so concurrent tabs or Worker requests
+ * retry on a version conflict instead of overwriting each other.
+ */
+
+export class VersionConflictError extends Error {
+  constructor(public key: string, attempts: number) {
+    super(`Concurrent updates kept conflicting on "${key}" after ${attempts} attempts`)
+    this.name = 'VersionConflictError'
+  }
+}
+
+const MAX_ATTEMPTS = 8
+
+/**
+ * Derives a version from the serialized value (FNV-1a), for stores without native versions.
+ * Writing identical content yields the same version, which is harmless for CAS.
+ */
+export function contentVersion(serialized: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < serialized.length; i++) {
+    hash ^= serialized.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `${serialized.length.toString(36)}-${(hash >>> 0).toString(36)}`
+}
+
+/**
+ * Applies `update` to the current value and writes it back with compare-and-swap,
+ * re-reading and re-applying on conflict. `update` may run several times, so it must
+ * only depend on its argument; returning undefined leaves the key untouched.
+ * Resolves with the value that was written (or the current value when skipped).
+ */
+export async function updateWithRetry<T>(
+  kv: KeyValueStore,
+  key: string,
+  update: (current: T | null) => T | undefined
+): Promise<T | null> {
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const { value, version } = await kv.getWithVersion<T>(key)
+    const next = update(value)
+    if (next === undefined) {
+      return value
+    }
+
+    if (await kv.setIfVersion(key, next, version)) {
+      return next
+    }
+
+    // Jittered backoff so competing writers do not retry in lockstep
+    await new Promise(resolve => setTimeout(resolve, Math.random() * 10 * attempt))
+  }
+
+  throw new VersionConflictError(key, MAX_ATTEMPTS)
+}
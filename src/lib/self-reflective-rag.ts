@@ -1,6 +1,10 @@
-import { Document } from './types'
 import { RetrievalResult } from './retrieval-executor'
 import { runtime } from './runtime/manager'
+import { modelRegistry, ModelTask } from './model-registry'
+import { buildContext } from './context-builder'
+
+// Evaluation prompts only need enough source text to check claims against
+const EVALUATION_CONTEXT_TOKENS = 1500
 
 export type ReflectionToken = 'RELEVANT' | 'PARTIALLY_RELEVANT' | 'NOT_RELEVANT'
 export type SupportToken = 'FULLY_SUPPORTED' | 'PARTIALLY_SUPPORTED' | 'NOT_SUPPORTED'
@@ -26,6 +30,12 @@ export type CriticFeedback = {
 }
 
 export class SelfReflectiveRAG {
+  constructor(private knowledgeBaseId?: string) {}
+
+  private modelFor(task: ModelTask): Promise<string> {
+    return modelRegistry.getModel(task, this.knowledgeBaseId)
+  }
+
   async evaluateRetrievalRelevance(
     query: string,
     retrievalResult: RetrievalResult
@@ -64,9 +74,9 @@ export class SelfReflectiveRAG {
   async evaluateResponseSupport(
     query: string,
     response: string,
-    retrievedDocuments: Document[]
+    retrieval: RetrievalResult
   ): Promise<{ token: SupportToken; confidence: number; reasoning: string }> {
-    if (retrievedDocuments.length === 0) {
+    if (retrieval.documents.length === 0) {
       return {
         token: 'NOT_SUPPORTED',
         confidence: 0.9,
@@ -81,7 +91,7 @@ Query: "${query}"
 Response: "${response}"
 
 Source Documents:
-${retrievedDocuments.map((doc, i) => `${i + 1}. ${doc.title}: ${doc.content.slice(0, 300)}...`).join('\n')}
+${buildContext(retrieval, { maxTokens: EVALUATION_CONTEXT_TOKENS })}
 
 Determine support level:
 - FULLY_SUPPORTED: All claims in response are backed by sources
@@ -93,7 +103,7 @@ Provide JSON: {"token": "...", "confidence": 0.0-1.0, "reasoning": "brief explan
 Respond with ONLY valid JSON.`
 
     try {
-      const result = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast', true)
+      const result = await runtime.llm.generate(prompt, await this.modelFor('evaluation'), true)
       const evaluation = JSON.parse(result)
       
       return {
@@ -129,7 +139,7 @@ Provide JSON: {"token": "...", "confidence": 0.0-1.0, "reasoning": "brief explan
 Respond with ONLY valid JSON.`
 
     try {
-      const result = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast', true)
+      const result = await runtime.llm.generate(prompt, await this.modelFor('evaluation'), true)
       const evaluation = JSON.parse(result)
       
       return {
@@ -153,7 +163,7 @@ Respond with ONLY valid JSON.`
   ): Promise<SelfEvaluation> {
     const [relevance, support, utility] = await Promise.all([
       this.evaluateRetrievalRelevance(query, retrievalResult),
-      this.evaluateResponseSupport(query, response, retrievalResult.documents),
+      this.evaluateResponseSupport(query, response, retrievalResult),
       this.evaluateResponseUtility(query, response)
     ])
     
@@ -196,14 +206,15 @@ Respond with ONLY valid JSON.`
   async criticResponse(
     query: string,
     response: string,
-    sources: Document[]
+    retrieval: RetrievalResult
   ): Promise<CriticFeedback> {
     const prompt = `You are a critical evaluator of RAG system responses. Evaluate this response for quality issues.
 
 Query: "${query}"
 Response: "${response}"
 
-Sources Available: ${sources.length} documents
+Sources:
+${buildContext(retrieval, { maxTokens: EVALUATION_CONTEXT_TOKENS }) || 'None'}
 
 Evaluate:
 1. Logical consistency (0.0-1.0): Is the reasoning sound?
@@ -226,7 +237,7 @@ Provide JSON:
 Respond with ONLY valid JSON.`
 
     try {
-      const result = await runtime.llm.generate(prompt, '@cf/meta/llama-3.3-70b-instruct-fp8-fast', true)
+      const result = await runtime.llm.generate(prompt, await this.modelFor('critique'), true)
       const feedback = JSON.parse(result)
       
       return {
@@ -0,0 +1,242 @@
+import type { Chunk } from './chunking'
+import { ChunkingOptions } from './types'
+import { countTokens } from './tokenizer'
+import { chunkRecursive, maxChunkLength, resolveChunkingOptions } from './recursive-chunker'
+import { MAX_EMBEDDING_TEXT_LENGTH } from './embedding-constants'
+import { EmbeddingProvider } from './runtime/interfaces'
+import { runtime } from './runtime/manager'
+import { embedBatched } from './embedding-pipeline'
+
+/**
+ * Semantic chunker
+ * Embeds every sentence (with a little surrounding context), measures the cosine distance
+ * between neighbours and cuts where the distance spikes, i.e. where the topic changes.
+ * Works on text with no structure at all, such as extracted PDFs and web pages. Segments
+ * under `minChunkSize` are merged into their closest neighbour and segments over
+ * `chunkSize` are split by the recursive chunker, so the token budget still holds.
+ */
+
+export type BreakpointType = 'percentile' | 'gradient'
+
+export interface SemanticChunkingOptions {
+  /**
+   * `percentile` cuts where the distance is above the given percentile of all distances;
+   * `gradient` applies the percentile to the change in distance, which suits text whose
+   * sentences are all fairly similar (e.g. legal or medical documents)
+   */
+  breakpointType: BreakpointType
+  /** Percentile (0-100) a distance must exceed to become a breakpoint */
+  breakpointThreshold: number
+  /** Neighbouring sentences embedded together with each sentence, on each side */
+  bufferSize: number
+}
+
+export const DEFAULT_SEMANTIC_OPTIONS: SemanticChunkingOptions = {
+  breakpointType: 'percentile',
+  breakpointThreshold: 90,
+  bufferSize: 1,
+}
+
+const EMBED_BATCH_SIZE = 32
+
+interface Span {
+  start: number
+  end: number
+}
+
+// Sentence ends and paragraph breaks; single newlines are often just PDF line wrapping
+const SENTENCE_BOUNDARY = /(?<=[.!?]["')\]]?)\s+|\n\s*\n/g
+
+export async function chunkSemantic(
+  text: string,
+  options?: Partial<ChunkingOptions>,
+  semanticOptions?: Partial<SemanticChunkingOptions>,
+  embedder: EmbeddingProvider | undefined = runtime.embedder
+): Promise<Chunk[]> {
+  const resolved = resolveChunkingOptions(options)
+  const settings = { ...DEFAULT_SEMANTIC_OPTIONS, ...semanticOptions }
+  const sentences = splitSentences(text)
+
+  // Too little text to find topic shifts in, or nothing to embed with
+  if (sentences.length < 3 || !embedder) {
+    return chunkRecursive(text, resolved)
+  }
+
+  let embeddings: number[][]
+  try {
+    embeddings = await embedSentences(text, sentences, settings.bufferSize, embedder)
+  } catch (error) {
+    console.warn('Sentence embedding failed; falling back to recursive chunking', error)
+    return chunkRecursive(text, resolved)
+  }
+
+  const distances = sentences.slice(1).map((_, i) => 1 - cosine(embeddings[i], embeddings[i + 1]))
+  const breakpoints = findBreakpoints(distances, settings.breakpointType, settings.breakpointThreshold)
+
+  let segments: Span[] = []
+  // Distance between each segment and the next one, used to pick merge partners
+  let boundaryDistances: number[] = []
+  let segmentStart = 0
+  for (const breakpoint of [...breakpoints, sentences.length - 1]) {
+    segments.push({ start: sentences[segmentStart].start, end: sentences[breakpoint].end })
+    if (breakpoint < sentences.length - 1) boundaryDistances.push(distances[breakpoint])
+    segmentStart = breakpoint + 1
+  }
+
+  ;({ segments, boundaryDistances } = mergeUndersized(text, segments, boundaryDistances, resolved))
+
+  const chunks: Chunk[] = []
+  for (const segment of segments) {
+    const segmentText = text.slice(segment.start, segment.end)
+    if (countTokens(segmentText) <= resolved.chunkSize && segmentText.length <= maxChunkLength(resolved)) {
+      chunks.push(toChunk(segmentText, segment.start))
+    } else {
+      // Offsets from the recursive chunker are relative to the segment
+      chunks.push(...chunkRecursive(segmentText, resolved).map(chunk => toChunk(chunk.text, segment.start + chunk.startIndex)))
+    }
+  }
+
+  return chunks.map((chunk, index) => ({ ...chunk, id: `chunk-${index}` }))
+}
+
+/**
+ * Indexes `i` where the boundary between sentence `i` and `i + 1` is a topic change.
+ * Exported for tests.
+ */
+export function findBreakpoints(distances: number[], type: BreakpointType, threshold: number): number[] {
+  if (distances.length === 0) return []
+
+  const signal = type === 'gradient' ? gradient(distances) : distances
+  const cutoff = percentile(signal, threshold)
+
+  return signal
+    .map((value, index) => ({ value, index }))
+    .filter(({ value }) => value > cutoff)
+    .map(({ index }) => index)
+}
+
+function splitSentences(text: string): Span[] {
+  const spans: Span[] = []
+  let cursor = 0
+
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const span = trimSpan(text, cursor, match.index!)
+    if (span) spans.push(span)
+    cursor = match.index! + match[0].length
+  }
+
+  const last = trimSpan(text, cursor, text.length)
+  if (last) spans.push(last)
+  return spans
+}
+
+function trimSpan(text: string, start: number, end: number): Span | null {
+  while (start < end && /\s/.test(text[start])) start++
+  while (end > start && /\s/.test(text[end - 1])) end--
+  return start < end ? { start, end } : null
+}
+
+async function embedSentences(
+  text: string,
+  sentences: Span[],
+  bufferSize: number,
+  embedder: EmbeddingProvider
+): Promise<number[][]> {
+  // A lone sentence is a noisy signal; embedding it with its neighbours smooths the distances
+  const windows = sentences.map((_, i) => {
+    const first = sentences[Math.max(0, i - bufferSize)]
+    const last = sentences[Math.min(sentences.length - 1, i + bufferSize)]
+    return text.slice(first.start, last.end).substring(0, MAX_EMBEDDING_TEXT_LENGTH)
+  })
+
+  return embedBatched(windows, { batchSize: EMBED_BATCH_SIZE }, embedder)
+}
+
+/** Folds segments under `minChunkSize` into whichever neighbour they are closer to */
+function mergeUndersized(
+  text: string,
+  segments: Span[],
+  boundaryDistances: number[],
+  options: ChunkingOptions
+): { segments: Span[]; boundaryDistances: number[] } {
+  const result = [...segments]
+  const distances = [...boundaryDistances]
+  const tokens = (span: Span) => countTokens(text.slice(span.start, span.end))
+  const fits = (span: Span) => span.end - span.start <= maxChunkLength(options) && tokens(span) <= options.chunkSize
+
+  let i = 0
+  while (i < result.length && result.length > 1) {
+    if (tokens(result[i]) >= options.minChunkSize) {
+      i++
+      continue
+    }
+
+    // Prefer the side with the smaller topic distance, if the merged segment still fits
+    const candidates = [
+      i > 0 ? { neighbour: i - 1, distance: distances[i - 1] } : null,
+      i < result.length - 1 ? { neighbour: i + 1, distance: distances[i] } : null,
+    ]
+      .filter((candidate): candidate is { neighbour: number; distance: number } => candidate !== null)
+      .sort((a, b) => a.distance - b.distance)
+
+    const target = candidates.find(({ neighbour }) => fits({
+      start: result[Math.min(i, neighbour)].start,
+      end: result[Math.max(i, neighbour)].end,
+    }))
+
+    if (!target) {
+      i++
+      continue
+    }
+
+    const first = Math.min(i, target.neighbour)
+    result.splice(first, 2, { start: result[first].start, end: result[first + 1].end })
+    distances.splice(first, 1)
+    // Re-check the merged segment, which may still be undersized
+    i = first
+  }
+
+  return { segments: result, boundaryDistances: distances }
+}
+
+function gradient(values: number[]): number[] {
+  if (values.length < 2) return values.map(() => 0)
+
+  return values.map((_, i) => {
+    if (i === 0) return values[1] - values[0]
+    if (i === values.length - 1) return values[i] - values[i - 1]
+    return (values[i + 1] - values[i - 1]) / 2
+  })
+}
+
+// Linear interpolation between closest ranks, as numpy's default
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB)
+  return denominator === 0 ? 0 : dot / denominator
+}
+
+function toChunk(chunkText: string, startIndex: number): Chunk {
+  return {
+    id: '',
+    text: chunkText,
+    startIndex,
+    endIndex: startIndex + chunkText.length,
+    tokens: countTokens(chunkText),
+  }
+}
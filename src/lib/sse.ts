@@ -0,0 +1,65 @@
+export type ServerSentEvent = {
+  event: string
+  data: string
+}
+
+/**
+ * Serializes a single Server-Sent Event frame. Payloads are JSON-encoded so multi-line
+ * text never breaks the `data:` framing.
+ */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Parses a `text/event-stream` body into events. Frames are separated by a blank line;
+ * multiple `data:` lines in one frame are joined with newlines, and comment lines are skipped.
+ */
+export async function* parseSSEStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent, void, unknown> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const parseFrame = (frame: string): ServerSentEvent | null => {
+    let event = 'message'
+    const dataLines: string[] = []
+
+    for (const line of frame.split('\n')) {
+      if (!line || line.startsWith(':')) continue
+
+      const separator = line.indexOf(':')
+      const field = separator === -1 ? line : line.slice(0, separator)
+      let value = separator === -1 ? '' : line.slice(separator + 1)
+      if (value.startsWith(' ')) value = value.slice(1)
+
+      if (field === 'event') event = value
+      else if (field === 'data') dataLines.push(value)
+    }
+
+    return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      // A trailing \r may be the first half of a \r\n split across chunks
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n|\r(?!$)/g, '\n')
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const frame = parseFrame(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (frame) yield frame
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+
+    buffer = (buffer + decoder.decode()).replace(/\r\n?/g, '\n')
+    const trailing = parseFrame(buffer.trim())
+    if (trailing) yield trailing
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Token counting for chunk budgets
+ * Approximates the WordPiece tokenizer used by the bge embedding models without shipping
+ * its vocabulary: text is pre-tokenized the way BERT's basic tokenizer does it (words,
+ * single punctuation marks, single CJK characters), and long words are charged for the
+ * sub-word pieces they usually split into. Counts err on the high side so chunks stay
+ * inside the model's window.
+ */
+
+// CJK ideographs and kana are tokens on their own; other letters/digits form words
+const PRE_TOKEN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}\p{M}])+|[^\s\p{L}\p{N}\p{M}]/gu
+
+// Words up to this length are usually whole vocabulary entries
+const WHOLE_WORD_LENGTH = 6
+// Average characters per `##` continuation piece beyond that
+const CHARS_PER_PIECE = 4
+
+function wordPieces(word: string): number {
+  return word.length <= WHOLE_WORD_LENGTH ? 1 : 1 + Math.ceil((word.length - WHOLE_WORD_LENGTH) / CHARS_PER_PIECE)
+}
+
+/** Number of model tokens in `text`, excluding the `[CLS]`/`[SEP]` markers */
+export function countTokens(text: string): number {
+  let count = 0
+  for (const match of text.matchAll(PRE_TOKEN)) {
+    count += wordPieces(match[0])
+  }
+  return count
+}
+
+/** Longest prefix of `text` within `maxTokens`, cut after a whole pre-token */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  let count = 0
+  let end = 0
+  for (const match of text.matchAll(PRE_TOKEN)) {
+    count += wordPieces(match[0])
+    if (count > maxTokens) return text.slice(0, end)
+    end = match.index! + match[0].length
+  }
+  return text
+}
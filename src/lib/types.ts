@@ -1,5 +1,41 @@
 export type SourceType = 'web' | 'github' | 'onedrive' | 'dropbox' | 'pdf' | 'docx' | 'markdown'
 
+export type ChunkStrategy = 'fixed' | 'sentence' | 'paragraph' | 'markdown' | 'semantic' | 'recursive' | 'code'
+
+/** Token budgets for the recursive chunker, configurable per knowledge base */
+export interface ChunkingOptions {
+  /** Maximum tokens per chunk */
+  chunkSize: number
+  /** Tokens repeated from the end of the previous chunk */
+  overlap: number
+  /** Smaller chunks are merged into a neighbour when the budget allows */
+  minChunkSize: number
+  /** Embed the document title and section breadcrumb with each chunk (default true) */
+  contextualPrefix?: boolean
+  /** Maximum characters per chunk; defaults to what the embedding pipeline passes on */
+  maxLength?: number
+}
+
+/** How hybrid search combines semantic and keyword rankings, configurable per knowledge base */
+export interface FusionOptions {
+  /** `weighted`: normalized scores blended by weight; `rrf`: reciprocal rank fusion */
+  method: 'weighted' | 'rrf'
+  /** Puts both score scales on a common footing before weighting */
+  normalization: 'minmax' | 'zscore'
+  /** Share of the semantic ranking, 0 to 1; keyword gets the rest */
+  semanticWeight: number
+  /** RRF rank constant; lower values favour top ranks more */
+  rrfK: number
+}
+
+/** Embedding model of a knowledge base; its chunks and queries are embedded with it */
+export interface EmbeddingSettings {
+  /** Workers AI model id (see `EMBEDDING_MODELS`) */
+  model: string
+  /** Vector size the model produces; picks the Vectorize index */
+  dimension: number
+}
+
 export interface Document {
   id: string
   title: string
@@ -14,9 +50,16 @@ export interface Document {
     author?: string
     thumbnail?: string
     pageCount?: number
+    /** Repository path, for files ingested from GitHub */
+    filePath?: string
+    language?: string
+    /** Free-form labels; queries can be filtered on them */
+    tags?: string[]
   }
   chunkCount?: number
-  chunkStrategy?: 'fixed' | 'sentence' | 'paragraph' | 'semantic'
+  chunkStrategy?: ChunkStrategy
+  /** Set on retrieval results: section breadcrumbs of the matched chunks, best match first */
+  matchedSections?: string[]
 }
 
 export interface DocumentChunk {
@@ -29,8 +72,22 @@ export interface DocumentChunk {
   endIndex: number
   tokens: number
   embedding?: number[]
+  /** Model that produced `embedding` (`simulated` for the hash-based fallback); unset on chunks stored before it was recorded */
+  embeddingModel?: string
+  embeddingDimension?: number
+  /** Hash of the embedded text (context prefix and chunk); the chunk id is derived from it */
+  contentHash?: string
   metadata: {
-    strategy: 'fixed' | 'sentence' | 'paragraph' | 'semantic'
+    strategy: ChunkStrategy
+    /** Size parameters the chunk was cut with (configurable strategies only) */
+    chunking?: ChunkingOptions
+    /** Headings enclosing the chunk, outermost first */
+    sectionPath?: string[]
+    /** Breadcrumb embedded in front of the chunk text */
+    contextPrefix?: string
+    /** Source file and declaration the chunk covers (code chunks) */
+    filePath?: string
+    symbol?: string
     parentDocument: {
       title: string
       sourceType: SourceType
@@ -50,6 +107,10 @@ export interface KnowledgeBase {
   sources: SourceType[]
   azureSearchEnabled?: boolean
   azureIndexName?: string
+  chunking?: ChunkingOptions
+  /** Defaults to `DEFAULT_EMBEDDING_SETTINGS`; change it, then re-embed the knowledge base */
+  embedding?: EmbeddingSettings
+  fusion?: FusionOptions
 }
 
 export interface Query {
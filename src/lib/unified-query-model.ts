@@ -1,4 +1,6 @@
 import { runtime } from './runtime/manager'
+import { updateWithRetry } from './runtime/versioning'
+import { LegacyStorageKeys, StorageKeys, getMany, listKeys, migrateOnce } from './kb-storage'
 import { QueryIntent, RetrievalStrategy } from './agentic-router'
 
 export type UnifiedQueryMethod = 'standard' | 'azure' | 'agentic'
@@ -29,81 +31,129 @@ type HistoryFilter = {
   method?: UnifiedQueryMethod
   startDate?: number
   endDate?: number
+  /** Only the most recent records; the rest are never read */
+  limit?: number
 }
 
-export class UnifiedQueryTracker {
-  private static STORAGE_KEY = 'unified-query-history'
+type Tally = { total: number; count: number }
+
+/**
+ * Running totals behind `getAnalytics`, kept per knowledge base and across all of them so
+ * the dashboard reads one record instead of every query. Rebuilt from the records when missing.
+ */
+export type QuerySummary = {
+  totalQueries: number
+  methodBreakdown: Record<UnifiedQueryMethod, number>
+  confidence: Tally
+  iterations: Tally
+  timeMs: Tally
+  feedbackBreakdown: Record<'positive' | 'neutral' | 'negative', number>
+}
 
-  async recordQuery(record: UnifiedQueryRecord): Promise<void> {
-    const history = await this.getHistory()
-    history.push(record)
+type Feedback = UnifiedQueryRecord['userFeedback']
 
-    // keep recent 2000 entries
-    if (history.length > 2000) {
-      history.splice(0, history.length - 2000)
-    }
-
-    await runtime.kv.set(UnifiedQueryTracker.STORAGE_KEY, history)
+function emptySummary(): QuerySummary {
+  return {
+    totalQueries: 0,
+    methodBreakdown: { standard: 0, azure: 0, agentic: 0 },
+    confidence: { total: 0, count: 0 },
+    iterations: { total: 0, count: 0 },
+    timeMs: { total: 0, count: 0 },
+    feedbackBreakdown: { positive: 0, neutral: 0, negative: 0 }
   }
+}
 
-  async getHistory(filter: HistoryFilter = {}): Promise<UnifiedQueryRecord[]> {
-    const history = await runtime.kv.get<UnifiedQueryRecord[]>(UnifiedQueryTracker.STORAGE_KEY) || []
-    return history.filter(h => {
-      if (filter.knowledgeBaseId && h.knowledgeBaseId !== filter.knowledgeBaseId) return false
-      if (filter.method && h.method !== filter.method) return false
-      if (filter.startDate && h.timestamp < filter.startDate) return false
-      if (filter.endDate && h.timestamp > filter.endDate) return false
-      return true
-    })
+/** Adds (`sign` 1) or removes (`sign` -1) a record's contribution */
+function applyRecord(summary: QuerySummary, record: UnifiedQueryRecord, sign: 1 | -1): QuerySummary {
+  const tally = (current: Tally, value?: number): Tally =>
+    typeof value === 'number' ? { total: current.total + sign * value, count: current.count + sign } : current
+
+  const next = {
+    ...summary,
+    totalQueries: summary.totalQueries + sign,
+    methodBreakdown: { ...summary.methodBreakdown, [record.method]: (summary.methodBreakdown[record.method] || 0) + sign },
+    confidence: tally(summary.confidence, record.confidence),
+    iterations: tally(summary.iterations, record.iterations),
+    timeMs: tally(summary.timeMs, record.timeMs)
   }
+  return applyFeedback(next, record.userFeedback, sign)
+}
 
-  async getAnalytics(knowledgeBaseId?: string) {
-    const history = await this.getHistory({ knowledgeBaseId })
-    const totalQueries = history.length
+function applyFeedback(summary: QuerySummary, feedback: Feedback, sign: 1 | -1): QuerySummary {
+  if (!feedback) return summary
+  return { ...summary, feedbackBreakdown: { ...summary.feedbackBreakdown, [feedback]: summary.feedbackBreakdown[feedback] + sign } }
+}
 
-    const methodBreakdown: Record<UnifiedQueryMethod, number> = {
-      standard: 0,
-      azure: 0,
-      agentic: 0
-    }
+function keyTimestamp(key: string): number {
+  return Number(key.split(':')[2])
+}
 
-    let totalConfidence = 0
-    let totalIterations = 0
-    let totalTime = 0
-    let confidenceCount = 0
-    let iterationCount = 0
-    let timeCount = 0
+export class UnifiedQueryTracker {
+  static readonly MAX_RECORDS = 2000
 
-    const feedbackBreakdown = { positive: 0, neutral: 0, negative: 0 }
+  async recordQuery(record: UnifiedQueryRecord): Promise<void> {
+    await this.migrateLegacyHistory()
 
-    history.forEach(h => {
-      methodBreakdown[h.method] = (methodBreakdown[h.method] || 0) + 1 as number
-      if (typeof h.confidence === 'number') {
-        totalConfidence += h.confidence
-        confidenceCount++
-      }
-      if (typeof h.iterations === 'number') {
-        totalIterations += h.iterations
-        iterationCount++
-      }
-      if (typeof h.timeMs === 'number') {
-        totalTime += h.timeMs
-        timeCount++
-      }
-      if (h.userFeedback) {
-        feedbackBreakdown[h.userFeedback]++
-      }
+    const key = StorageKeys.query(record.knowledgeBaseId, record.timestamp, record.id)
+    await runtime.kv.set(key, record)
+
+    // keep recent MAX_RECORDS entries; CAS so concurrent recorders do not lose each other's keys
+    let dropped: string[] = []
+    await updateWithRetry<string[]>(runtime.kv, StorageKeys.queryIndex, current => {
+      const index = [...(current || []), key]
+      dropped = index.splice(0, Math.max(0, index.length - UnifiedQueryTracker.MAX_RECORDS))
+      return index
     })
+    await this.updateSummaries(record.knowledgeBaseId, summary => applyRecord(summary, record, 1))
+
+    for (const droppedKey of dropped) {
+      const droppedRecord = await runtime.kv.get<UnifiedQueryRecord>(droppedKey)
+      await runtime.kv.delete(droppedKey)
+      if (droppedRecord) {
+        await this.updateSummaries(droppedRecord.knowledgeBaseId, summary => applyRecord(summary, droppedRecord, -1))
+      }
+    }
+  }
+
+  async getHistory(filter: HistoryFilter = {}): Promise<UnifiedQueryRecord[]> {
+    const keys = (await this.recordKeys(filter.knowledgeBaseId))
+      .filter(key => {
+        // Keys embed the timestamp, so date filters skip reads entirely
+        const timestamp = keyTimestamp(key)
+        if (filter.startDate && timestamp < filter.startDate) return false
+        if (filter.endDate && timestamp > filter.endDate) return false
+        return true
+      })
+      .sort((a, b) => keyTimestamp(a) - keyTimestamp(b))
+
+    // Newest first, a page at a time, until enough records pass the method filter
+    const limit = filter.limit ?? keys.length
+    const pageSize = Math.max(limit, 1)
+    const history: UnifiedQueryRecord[] = []
+    for (let end = keys.length; end > 0 && history.length < limit; end -= pageSize) {
+      const page = await getMany<UnifiedQueryRecord>(keys.slice(Math.max(0, end - pageSize), end))
+      history.push(...page.filter(h => !filter.method || h.method === filter.method))
+    }
+
+    return history
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(Math.max(0, history.length - limit))
+  }
+
+  async getAnalytics(knowledgeBaseId?: string) {
+    const summary = await this.getSummary(knowledgeBaseId)
+    const { totalQueries, feedbackBreakdown } = summary
+    const average = (tally: Tally) => tally.count ? tally.total / tally.count : 0
 
     const successRate = totalQueries === 0 ? 0 : ((feedbackBreakdown.positive || 0) / totalQueries) * 100
 
     return {
       totalQueries,
-      methodBreakdown,
+      methodBreakdown: summary.methodBreakdown,
       agenticMetrics: {
-        averageConfidence: confidenceCount ? totalConfidence / confidenceCount : 0,
-        averageIterations: iterationCount ? totalIterations / iterationCount : 0,
-        averageTimeMs: timeCount ? totalTime / timeCount : 0
+        averageConfidence: average(summary.confidence),
+        averageIterations: average(summary.iterations),
+        averageTimeMs: average(summary.timeMs)
       },
       feedbackBreakdown,
       successRate
@@ -111,15 +161,83 @@ export class UnifiedQueryTracker {
   }
 
   async recordUserFeedback(queryId: string, feedback: 'positive' | 'negative' | 'neutral'): Promise<void> {
-    const history = await this.getHistory()
-    const record = history.find(h => h.id === queryId)
-    if (record) {
+    const key = (await this.recordKeys()).find(k => k.endsWith(`:${queryId}`))
+    if (!key) return
+
+    let previous: Feedback
+    const written = await updateWithRetry<UnifiedQueryRecord>(runtime.kv, key, record => {
+      if (!record) return undefined
+      previous = record.userFeedback
       record.userFeedback = feedback
-      await runtime.kv.set(UnifiedQueryTracker.STORAGE_KEY, history)
+      return record
+    })
+
+    if (written && previous !== feedback) {
+      await this.updateSummaries(written.knowledgeBaseId, summary =>
+        applyFeedback(applyFeedback(summary, previous, -1), feedback, 1))
     }
   }
 
   async clearHistory() {
-    await runtime.kv.delete(UnifiedQueryTracker.STORAGE_KEY)
+    const keys = await this.recordKeys()
+    for (const key of keys) {
+      await runtime.kv.delete(key)
+    }
+    await runtime.kv.delete(StorageKeys.queryIndex)
+
+    const knowledgeBaseIds = new Set(keys.map(key => key.split(':')[1]))
+    for (const knowledgeBaseId of [undefined, ...knowledgeBaseIds]) {
+      await runtime.kv.delete(StorageKeys.querySummary(knowledgeBaseId))
+    }
+  }
+
+  private async getSummary(knowledgeBaseId?: string): Promise<QuerySummary> {
+    const key = StorageKeys.querySummary(knowledgeBaseId)
+    const summary = await runtime.kv.get<QuerySummary>(key)
+    if (summary) return summary
+
+    // Records written before summaries existed
+    const history = await this.getHistory({ knowledgeBaseId })
+    const rebuilt = history.reduce((current, record) => applyRecord(current, record, 1), emptySummary())
+    await runtime.kv.set(key, rebuilt)
+    return rebuilt
+  }
+
+  /**
+   * Applies `update` to the knowledge base's summary and the all-KB one. Missing summaries are
+   * left alone: they are rebuilt from the records, which already include this change.
+   */
+  private async updateSummaries(knowledgeBaseId: string, update: (summary: QuerySummary) => QuerySummary): Promise<void> {
+    for (const key of [StorageKeys.querySummary(knowledgeBaseId), StorageKeys.querySummary()]) {
+      await updateWithRetry<QuerySummary>(runtime.kv, key, current => current ? update(current) : undefined)
+    }
+  }
+
+  private async getIndex(): Promise<string[]> {
+    return await runtime.kv.get<string[]>(StorageKeys.queryIndex) || []
+  }
+
+  private async recordKeys(knowledgeBaseId?: string): Promise<string[]> {
+    await this.migrateLegacyHistory()
+    const prefix = StorageKeys.queryPrefix(knowledgeBaseId)
+    const index = await this.getIndex()
+    return listKeys(prefix, index.filter(key => key.startsWith(prefix)))
+  }
+
+  private migrateLegacyHistory(): Promise<void> {
+    return migrateOnce(LegacyStorageKeys.queryHistory, async () => {
+      const legacy = await runtime.kv.get<UnifiedQueryRecord[]>(LegacyStorageKeys.queryHistory)
+      if (!legacy) return
+
+      const keys: string[] = []
+      for (const record of legacy.slice(-UnifiedQueryTracker.MAX_RECORDS)) {
+        const key = StorageKeys.query(record.knowledgeBaseId, record.timestamp, record.id)
+        await runtime.kv.set(key, record)
+        keys.push(key)
+      }
+      await updateWithRetry<string[]>(runtime.kv, StorageKeys.queryIndex, current => [...keys, ...(current || [])])
+
+      await runtime.kv.delete(LegacyStorageKeys.queryHistory)
+    })
   }
 }
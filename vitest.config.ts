@@ -5,6 +5,6 @@ export default defineConfig({
     environment: 'jsdom',
     globals: true,
     setupFiles: [],
-    include: ['src/lib/__tests__/**/*.test.ts']
+    include: ['src/lib/__tests__/**/*.test.ts', 'worker/__tests__/**/*.test.ts']
   }
 })
@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, expect, test } from 'vitest'
+import {
+  authenticate,
+  AuthError,
+  buildCorsHeaders,
+  createApiKey,
+  hashApiKey,
+  isReservedKVKey,
+  kvKeyFromPath,
+  requiredScope
+} from '../auth'
+import { createEnv } from './fake-kv'
+
+const bearer = (key: string) => new Request('https://app.test/api/llm', { headers: { Authorization: `Bearer ${key}` } })
+
+describe('Worker auth', () => {
+  test('maps routes to scopes, with stored credentials needing admin however the key is encoded', () => {
+    expect(requiredScope('GET', '/api/kv/documents')).toBe('query')
+    expect(requiredScope('PUT', '/api/kv/documents')).toBe('ingest')
+    expect(requiredScope('GET', '/api/kv')).toBe('query')
+    expect(requiredScope('POST', '/api/vector/upsert')).toBe('ingest')
+    expect(requiredScope('POST', '/api/rag/query')).toBe('query')
+    expect(requiredScope('GET', '/api/auth/me')).toBe('query')
+    expect(requiredScope('GET', '/api/auth/keys')).toBe('admin')
+    expect(requiredScope('GET', '/api/kv/azure-settings')).toBe('admin')
+    expect(requiredScope('GET', '/api/kv/azure%2Dsettings')).toBe('admin')
+    // Malformed keys are rejected by the route; the scope falls back to the method's
+    expect(requiredScope('PUT', '/api/kv/%E0%A4%A')).toBe('ingest')
+  })
+
+  test('checks reserved prefixes on the decoded key', () => {
+    expect(kvKeyFromPath('/api/kv/auth%3Akey%3Aabc')).toBe('auth:key:abc')
+    expect(kvKeyFromPath('/api/kv/%E0%A4%A')).toBeNull()
+    expect(isReservedKVKey('auth:key:abc')).toBe(true)
+    expect(isReservedKVKey('ws:other:documents')).toBe(true)
+    expect(isReservedKVKey(kvKeyFromPath('/api/kv/ws%3Aother%3Adocuments')!)).toBe(true)
+    expect(isReservedKVKey('kb:kb-1:index')).toBe(false)
+  })
+
+  test('looks keys up by their SHA-256 hash and enforces scopes', async () => {
+    const env = createEnv({ AUTH_REQUIRED: 'true' })
+    const { key, record } = await createApiKey(env, 'reader', ['query'], 'team-a')
+
+    // Only the hash is stored; the id is its prefix
+    const hash = await hashApiKey(key)
+    expect(await env.KV.get(`auth:key:${hash}`, 'json')).toEqual(record)
+    expect((await env.KV.list()).keys.map((k: { name: string }) => k.name)).toEqual([`auth:key:${hash}`])
+    expect(hash.startsWith(record.id)).toBe(true)
+
+    expect(await authenticate(bearer(key), env, '/api/llm')).toEqual(record)
+    await expect(authenticate(bearer(`${key}x`), env, '/api/llm')).rejects.toMatchObject({ status: 401 })
+    await expect(authenticate(new Request('https://app.test/api/llm'), env, '/api/llm')).rejects.toThrow(AuthError)
+    await expect(authenticate(bearer(key), env, '/api/vector/upsert')).rejects.toMatchObject({ status: 403 })
+
+    const admin = await authenticate(bearer('bootstrap-secret'), { ...env, ADMIN_API_KEY: 'bootstrap-secret' }, '/api/auth/keys')
+    expect(admin?.scopes).toEqual(['admin'])
+    expect(await authenticate(bearer('anything'), { ...env, AUTH_REQUIRED: 'false' }, '/api/auth/keys')).toBeNull()
+  })
+
+  test('allows only configured origins', () => {
+    const request = (origin: string) => new Request('https://app.test/api/llm', { headers: { Origin: origin } })
+
+    expect(buildCorsHeaders(request('https://other.test'), createEnv())['Access-Control-Allow-Origin']).toBeUndefined()
+    const env = createEnv({ CORS_ALLOWED_ORIGINS: 'https://a.test, https://b.test' })
+    expect(buildCorsHeaders(request('https://b.test'), env)['Access-Control-Allow-Origin']).toBe('https://b.test')
+    expect(buildCorsHeaders(request('https://c.test'), env)['Access-Control-Allow-Origin']).toBeUndefined()
+    expect(buildCorsHeaders(request('https://c.test'), createEnv({ CORS_ALLOWED_ORIGINS: '*' }))['Access-Control-Allow-Origin']).toBe('*')
+  })
+})
@@ -0,0 +1,40 @@
+/**
+ * In-memory stand-in for a Workers KV namespace binding, covering the calls the Worker makes
+ */
+export class FakeKVNamespace {
+  private entries = new Map<string, { value: string; metadata?: unknown }>()
+
+  async get<T>(key: string, type?: 'text' | 'json'): Promise<T | string | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    return type === 'json' ? JSON.parse(entry.value) as T : entry.value
+  }
+
+  async getWithMetadata<M>(key: string): Promise<{ value: string | null; metadata: M | null }> {
+    const entry = this.entries.get(key)
+    return { value: entry?.value ?? null, metadata: (entry?.metadata as M) ?? null }
+  }
+
+  async put(key: string, value: string, options?: { metadata?: unknown }): Promise<void> {
+    this.entries.set(key, { value, metadata: options?.metadata })
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async list(options: { prefix?: string; cursor?: string } = {}) {
+    const keys = Array.from(this.entries.keys())
+      .filter(name => name.startsWith(options.prefix || ''))
+      .sort()
+      .map(name => ({ name }))
+    return { keys, list_complete: true, cursor: undefined }
+  }
+}
+
+/** Bindings for `worker.fetch` with auth disabled unless overridden */
+export function createEnv(overrides: Record<string, unknown> = {}): any {
+  return { KV: new FakeKVNamespace(), AUTH_REQUIRED: 'false', ...overrides }
+}
+
+export const executionContext: any = { waitUntil: () => {}, passThroughOnException: () => {} }
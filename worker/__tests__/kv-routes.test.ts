@@ -0,0 +1,43 @@
+// @vitest-environment node
+import { describe, expect, test } from 'vitest'
+import worker from '../index'
+import { WorkerKeyValueStore } from '../runtime-adapter'
+import { createEnv, executionContext } from './fake-kv'
+
+const kvRequest = (key: string, init?: RequestInit) =>
+  new Request(`https://app.test/api/kv/${encodeURIComponent(key)}`, init)
+
+describe('Worker KV routes', () => {
+  test('store URL-encoded keys under their decoded name', async () => {
+    const env = createEnv()
+    const put = await worker.fetch(kvRequest('kb:kb-1:index', {
+      method: 'PUT',
+      body: JSON.stringify({ value: { documentIds: ['doc-1'] } })
+    }), env, executionContext)
+    expect(put.status).toBe(200)
+
+    // Server-side code reads the same key through the binding
+    expect(await new WorkerKeyValueStore(env.KV).get('kb:kb-1:index')).toEqual({ documentIds: ['doc-1'] })
+
+    const get = await worker.fetch(kvRequest('kb:kb-1:index'), env, executionContext)
+    expect((await get.json()).value).toEqual({ documentIds: ['doc-1'] })
+
+    const list = await worker.fetch(new Request(`https://app.test/api/kv?prefix=${encodeURIComponent('kb:kb-1:')}`), env, executionContext)
+    expect((await list.json()).keys).toEqual(['kb:kb-1:index'])
+
+    await worker.fetch(kvRequest('kb:kb-1:index', { method: 'DELETE' }), env, executionContext)
+    expect(await env.KV.get('kb:kb-1:index')).toBeNull()
+  })
+
+  test('rejects malformed escapes and encoded reserved keys', async () => {
+    const env = createEnv()
+    const malformed = await worker.fetch(new Request('https://app.test/api/kv/kb%3A%E0%A4%A'), env, executionContext)
+    expect(malformed.status).toBe(400)
+
+    for (const key of ['auth:key:abc', 'ws:other:documents']) {
+      const response = await worker.fetch(kvRequest(key, { method: 'PUT', body: JSON.stringify({ value: 1 }) }), env, executionContext)
+      expect(response.status).toBe(403)
+    }
+    expect((await env.KV.list()).keys).toEqual([])
+  })
+})
@@ -0,0 +1,14 @@
+// @vitest-environment node
+import { describe, expect, test } from 'vitest'
+import { validateRAGQueryRequest } from '../rag'
+
+describe('RAG query validation', () => {
+  const request = { knowledgeBaseId: 'kb-1', query: 'how are keys rotated' }
+
+  test('accepts known rerank modes and rejects others', () => {
+    expect(validateRAGQueryRequest({ ...request, config: { enableReranking: true } })).toBeNull()
+    expect(validateRAGQueryRequest({ ...request, config: { rerankMode: 'llm_pointwise' } })).toBeNull()
+    expect(validateRAGQueryRequest({ ...request, config: { rerankMode: 'cross_encoder' } }))
+      .toBe('config.rerankMode must be one of model, llm_pointwise, llm_listwise')
+  })
+})
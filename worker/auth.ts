@@ -0,0 +1,296 @@
+/**
+ * Worker API authentication
+ * API keys are stored in KV by SHA-256 hash (`auth:key:<hash>`); the plaintext key is only
+ * returned once, when it is created. Each key belongs to one workspace.
+ */
+import { DEFAULT_WORKSPACE_ID, isValidWorkspaceId, WORKSPACE_KEY_PREFIX } from '../src/lib/runtime/namespaced'
+
+export type ApiKeyScope = 'query' | 'ingest' | 'admin'
+
+export type ApiKeyRecord = {
+  id: string
+  name: string
+  scopes: ApiKeyScope[]
+  workspaceId: string
+  createdAt: number
+}
+
+export interface AuthEnv {
+  KV: KVNamespace
+  ADMIN_API_KEY?: string
+  AUTH_REQUIRED?: string
+  CORS_ALLOWED_ORIGINS?: string
+}
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['query', 'ingest', 'admin']
+
+/** KV prefix reserved for auth data; never readable or writable through `/api/kv` */
+export const AUTH_KV_PREFIX = 'auth:'
+const API_KEY_PREFIX = `${AUTH_KV_PREFIX}key:`
+
+/** KV keys holding service credentials (the Azure admin API key); reading or writing them needs `admin` */
+export const CREDENTIAL_KV_KEYS = ['azure-settings']
+
+// Length of the hash prefix used as the public key id
+const KEY_ID_LENGTH = 16
+
+// The ADMIN_API_KEY secret acts across all workspaces
+const BOOTSTRAP_KEY_ID = 'admin'
+
+// Each scope includes the ones before it: admin ⊇ ingest ⊇ query
+const SCOPE_RANK: Record<ApiKeyScope, number> = { query: 0, ingest: 1, admin: 2 }
+
+export class AuthError extends Error {
+  constructor(message: string, public status: 401 | 403) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+export function isAuthRequired(env: AuthEnv): boolean {
+  return env.AUTH_REQUIRED !== 'false'
+}
+
+export async function hashApiKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return `crk_${Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')}`
+}
+
+export function isBootstrapKey(record: ApiKeyRecord): boolean {
+  return record.id === BOOTSTRAP_KEY_ID
+}
+
+/**
+ * Picks the workspace a request operates in: the key's workspace, or, when auth is disabled,
+ * the `X-Workspace-Id` header (falling back to the default workspace).
+ */
+export function resolveWorkspaceId(request: Request, auth: ApiKeyRecord | null): string {
+  if (auth) {
+    return auth.workspaceId || DEFAULT_WORKSPACE_ID
+  }
+
+  const requested = request.headers.get('X-Workspace-Id')
+  if (requested && !isValidWorkspaceId(requested)) {
+    throw new AuthError(`Invalid workspace id: ${requested}`, 403)
+  }
+  return requested || DEFAULT_WORKSPACE_ID
+}
+
+export function hasScope(record: ApiKeyRecord, required: ApiKeyScope): boolean {
+  return record.scopes.some(scope => SCOPE_RANK[scope] >= SCOPE_RANK[required])
+}
+
+/**
+ * Maps an API route to the minimum scope needed to call it.
+ * Reads (queries, embeddings, KV GET) need `query`; any write needs `ingest`; key management
+ * and stored credentials need `admin`.
+ */
+export function requiredScope(method: string, path: string): ApiKeyScope {
+  if (path.startsWith('/api/auth/')) {
+    return path === '/api/auth/me' ? 'query' : 'admin'
+  }
+
+  if (path === '/api/vector/upsert' || path === '/api/vector/delete') {
+    return 'ingest'
+  }
+
+  if (path === '/api/kv' || path.startsWith('/api/kv/')) {
+    const key = path.startsWith('/api/kv/') ? kvKeyFromPath(path) : null
+    if (key !== null && CREDENTIAL_KV_KEYS.includes(key)) {
+      return 'admin'
+    }
+    return method === 'GET' ? 'query' : 'ingest'
+  }
+
+  return 'query'
+}
+
+/**
+ * The decoded key of a `/api/kv/:key` path, or null when its escapes are malformed.
+ * Scope checks, reserved-key checks and the KV routes all use this one decoding.
+ */
+export function kvKeyFromPath(path: string): string | null {
+  try {
+    return decodeURIComponent(path.slice('/api/kv/'.length))
+  } catch {
+    return null
+  }
+}
+
+/** Auth records and other workspaces' keys, which the generic KV routes must not reach */
+export function isReservedKVKey(key: string): boolean {
+  return [AUTH_KV_PREFIX, WORKSPACE_KEY_PREFIX].some(prefix => key.startsWith(prefix))
+}
+
+function readBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization')
+  if (!header) return null
+
+  const match = header.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() : null
+}
+
+// Compares digests rather than raw strings so timing does not depend on the secret
+async function matchesSecret(token: string, secret: string): Promise<boolean> {
+  const [a, b] = await Promise.all([hashApiKey(token), hashApiKey(secret)])
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/**
+ * Resolves the caller's key and checks it grants the scope the route needs.
+ * Returns `null` when auth is disabled (`AUTH_REQUIRED = "false"`).
+ */
+export async function authenticate(request: Request, env: AuthEnv, path: string): Promise<ApiKeyRecord | null> {
+  if (!isAuthRequired(env)) {
+    return null
+  }
+
+  const token = readBearerToken(request)
+  if (!token) {
+    throw new AuthError('Missing API key', 401)
+  }
+
+  let record: ApiKeyRecord | null = null
+  if (env.ADMIN_API_KEY && await matchesSecret(token, env.ADMIN_API_KEY)) {
+    record = { id: BOOTSTRAP_KEY_ID, name: 'Bootstrap admin key', scopes: ['admin'], workspaceId: DEFAULT_WORKSPACE_ID, createdAt: 0 }
+  } else {
+    record = await env.KV.get<ApiKeyRecord>(`${API_KEY_PREFIX}${await hashApiKey(token)}`, 'json')
+  }
+
+  if (!record) {
+    throw new AuthError('Invalid API key', 401)
+  }
+
+  const scope = requiredScope(request.method, path)
+  if (!hasScope(record, scope)) {
+    throw new AuthError(`API key lacks the "${scope}" scope`, 403)
+  }
+
+  return record
+}
+
+export async function createApiKey(
+  env: AuthEnv,
+  name: string,
+  scopes: ApiKeyScope[],
+  workspaceId: string = DEFAULT_WORKSPACE_ID
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const key = generateApiKey()
+  const hash = await hashApiKey(key)
+  const record: ApiKeyRecord = {
+    id: hash.slice(0, KEY_ID_LENGTH),
+    name,
+    scopes,
+    workspaceId,
+    createdAt: Date.now()
+  }
+
+  await env.KV.put(`${API_KEY_PREFIX}${hash}`, JSON.stringify(record))
+  return { key, record }
+}
+
+/**
+ * Lists keys, optionally limited to one workspace. Keys created before workspaces existed
+ * belong to the default workspace.
+ */
+export async function listApiKeys(env: AuthEnv, workspaceId?: string): Promise<ApiKeyRecord[]> {
+  const records: ApiKeyRecord[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await env.KV.list({ prefix: API_KEY_PREFIX, cursor })
+    for (const { name } of page.keys) {
+      const record = await env.KV.get<ApiKeyRecord>(name, 'json')
+      if (record && (!workspaceId || (record.workspaceId || DEFAULT_WORKSPACE_ID) === workspaceId)) {
+        records.push(record)
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor
+  } while (cursor)
+
+  return records.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/**
+ * Revokes a key by its public id (the leading characters of its hash), optionally only
+ * within one workspace. Returns false when no key matches.
+ */
+export async function revokeApiKey(env: AuthEnv, id: string, workspaceId?: string): Promise<boolean> {
+  if (!/^[0-9a-f]+$/.test(id) || id.length !== KEY_ID_LENGTH) {
+    return false
+  }
+
+  const page = await env.KV.list({ prefix: `${API_KEY_PREFIX}${id}` })
+  let revoked = false
+  for (const { name } of page.keys) {
+    const record = await env.KV.get<ApiKeyRecord>(name, 'json')
+    if (workspaceId && (record?.workspaceId || DEFAULT_WORKSPACE_ID) !== workspaceId) continue
+
+    await env.KV.delete(name)
+    revoked = true
+  }
+
+  return revoked
+}
+
+/**
+ * Validates a key-creation body and returns an error message when it is unusable.
+ */
+export function validateCreateKeyRequest(body: unknown): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'request body must be a JSON object'
+  }
+
+  const { name, scopes, workspaceId } = body as Record<string, unknown>
+
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return 'name is required'
+  }
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    return 'scopes must be a non-empty array'
+  }
+  const invalid = scopes.find(scope => !API_KEY_SCOPES.includes(scope as ApiKeyScope))
+  if (invalid !== undefined) {
+    return `Unknown scope: ${String(invalid)}`
+  }
+  if (workspaceId !== undefined && (typeof workspaceId !== 'string' || !isValidWorkspaceId(workspaceId))) {
+    return 'workspaceId must be 1-64 letters, digits, "-" or "_"'
+  }
+
+  return null
+}
+
+/**
+ * Builds CORS headers for the request origin. `CORS_ALLOWED_ORIGINS` is a comma-separated
+ * allowlist, or `*` for any origin; when unset, only same-origin requests are allowed.
+ */
+export function buildCorsHeaders(request: Request, env: AuthEnv): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Workspace-Id',
+    'Vary': 'Origin',
+  }
+
+  const allowed = (env.CORS_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean)
+
+  const origin = request.headers.get('Origin')
+  if (allowed.includes('*')) {
+    headers['Access-Control-Allow-Origin'] = '*'
+  } else if (origin && allowed.includes(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin
+  }
+
+  return headers
+}
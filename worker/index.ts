@@ -1,27 +1,56 @@
 /**
  * Cloudflare Worker entry point
- * Handles API requests for LLM, KV, embeddings, and Vectorize operations
+ * Handles API requests for LLM, KV, embeddings, reranking, Vectorize operations and server-side RAG queries
  */
-import type { Ai, Vectorize, VectorizeVector } from '@cloudflare/workers-types'
-import { DEFAULT_CF_EMBEDDING_MODEL, EMBEDDING_DIMENSION, MAX_EMBEDDING_TEXT_LENGTH } from '../src/lib/embedding-constants'
+import type { Ai, Vectorize } from '@cloudflare/workers-types'
+import { DEFAULT_CF_EMBEDDING_MODEL, MAX_EMBEDDING_BATCH_SIZE, MAX_EMBEDDING_TEXT_LENGTH, resolveEmbeddingSettings } from '../src/lib/embedding-constants'
+import { DEFAULT_LLM_MODEL, DEFAULT_RERANK_MODEL } from '../src/lib/model-defaults'
+import { formatSSE } from '../src/lib/sse'
+import { KeyValueStore, VectorStore } from '../src/lib/runtime/interfaces'
+import { KnowledgeBase } from '../src/lib/types'
+import {
+  DEFAULT_WORKSPACE_ID,
+  ForeignVectorError,
+  NamespacedKeyValueStore,
+  TenantScopedVectorStore
+} from '../src/lib/runtime/namespaced'
+import { vectorIndexes, WorkerKeyValueStore, WorkerRerankProvider, WorkerVectorStore } from './runtime-adapter'
+import { runAgenticQuery, validateRAGQueryRequest, RAGQueryRequest, RAGRequestError } from './rag'
+import {
+  authenticate,
+  AuthError,
+  ApiKeyRecord,
+  ApiKeyScope,
+  buildCorsHeaders,
+  createApiKey,
+  isAuthRequired,
+  isBootstrapKey,
+  isReservedKVKey,
+  kvKeyFromPath,
+  listApiKeys,
+  resolveWorkspaceId,
+  revokeApiKey,
+  validateCreateKeyRequest
+} from './auth'
 
 export interface Env {
   AI: Ai
   KV: KVNamespace
   ASSETS: Fetcher
   VECTORIZE: Vectorize
+  VECTORIZE_768?: Vectorize
+  VECTORIZE_1024?: Vectorize
+  ADMIN_API_KEY?: string
+  AUTH_REQUIRED?: string
+  CORS_ALLOWED_ORIGINS?: string
 }
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url)
 
-    // CORS headers for all responses
-    const corsHeaders = {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    }
+    // CORS headers for all responses (origin allowlist from CORS_ALLOWED_ORIGINS)
+    const corsHeaders = buildCorsHeaders(request, env)
 
     // Handle CORS preflight
     if (request.method === 'OPTIONS') {
@@ -31,7 +60,22 @@ export default {
     try {
       // API Routes
       if (url.pathname.startsWith('/api/')) {
-        return handleAPI(request, env, corsHeaders)
+        let auth: ApiKeyRecord | null
+        let workspaceId: string
+        try {
+          auth = await authenticate(request, env, url.pathname)
+          workspaceId = resolveWorkspaceId(request, auth)
+        } catch (error) {
+          if (error instanceof AuthError) {
+            return new Response(JSON.stringify({ error: error.message }), {
+              status: error.status,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            })
+          }
+          throw error
+        }
+
+        return handleAPI(request, env, ctx, corsHeaders, auth, workspaceId)
       }
 
       // Serve static assets (Vite build output)
@@ -45,13 +89,175 @@ export default {
   },
 }
 
-async function handleAPI(request: Request, env: Env, corsHeaders: Record<string, string>): Promise<Response> {
+async function handleAPI(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  corsHeaders: Record<string, string>,
+  auth: ApiKeyRecord | null,
+  workspaceId: string
+): Promise<Response> {
   const url = new URL(request.url)
   const path = url.pathname
 
+  // Auth: the calling key (null when auth is disabled)
+  if (path === '/api/auth/me' && request.method === 'GET') {
+    return new Response(JSON.stringify({ authRequired: isAuthRequired(env), key: auth, workspaceId }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+
+  // Auth: list keys
+  if (path === '/api/auth/keys' && request.method === 'GET') {
+    // Workspace admins only see their own workspace's keys
+    const keys = await listApiKeys(env, auth && !isBootstrapKey(auth) ? workspaceId : undefined)
+    return new Response(JSON.stringify({ keys }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+
+  // Auth: create a key (the plaintext key is only returned here)
+  if (path === '/api/auth/keys' && request.method === 'POST') {
+    const body = await request.json().catch(() => null)
+    const validationError = validateCreateKeyRequest(body)
+    if (validationError) {
+      return new Response(JSON.stringify({ error: validationError }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { name, scopes, workspaceId: targetWorkspace = workspaceId } = body as {
+      name: string
+      scopes: ApiKeyScope[]
+      workspaceId?: string
+    }
+    if (auth && !isBootstrapKey(auth) && targetWorkspace !== workspaceId) {
+      return new Response(JSON.stringify({ error: 'Cannot create keys for another workspace' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const created = await createApiKey(env, name.trim(), scopes, targetWorkspace)
+    return new Response(JSON.stringify(created), {
+      status: 201,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+
+  // Auth: revoke a key by id
+  if (path.startsWith('/api/auth/keys/') && request.method === 'DELETE') {
+    const id = path.replace('/api/auth/keys/', '')
+    const revoked = await revokeApiKey(env, id, auth && !isBootstrapKey(auth) ? workspaceId : undefined)
+    return new Response(JSON.stringify(revoked ? { success: true } : { error: `API key not found: ${id}` }), {
+      status: revoked ? 200 : 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+
+  // Clients URL-encode the key (`kb%3A<id>%3Aindex`); the routes and checks below use the decoded key
+  const kvKey = path.startsWith('/api/kv/') ? kvKeyFromPath(path) : undefined
+  if (kvKey === null) {
+    return new Response(JSON.stringify({ error: 'Malformed key' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+
+  // Auth records and other workspaces' data share the namespace; keep them out of reach of the generic KV routes
+  if (kvKey !== undefined && isReservedKVKey(kvKey)) {
+    return new Response(JSON.stringify({ error: 'Reserved key' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+
+  // Agentic RAG query (server-side orchestration)
+  if (path === '/api/rag/query' && request.method === 'POST') {
+    const body = await request.json().catch(() => null)
+    const validationError = validateRAGQueryRequest(body)
+    if (validationError) {
+      return new Response(JSON.stringify({ error: validationError }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    try {
+      const result = await runAgenticQuery(env, body as RAGQueryRequest, {}, workspaceId, ctx)
+      return new Response(JSON.stringify(result), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    } catch (error) {
+      const status = error instanceof RAGRequestError ? error.status : 500
+      return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+  }
+
+  // Agentic RAG query with Server-Sent Events progress and answer tokens
+  if (path === '/api/rag/query/stream' && request.method === 'POST') {
+    const body = await request.json().catch(() => null)
+    const validationError = validateRAGQueryRequest(body)
+    if (validationError) {
+      return new Response(JSON.stringify({ error: validationError }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>()
+    const writer = writable.getWriter()
+    const encoder = new TextEncoder()
+
+    // Writes are queued by the stream; a client disconnect only drops the remaining events
+    const send = (event: string, data: unknown) => {
+      writer.write(encoder.encode(formatSSE(event, data))).catch(() => {})
+    }
+
+    const run = async () => {
+      try {
+        const ragRequest = body as RAGQueryRequest
+        const result = await runAgenticQuery(
+          env,
+          // Stream the generation phase token by token unless the caller opted out
+          { ...ragRequest, config: { streamGeneration: true, ...ragRequest.config } },
+          {
+            onProgress: step => send('progress', step),
+            onPartialAnswer: ({ delta, iteration, citations }) => send('token', { delta, iteration, citations })
+          },
+          workspaceId,
+          ctx
+        )
+        send('result', result)
+      } catch (error) {
+        send('error', {
+          error: error instanceof Error ? error.message : String(error),
+          status: error instanceof RAGRequestError ? error.status : 500
+        })
+      } finally {
+        writer.close().catch(() => {})
+      }
+    }
+
+    ctx.waitUntil(run())
+
+    return new Response(readable, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    })
+  }
+
   // LLM API
   if (path === '/api/llm' && request.method === 'POST') {
-    const { prompt, model = '@cf/meta/llama-3.1-8b-instruct', jsonMode = false } = await request.json() as {
+    const { prompt, model = DEFAULT_LLM_MODEL, jsonMode = false } = await request.json() as {
       prompt: string
       model?: string
       jsonMode?: boolean
@@ -83,16 +289,23 @@ async function handleAPI(request: Request, env: Env, corsHeaders: Record<string,
       })
     }
 
-    // Generate embeddings for each text individually (EMBEDDING_DIMENSION dimensions)
+    // The model embeds arrays of texts, so send them in batches rather than one call per text
     const embeddings: number[][] = []
-    for (const text of texts) {
+    for (let i = 0; i < texts.length; i += MAX_EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + MAX_EMBEDDING_BATCH_SIZE)
       const result = await env.AI.run(model, {
-        text: text.substring(0, MAX_EMBEDDING_TEXT_LENGTH) // Limit to model's max input length
+        text: batch.map(text => text.substring(0, MAX_EMBEDDING_TEXT_LENGTH)) // Limit to model's max input length
       }) as { data?: number[][] }
 
-      if (result.data && result.data[0]) {
-        embeddings.push(result.data[0])
+      if (!result.data || result.data.length !== batch.length) {
+        return new Response(JSON.stringify({
+          error: `Embedding model returned ${result.data?.length ?? 0} embeddings for ${batch.length} texts`
+        }), {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
       }
+      embeddings.push(...result.data)
     }
 
     return new Response(JSON.stringify({ embeddings }), {
@@ -100,6 +313,28 @@ async function handleAPI(request: Request, env: Env, corsHeaders: Record<string,
     })
   }
 
+  // Reranking API (Workers AI cross-encoder)
+  if (path === '/api/rerank' && request.method === 'POST') {
+    const { query, texts, model = DEFAULT_RERANK_MODEL } = await request.json() as {
+      query: string
+      texts: string[]
+      model?: string
+    }
+
+    if (typeof query !== 'string' || query.trim().length === 0 || !Array.isArray(texts)) {
+      return new Response(JSON.stringify({ error: 'query must be a non-empty string and texts an array' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const scores = await new WorkerRerankProvider(env.AI).rerank(query, texts, model)
+
+    return new Response(JSON.stringify({ scores }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+
   // Vectorize: upsert
   if (path === '/api/vector/upsert' && request.method === 'POST') {
     const { vectors } = await request.json() as { vectors: Array<{ id: string; values: number[]; metadata?: Record<string, any> }> }
@@ -111,18 +346,43 @@ async function handleAPI(request: Request, env: Env, corsHeaders: Record<string,
       })
     }
 
-    const invalidVector = vectors.find(v => v.values.length !== EMBEDDING_DIMENSION)
+    // Each vector must match the embedding dimension of the knowledge base it belongs to
+    const knowledgeBases = await scopedKV(env, workspaceId).get<KnowledgeBase[]>('knowledge-bases') || []
+    const expectedDimension = (kbId: unknown) =>
+      resolveEmbeddingSettings(knowledgeBases.find(kb => kb.id === kbId)?.embedding).dimension
+    const invalidVector = vectors.find(v => v.values.length !== expectedDimension(v.metadata?.kbId))
     if (invalidVector) {
       return new Response(JSON.stringify({
-        error: `Vector dimension mismatch for id ${invalidVector.id}: expected ${EMBEDDING_DIMENSION}, received ${invalidVector.values.length}`
+        error: `Vector dimension mismatch for id ${invalidVector.id}: expected ${expectedDimension(invalidVector.metadata?.kbId)}, received ${invalidVector.values.length}`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const indexes = vectorIndexes(env)
+    const unroutable = vectors.find(v => !indexes.has(v.values.length))
+    if (unroutable) {
+      return new Response(JSON.stringify({
+        error: `No Vectorize index is bound for ${unroutable.values.length}-dimensional vectors; see wrangler.toml`
       }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
     }
 
-    const payload: VectorizeVector[] = vectors.map(v => ({ id: v.id, values: v.values, metadata: v.metadata }))
-    await env.VECTORIZE.upsert(payload)
+    // Like deletes, upserts may only touch vectors the caller's workspace owns
+    try {
+      await scopedVectorStore(env, workspaceId).upsert(vectors)
+    } catch (error) {
+      if (error instanceof ForeignVectorError) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+      throw error
+    }
 
     return new Response(JSON.stringify({ success: true, count: vectors.length }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -140,14 +400,18 @@ async function handleAPI(request: Request, env: Env, corsHeaders: Record<string,
       })
     }
 
-    const matches = await env.VECTORIZE.query(vector, {
-      topK,
-      filter
-    })
+    if (!vectorIndexes(env).has(vector.length)) {
+      return new Response(JSON.stringify({
+        error: `No Vectorize index is bound for ${vector.length}-dimensional vectors; see wrangler.toml`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
 
-    const list = (matches as any).matches || matches || []
+    const matches = await scopedVectorStore(env, workspaceId).query(vector, topK, filter)
 
-    return new Response(JSON.stringify({ matches: list }), {
+    return new Response(JSON.stringify({ matches }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     })
   }
@@ -163,15 +427,27 @@ async function handleAPI(request: Request, env: Env, corsHeaders: Record<string,
       })
     }
 
-    await env.VECTORIZE.deleteByIds(ids)
-    return new Response(JSON.stringify({ success: true }), {
+    // Only delete vectors owned by the caller's workspace (legacy vectors without a tag belong to the default one)
+    let deleted = 0
+    for (const index of vectorIndexes(env).values()) {
+      const existing = await index.getByIds(ids)
+      const ownedIds = existing
+        .filter(v => (v.metadata?.workspaceId ?? DEFAULT_WORKSPACE_ID) === workspaceId)
+        .map(v => v.id)
+
+      if (ownedIds.length > 0) {
+        await index.deleteByIds(ownedIds)
+        deleted += ownedIds.length
+      }
+    }
+    return new Response(JSON.stringify({ success: true, deleted }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     })
   }
 
   // LLM Stream API
   if (path === '/api/llm/stream' && request.method === 'POST') {
-    const { prompt, model = '@cf/meta/llama-3.1-8b-instruct' } = await request.json() as {
+    const { prompt, model = DEFAULT_LLM_MODEL } = await request.json() as {
       prompt: string
       model?: string
     }
@@ -194,30 +470,31 @@ async function handleAPI(request: Request, env: Env, corsHeaders: Record<string,
   }
 
   // KV GET
-  if (path.startsWith('/api/kv/') && request.method === 'GET') {
-    const key = path.replace('/api/kv/', '')
-    const rawValue = await env.KV.get(key)
-
-    let value = null
-    if (rawValue !== null) {
-      try {
-        value = JSON.parse(rawValue)
-      } catch {
-        value = rawValue // Return as-is if not valid JSON
-      }
-    }
+  if (kvKey !== undefined && request.method === 'GET') {
+    const { value, version } = await scopedKV(env, workspaceId).getWithVersion(kvKey)
 
-    return new Response(JSON.stringify({ value }), {
+    return new Response(JSON.stringify({ value, version }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     })
   }
 
   // KV PUT
-  if (path.startsWith('/api/kv/') && request.method === 'PUT') {
-    const key = path.replace('/api/kv/', '')
-    const { value } = await request.json() as { value: unknown }
-
-    await env.KV.put(key, JSON.stringify(value))
+  if (kvKey !== undefined && request.method === 'PUT') {
+    const body = await request.json() as { value: unknown; ifVersion?: string | null }
+    const kv = scopedKV(env, workspaceId)
+
+    // `ifVersion` (null: key must not exist) makes the write conditional; see WorkerKeyValueStore for its limits
+    if ('ifVersion' in body) {
+      const written = await kv.setIfVersion(kvKey, body.value, body.ifVersion ?? null)
+      if (!written) {
+        return new Response(JSON.stringify({ error: 'Version conflict' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+    } else {
+      await kv.set(kvKey, body.value)
+    }
 
     return new Response(JSON.stringify({ success: true }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -225,9 +502,8 @@ async function handleAPI(request: Request, env: Env, corsHeaders: Record<string,
   }
 
   // KV DELETE
-  if (path.startsWith('/api/kv/') && request.method === 'DELETE') {
-    const key = path.replace('/api/kv/', '')
-    await env.KV.delete(key)
+  if (kvKey !== undefined && request.method === 'DELETE') {
+    await scopedKV(env, workspaceId).delete(kvKey)
 
     return new Response(JSON.stringify({ success: true }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -237,9 +513,9 @@ async function handleAPI(request: Request, env: Env, corsHeaders: Record<string,
   // KV LIST
   if (path === '/api/kv' && request.method === 'GET') {
     const prefix = url.searchParams.get('prefix') || undefined
-    const list = await env.KV.list({ prefix })
+    const keys = await scopedKV(env, workspaceId).keys(prefix)
 
-    return new Response(JSON.stringify({ keys: list.keys.map(k => k.name) }), {
+    return new Response(JSON.stringify({ keys: keys.filter(name => !isReservedKVKey(name)) }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     })
   }
@@ -249,3 +525,11 @@ async function handleAPI(request: Request, env: Env, corsHeaders: Record<string,
     headers: corsHeaders,
   })
 }
+
+function scopedKV(env: Env, workspaceId: string): KeyValueStore {
+  return new NamespacedKeyValueStore(new WorkerKeyValueStore(env.KV), workspaceId)
+}
+
+function scopedVectorStore(env: Env, workspaceId: string): VectorStore {
+  return new TenantScopedVectorStore(new WorkerVectorStore(vectorIndexes(env)), workspaceId)
+}
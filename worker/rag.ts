@@ -0,0 +1,149 @@
+/// <reference path="./types/node-async-hooks.d.ts" />
+/**
+ * Server-side Agentic RAG
+ * Runs the full routing → retrieval → generation → self-evaluation loop inside the Worker
+ */
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { AgenticRAGOrchestrator, AgenticRAGConfig } from '../src/lib/agentic-rag-orchestrator'
+import { ConversationManager, Conversation } from '../src/lib/conversation-manager'
+import { runtime } from '../src/lib/runtime/manager'
+import { RuntimeAdapter } from '../src/lib/runtime/interfaces'
+import { withWorkspace, DEFAULT_WORKSPACE_ID } from '../src/lib/runtime/namespaced'
+import { KnowledgeBase, AzureSearchSettings } from '../src/lib/types'
+import { kbStorage } from '../src/lib/kb-storage'
+import { validateMetadataFilter } from '../src/lib/metadata-filters'
+import { RERANK_MODES, RerankMode } from '../src/lib/reranker'
+import type { RAGQueryRequest, RAGQueryResponse } from '../src/lib/rag-api-client'
+import { WorkerRuntimeAdapter, WorkerBindings } from './runtime-adapter'
+
+export type { RAGQueryRequest, RAGQueryResponse }
+
+// Concurrent requests may belong to different workspaces, so each one gets its own adapter
+const requestRuntime = new AsyncLocalStorage<RuntimeAdapter>()
+let resolverInstalled = false
+
+/**
+ * Runs `fn` with the shared `runtime` bound to the Worker bindings, scoped to one workspace.
+ * Background work started during `fn` is kept alive through `ctx.waitUntil`.
+ */
+export function runInWorkspace<T>(
+  bindings: WorkerBindings,
+  workspaceId: string,
+  fn: () => Promise<T>,
+  ctx?: Pick<ExecutionContext, 'waitUntil'>
+): Promise<T> {
+  if (!resolverInstalled) {
+    runtime.setRuntimeResolver(() => requestRuntime.getStore())
+    resolverInstalled = true
+  }
+
+  return requestRuntime.run(withWorkspace(new WorkerRuntimeAdapter(bindings, ctx), workspaceId), fn)
+}
+
+/**
+ * Validates a request body and returns an error message when it is not a usable query.
+ */
+export function validateRAGQueryRequest(body: unknown): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'request body must be a JSON object'
+  }
+
+  const { knowledgeBaseId, query, conversationId, config } = body as Record<string, unknown>
+
+  if (typeof knowledgeBaseId !== 'string' || knowledgeBaseId.length === 0) {
+    return 'knowledgeBaseId is required'
+  }
+  if (typeof query !== 'string' || query.trim().length === 0) {
+    return 'query must be a non-empty string'
+  }
+  if (conversationId !== undefined && typeof conversationId !== 'string') {
+    return 'conversationId must be a string'
+  }
+  if (config !== undefined && (config === null || typeof config !== 'object' || Array.isArray(config))) {
+    return 'config must be an object'
+  }
+  if (config !== undefined && (config as Record<string, unknown>).filters !== undefined) {
+    const filterError = validateMetadataFilter((config as Record<string, unknown>).filters)
+    if (filterError) return `config.${filterError}`
+  }
+  const rerankMode = (config as Record<string, unknown> | undefined)?.rerankMode
+  if (rerankMode !== undefined && !RERANK_MODES.includes(rerankMode as RerankMode)) {
+    return `config.rerankMode must be one of ${RERANK_MODES.join(', ')}`
+  }
+
+  return null
+}
+
+export class RAGRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'RAGRequestError'
+  }
+}
+
+/**
+ * Loads the knowledge base, its documents and the conversation from the caller's workspace,
+ * runs the orchestrator, and records both sides of the exchange in the conversation.
+ */
+export function runAgenticQuery(
+  bindings: WorkerBindings,
+  request: RAGQueryRequest,
+  callbacks: Pick<AgenticRAGConfig, 'onProgress' | 'onToken' | 'onPartialAnswer'> = {},
+  workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ctx?: Pick<ExecutionContext, 'waitUntil'>
+): Promise<RAGQueryResponse> {
+  return runInWorkspace(bindings, workspaceId, () => executeAgenticQuery(request, callbacks), ctx)
+}
+
+async function executeAgenticQuery(
+  request: RAGQueryRequest,
+  callbacks: Pick<AgenticRAGConfig, 'onProgress' | 'onToken' | 'onPartialAnswer'>
+): Promise<RAGQueryResponse> {
+
+  const knowledgeBases = await runtime.kv.get<KnowledgeBase[]>('knowledge-bases') || []
+  const knowledgeBase = knowledgeBases.find(kb => kb.id === request.knowledgeBaseId)
+  if (!knowledgeBase) {
+    throw new RAGRequestError(`Knowledge base not found: ${request.knowledgeBaseId}`, 404)
+  }
+
+  const documents = await kbStorage.getAllDocuments(knowledgeBase.id)
+  const azureSettings = await runtime.kv.get<AzureSearchSettings>('azure-settings') || undefined
+
+  const conversationManager = new ConversationManager()
+  let conversation: Conversation | null
+  if (request.conversationId) {
+    conversation = await conversationManager.getConversation(request.conversationId)
+    if (!conversation) {
+      throw new RAGRequestError(`Conversation not found: ${request.conversationId}`, 404)
+    }
+    if (conversation.knowledgeBaseId !== knowledgeBase.id) {
+      throw new RAGRequestError('Conversation belongs to a different knowledge base', 400)
+    }
+  } else {
+    conversation = await conversationManager.createConversation(knowledgeBase.id, request.query)
+  }
+
+  const orchestrator = new AgenticRAGOrchestrator(
+    documents,
+    knowledgeBase.name,
+    azureSettings,
+    knowledgeBase.azureIndexName,
+    conversationManager.getConversationHistory(conversation)
+  )
+
+  await conversationManager.addMessage(conversation.id, 'user', request.query)
+
+  const response = await orchestrator.query(request.query, {
+    ...request.config,
+    ...callbacks
+  })
+
+  await conversationManager.addMessage(conversation.id, 'assistant', response.answer, {
+    intent: response.routing.intent,
+    confidence: response.evaluation.confidence,
+    sources: response.sources,
+    iterations: response.iterations
+  })
+
+  return { ...response, conversationId: conversation.id }
+}
@@ -0,0 +1,261 @@
+import type { Ai, Vectorize, VectorizeVector } from '@cloudflare/workers-types'
+import { RuntimeAdapter, LLMProvider, KeyValueStore, EmbeddingProvider, VectorStore, RerankProvider, VersionedValue } from '../src/lib/runtime/interfaces'
+import { DEFAULT_CF_EMBEDDING_MODEL, EMBEDDING_DIMENSION, EMBEDDING_MODELS, MAX_EMBEDDING_BATCH_SIZE, MAX_EMBEDDING_TEXT_LENGTH } from '../src/lib/embedding-constants'
+import { DEFAULT_LLM_MODEL, DEFAULT_RERANK_MODEL, MAX_RERANK_TEXT_LENGTH } from '../src/lib/model-defaults'
+import { parseSSEStream } from '../src/lib/sse'
+
+/**
+ * Worker Runtime Adapter
+ * Binds the runtime interfaces directly to the Worker's AI, KV and Vectorize bindings,
+ * so the RAG pipeline can run server-side without going through the HTTP API.
+ */
+
+export interface WorkerBindings {
+  AI: Ai
+  KV: KVNamespace
+  /** Index for EMBEDDING_DIMENSION-dim vectors */
+  VECTORIZE: Vectorize
+  /** Optional indexes for knowledge bases on larger embedding models */
+  VECTORIZE_768?: Vectorize
+  VECTORIZE_1024?: Vectorize
+}
+
+/** Bound Vectorize indexes by the dimension they were created with */
+export function vectorIndexes(bindings: WorkerBindings): Map<number, Vectorize> {
+  const indexes = new Map<number, Vectorize>([[EMBEDDING_DIMENSION, bindings.VECTORIZE]])
+  if (bindings.VECTORIZE_768) indexes.set(768, bindings.VECTORIZE_768)
+  if (bindings.VECTORIZE_1024) indexes.set(1024, bindings.VECTORIZE_1024)
+  return indexes
+}
+
+class WorkerLLMProvider implements LLMProvider {
+  constructor(private ai: Ai) {}
+
+  async generate(prompt: string, model: string = DEFAULT_LLM_MODEL, jsonMode: boolean = false): Promise<string> {
+    const messages = [{ role: 'user', content: prompt }]
+
+    const response = await this.ai.run(model as keyof AiModels, {
+      messages,
+      ...(jsonMode && { response_format: { type: 'json_object' } })
+    } as any) as { response?: string }
+
+    return response.response || ''
+  }
+
+  async *generateStream(prompt: string, model: string = DEFAULT_LLM_MODEL): AsyncGenerator<string, void, unknown> {
+    const messages = [{ role: 'user', content: prompt }]
+
+    const stream = await this.ai.run(model as keyof AiModels, {
+      messages,
+      stream: true
+    } as any) as ReadableStream<Uint8Array>
+
+    for await (const event of parseSSEStream(stream)) {
+      if (event.data === '[DONE]') break
+
+      try {
+        const parsed = JSON.parse(event.data) as { response?: string }
+        if (parsed.response) yield parsed.response
+      } catch {
+        // Ignore keep-alive or partial frames
+      }
+    }
+  }
+}
+
+/** Version reported for values written before versions were stored in KV metadata */
+export const UNVERSIONED = '0'
+
+type VersionMetadata = { version?: string }
+
+function parseStored<T>(rawValue: string): T {
+  try {
+    return JSON.parse(rawValue) as T
+  } catch {
+    return rawValue as unknown as T // Stored as plain text
+  }
+}
+
+/**
+ * Every write stamps a fresh version in the key's metadata. Workers KV has no conditional
+ * put, so `setIfVersion` checks and then writes: a best-effort check, not compare-and-swap.
+ * KV is eventually consistent across locations (up to about 60 seconds), so requests served
+ * from different locations can read the same version and both write, and the later write wins.
+ */
+export class WorkerKeyValueStore implements KeyValueStore {
+  constructor(private kv: KVNamespace) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const rawValue = await this.kv.get(key)
+    return rawValue === null ? null : parseStored<T>(rawValue)
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.put(key, value)
+  }
+
+  async getWithVersion<T>(key: string): Promise<VersionedValue<T>> {
+    const { value, metadata } = await this.kv.getWithMetadata<VersionMetadata>(key)
+    if (value === null) return { value: null, version: null }
+    return { value: parseStored<T>(value), version: metadata?.version ?? UNVERSIONED }
+  }
+
+  async setIfVersion<T>(key: string, value: T, version: string | null): Promise<boolean> {
+    const current = await this.getWithVersion<T>(key)
+    if (current.version !== version) {
+      return false
+    }
+    await this.put(key, value)
+    return true
+  }
+
+  private async put<T>(key: string, value: T): Promise<void> {
+    const metadata: VersionMetadata = { version: crypto.randomUUID() }
+    await this.kv.put(key, JSON.stringify(value), { metadata })
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete(key)
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.kv.get(key)) !== null
+  }
+
+  async keys(prefix?: string): Promise<string[]> {
+    const names: string[] = []
+    let cursor: string | undefined
+
+    do {
+      const page = await this.kv.list({ prefix, cursor })
+      names.push(...page.keys.map(k => k.name))
+      cursor = page.list_complete ? undefined : page.cursor
+    } while (cursor)
+
+    return names
+  }
+}
+
+class WorkerEmbeddingProvider implements EmbeddingProvider {
+  readonly model = DEFAULT_CF_EMBEDDING_MODEL
+  readonly models = EMBEDDING_MODELS.map(m => m.id)
+
+  constructor(private ai: Ai) {}
+
+  async embed(texts: string[], model: string = DEFAULT_CF_EMBEDDING_MODEL): Promise<number[][]> {
+    const embeddings: number[][] = []
+
+    for (let i = 0; i < texts.length; i += MAX_EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + MAX_EMBEDDING_BATCH_SIZE)
+      const result = await this.ai.run(model as keyof AiModels, {
+        text: batch.map(text => text.substring(0, MAX_EMBEDDING_TEXT_LENGTH))
+      } as any) as { data?: number[][] }
+
+      if (!result.data || result.data.length !== batch.length) {
+        throw new Error(`Workers AI returned ${result.data?.length ?? 0} embeddings for ${batch.length} texts`)
+      }
+      embeddings.push(...result.data)
+    }
+
+    return embeddings
+  }
+}
+
+/**
+ * Scores query/text pairs with a Workers AI cross-encoder. The model answers with
+ * `{ id, score }` pairs, where `id` is the position of the text in the request.
+ */
+export class WorkerRerankProvider implements RerankProvider {
+  constructor(private ai: Ai) {}
+
+  async rerank(query: string, texts: string[], model: string = DEFAULT_RERANK_MODEL): Promise<number[]> {
+    if (texts.length === 0) return []
+
+    const result = await this.ai.run(model as keyof AiModels, {
+      query,
+      contexts: texts.map(text => ({ text: text.substring(0, MAX_RERANK_TEXT_LENGTH) })),
+      top_k: texts.length
+    } as any) as { response?: Array<{ id: number; score: number }> }
+
+    const scores = new Array<number>(texts.length).fill(0)
+    for (const { id, score } of result.response || []) {
+      if (id >= 0 && id < texts.length) scores[id] = score
+    }
+    return scores
+  }
+}
+
+/**
+ * A Vectorize index accepts a single dimension, so vectors are routed to the index bound for
+ * their length. Ids are unique across indexes; deletes go to all of them.
+ */
+export class WorkerVectorStore implements VectorStore {
+  constructor(private indexes: Map<number, Vectorize>) {}
+
+  async upsert(vectors: Array<{ id: string; values: number[]; metadata?: Record<string, any> }>): Promise<void> {
+    if (vectors.length === 0) return
+
+    const byDimension = new Map<number, VectorizeVector[]>()
+    for (const v of vectors) {
+      if (!this.indexes.has(v.values.length)) {
+        throw new Error(`No Vectorize index bound for ${v.values.length}-dimensional vectors (id ${v.id})`)
+      }
+      byDimension.set(v.values.length, [...(byDimension.get(v.values.length) || []), { id: v.id, values: v.values, metadata: v.metadata }])
+    }
+
+    for (const [dimension, payload] of byDimension) {
+      await this.indexes.get(dimension)!.upsert(payload)
+    }
+  }
+
+  async query(
+    vector: number[],
+    topK: number = 5,
+    filter?: Record<string, any>
+  ): Promise<Array<{ id: string; score: number; metadata?: Record<string, any> }>> {
+    const index = this.indexes.get(vector.length)
+    if (!index) {
+      throw new Error(`No Vectorize index bound for ${vector.length}-dimensional vectors`)
+    }
+    // Metadata is needed downstream (workspace ownership, chunk ids)
+    const matches = await index.query(vector, { topK, filter, returnMetadata: 'all' } as any)
+    return ((matches as any).matches || []) as Array<{ id: string; score: number; metadata?: Record<string, any> }>
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    for (const index of this.indexes.values()) {
+      await index.deleteByIds(ids)
+    }
+  }
+
+  async getByIds(ids: string[]): Promise<Array<{ id: string; metadata?: Record<string, any> }>> {
+    if (ids.length === 0) return []
+    const found: Array<{ id: string; metadata?: Record<string, any> }> = []
+    for (const index of this.indexes.values()) {
+      found.push(...(await index.getByIds(ids)).map(v => ({ id: v.id, metadata: v.metadata as Record<string, any> | undefined })))
+    }
+    return found
+  }
+}
+
+export class WorkerRuntimeAdapter implements RuntimeAdapter {
+  llm: LLMProvider
+  kv: KeyValueStore
+  embedder?: EmbeddingProvider
+  vectorStore?: VectorStore
+  reranker?: RerankProvider
+  waitUntil?: (promise: Promise<unknown>) => void
+  name = 'worker'
+  version = '1.0.0'
+
+  /** `ctx` is the request's execution context; background work (index rebuilds) is tied to it */
+  constructor(bindings: WorkerBindings, ctx?: Pick<ExecutionContext, 'waitUntil'>) {
+    if (ctx) this.waitUntil = promise => ctx.waitUntil(promise)
+    this.llm = new WorkerLLMProvider(bindings.AI)
+    this.kv = new WorkerKeyValueStore(bindings.KV)
+    this.embedder = new WorkerEmbeddingProvider(bindings.AI)
+    this.vectorStore = new WorkerVectorStore(vectorIndexes(bindings))
+    this.reranker = new WorkerRerankProvider(bindings.AI)
+  }
+}
@@ -0,0 +1,7 @@
+// Minimal typing for the Workers `nodejs_compat` AsyncLocalStorage (no @types/node in this project)
+declare module 'node:async_hooks' {
+  export class AsyncLocalStorage<T> {
+    getStore(): T | undefined
+    run<R>(store: T, callback: () => R): R
+  }
+}